@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { IntelligenceDesignStudio } from './components/IntelligenceDesignStudio';
 import Dashboard from './components/Dashboard';
 import CommandCenter from './components/CommandCenter';
@@ -7,6 +7,10 @@ import { ReportParameters, UserProfile } from './types';
 import { NexusLogo, GlobeIcon, LayoutDashboardIcon, ReportIcon } from './components/Icons';
 import { LandingPage } from './components/LandingPage';
 import useEscapeKey from './hooks/useEscapeKey';
+import { usageMeter } from './services/UsageMeter';
+import { reportRepository, type StoredReport } from './services/ReportRepository';
+import { reportJobQueue } from './services/ReportJobQueue';
+import { documentStore } from './services/DocumentStore';
 
 const initialParams: ReportParameters = {
     reportName: '',
@@ -52,12 +56,15 @@ const initialParams: ReportParameters = {
 
 type ViewMode = 'command-center' | 'intelligence-system' | 'live-feed';
 
+const newReportId = () => Math.random().toString(36).substr(2, 9);
+
 const App: React.FC = () => {
     // DEFAULT VIEW IS NOW THE INTELLIGENCE SYSTEM (GENERATOR)
-    const [params, setParams] = useState<ReportParameters>(initialParams);
+    const [params, setParams] = useState<ReportParameters>(() => ({ ...initialParams, reportId: newReportId() }));
     const [viewMode, setViewMode] = useState<ViewMode>('intelligence-system');
     const [hasEntered, setHasEntered] = useState(false);
-    const [savedReports, setSavedReports] = useState<ReportParameters[]>([]);
+    const [savedReports, setSavedReports] = useState<StoredReport[]>(() => reportRepository.list());
+    const [savedVersion, setSavedVersion] = useState<number | null>(null); // shown until the next edit
     
     // Enable Escape key to return to command center (repository)
     const handleEscape = useCallback(() => {
@@ -68,8 +75,36 @@ const App: React.FC = () => {
 
     useEscapeKey(handleEscape);
 
+    // Attribute model usage to whichever report is open
+    useEffect(() => {
+        usageMeter.setActiveReport(params.reportId);
+    }, [params.reportId]);
+
+    useEffect(() => reportRepository.subscribe(setSavedReports), []);
+
+    // Finished jobs land in the repository with their module outputs
+    useEffect(() => reportJobQueue.subscribe(job => {
+        const artifact = job.status === 'complete' ? reportJobQueue.getArtifact(job.reportId) : undefined;
+        if (!artifact || artifact.jobId !== job.id) return;
+        reportRepository.recordArtifact(artifact, job.params)
+            .catch(e => console.error("Failed to store generated report", e));
+        setParams(current => current.reportId === job.reportId ? { ...current, status: 'complete' } : current);
+    }), []);
+
+    // Only user edits autosave; loading or starting a report does not
     const handleParamsChange = (newParams: ReportParameters) => {
         setParams(newParams);
+        setSavedVersion(null);
+        reportRepository.scheduleDraft(newParams);
+    };
+
+    const saveVersion = async () => {
+        try {
+            const version = await reportRepository.saveVersion(params);
+            setSavedVersion(version.version);
+        } catch (e) {
+            console.error("Version save failed", e);
+        }
     };
 
     const handleProfileUpdate = (profile: UserProfile) => {
@@ -79,19 +114,40 @@ const App: React.FC = () => {
     const startNewMission = () => {
         const newReport = {
             ...initialParams, 
-            reportId: Math.random().toString(36).substr(2, 9),
+            reportId: newReportId(),
             createdAt: new Date().toISOString()
         };
         setParams(newReport);
+        setSavedVersion(null);
         // Do not auto-save to repository yet, wait for user action
         setViewMode('intelligence-system');
     };
 
     const loadReport = (report: ReportParameters) => {
         setParams(report);
+        setSavedVersion(null);
         setViewMode('intelligence-system');
     };
 
+    const restoreVersion = async (reportId: string, version: number) => {
+        try {
+            const restored = await reportRepository.restoreVersion(reportId, version);
+            if (params.reportId === reportId) setParams(restored.params);
+        } catch (e) {
+            console.error("Version restore failed", e);
+        }
+    };
+
+    const deleteReport = (reportId: string) => {
+        reportRepository.delete(reportId).catch(e => console.error("Failed to delete report", e));
+        documentStore.delete(reportId).catch(e => console.error("Failed to delete report documents", e));
+        // Further edits in the studio start a new mission rather than write to the deleted one
+        if (params.reportId === reportId) {
+            setParams({ ...initialParams, reportId: newReportId(), createdAt: new Date().toISOString() });
+            setSavedVersion(null);
+        }
+    };
+
     if (!hasEntered) {
         return <LandingPage onEnter={() => setHasEntered(true)} />;
     }
@@ -148,6 +204,15 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="flex items-center gap-4">
+                    {viewMode === 'intelligence-system' && (
+                        <button
+                            onClick={saveVersion}
+                            className="hidden lg:flex items-center gap-2 text-xs font-bold text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 px-4 py-2 rounded-md transition-colors"
+                            title="Snapshot the current inputs and outputs in the report's version history"
+                        >
+                            {savedVersion !== null ? `Saved v${savedVersion}` : 'Save Version'}
+                        </button>
+                    )}
                     <button 
                         onClick={startNewMission}
                         className="hidden lg:flex items-center gap-2 text-xs font-bold text-white bg-slate-900 hover:bg-slate-800 px-4 py-2 rounded-md transition-colors shadow-sm"
@@ -164,6 +229,8 @@ const App: React.FC = () => {
                         savedReports={savedReports}
                         onCreateNew={startNewMission}
                         onLoadReport={loadReport}
+                        onDeleteReport={deleteReport}
+                        onRestoreVersion={restoreVersion}
                         onOpenInstant={() => setViewMode('live-feed')}
                         onOpenSimulator={() => setViewMode('live-feed')}
                     />
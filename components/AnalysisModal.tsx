@@ -1,8 +1,8 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
 import { generateAnalysisStream } from '../services/geminiService';
+import { composePdf } from '../services/PdfComposer';
+import type { ReportBlock } from '../services/NSILRenderers';
 import type { LiveOpportunityItem } from '../types';
 import Spinner from './Spinner';
 import { CloseIcon, DownloadIcon, NexusLogo } from './Icons';
@@ -80,36 +80,22 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ item, region, onCl
     generateReport();
   }, [item, region]);
 
-  const handleDownloadPdf = async () => {
-    const reportElement = document.getElementById('analysis-report-content');
-    if (!reportElement) return;
+  const parsedReport = useMemo(() => parseNADL(reportText), [reportText]);
+
+  const handleDownloadPdf = () => {
+    if (!parsedReport) return;
 
     setIsDownloading(true);
     try {
-        const canvas = await html2canvas(reportElement, {
-            scale: 2,
-            backgroundColor: '#f9fafb', // Match the document background
-            useCORS: true,
-        });
-        const imgData = canvas.toDataURL('image/png');
-        const pdf = new jsPDF('p', 'mm', 'a4');
-        const pdfWidth = pdf.internal.pageSize.getWidth();
-        const imgProps = pdf.getImageProperties(imgData);
-        const imgHeight = (imgProps.height * pdfWidth) / imgProps.width;
-        
-        let heightLeft = imgHeight;
-        let position = 0;
-        
-        pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-        heightLeft -= pdf.internal.pageSize.getHeight();
-        
-        while (heightLeft > 0) {
-            position = heightLeft - imgHeight;
-            pdf.addPage();
-            pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-            heightLeft -= pdf.internal.pageSize.getHeight();
-        }
-        pdf.save(`Nexus-Analysis-${item.project_name.replace(/\s+/g, '-')}.pdf`);
+        const blocks: ReportBlock[] = [
+            { type: 'paragraph', text: `Topic: ${item.project_name} · Region: ${region}` },
+            ...parsedReport.sections.flatMap((section): ReportBlock[] => [
+                { type: 'heading', level: 2, text: section.title },
+                ...section.content.map((text): ReportBlock => ({ type: 'paragraph', text }))
+            ])
+        ];
+        composePdf({ title: parsedReport.title, subtitle: parsedReport.subtitle, blocks })
+            .save(`Nexus-Analysis-${item.project_name.replace(/\s+/g, '-')}.pdf`);
     } catch (e) {
         console.error("Failed to generate PDF", e);
         setError("PDF generation failed. Please try again.");
@@ -118,8 +104,6 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ item, region, onCl
     }
   };
 
-  const parsedReport = useMemo(() => parseNADL(reportText), [reportText]);
-
   const renderContent = () => {
       if (isLoading && !parsedReport) {
           return (
@@ -184,4 +168,29 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ item, region, onCl
               <p className="text-sm text-slate-500 truncate max-w-md">Topic: {item.project_name}</p>
             </div>
           </div>
-          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-
\ No newline at end of file
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-900 transition-colors" aria-label="Close">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto">
+          {renderContent()}
+        </div>
+
+        <footer className="p-4 flex justify-between items-center border-t border-slate-200 flex-shrink-0 bg-white rounded-b-xl">
+          <p className="text-xs text-slate-500">{isLoading ? 'Analysis streaming...' : 'Analysis complete'}</p>
+          <button
+            onClick={handleDownloadPdf}
+            disabled={!parsedReport || isLoading || isDownloading}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white text-sm font-semibold rounded-lg hover:bg-orange-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {isDownloading ? <Spinner /> : <DownloadIcon className="w-4 h-4" />}
+            {isDownloading ? 'Preparing PDF...' : 'Download PDF'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisModal;
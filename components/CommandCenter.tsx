@@ -1,12 +1,18 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { ReportParameters } from '../types';
 import { FileText, Zap, GlobeIcon, ActivityIcon, PlusCircleIcon, LayoutDashboardIcon, ReportIcon } from './Icons';
+import { usageMeter } from '../services/UsageMeter';
+import type { StoredReport } from '../services/ReportRepository';
+import { ReportDiffView } from './ReportDiffView';
+import { BUNDLE_EXTENSION, downloadMissionBundle, importMissionBundle } from '../services/MissionBundle';
 
 interface CommandCenterProps {
-    savedReports: ReportParameters[];
+    savedReports: StoredReport[];
     onCreateNew: () => void;
     onLoadReport: (report: ReportParameters) => void;
+    onDeleteReport: (reportId: string) => void;
+    onRestoreVersion: (reportId: string, version: number) => void;
     onOpenInstant: () => void;
     onOpenSimulator: () => void;
 }
@@ -15,9 +21,60 @@ const CommandCenter: React.FC<CommandCenterProps> = ({
     savedReports, 
     onCreateNew, 
     onLoadReport,
+    onDeleteReport,
+    onRestoreVersion,
     onOpenInstant,
     onOpenSimulator 
 }) => {
+    const [historyFor, setHistoryFor] = useState<string | null>(null);
+    const [compared, setCompared] = useState<number[]>([]); // version numbers, at most two
+
+    const toggleHistory = (reportId: string) => {
+        setHistoryFor(historyFor === reportId ? null : reportId);
+        setCompared([]);
+    };
+
+    // AI spend cap for one report; an empty value removes it
+    const [budgetFor, setBudgetFor] = useState<string | null>(null);
+    const [budgetDraft, setBudgetDraft] = useState('');
+
+    const editBudget = (reportId: string, budgetUSD: number | undefined) => {
+        setBudgetFor(reportId);
+        setBudgetDraft(budgetUSD !== undefined ? String(budgetUSD) : '');
+    };
+
+    const saveBudget = (reportId: string) => {
+        const budgetUSD = Number(budgetDraft);
+        usageMeter.setBudget(reportId, budgetDraft.trim() !== '' && budgetUSD >= 0 ? budgetUSD : undefined);
+        setBudgetFor(null);
+    };
+
+    const [bundleStatus, setBundleStatus] = useState<{ error: boolean; message: string } | null>(null);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // allow re-importing the same file
+        if (!file) return;
+        try {
+            const imported = await importMissionBundle(new Uint8Array(await file.arrayBuffer()));
+            setBundleStatus({ error: false, message: `Imported "${imported.params.reportName || 'Untitled Analysis'}" with ${imported.versions.length} versions.` });
+        } catch (err) {
+            console.error("Mission import failed", err);
+            setBundleStatus({ error: true, message: err instanceof Error ? err.message : String(err) });
+        }
+    };
+
+    const handleExport = (report: StoredReport) => {
+        downloadMissionBundle(report).catch(err => {
+            console.error("Mission export failed", err);
+            setBundleStatus({ error: true, message: err instanceof Error ? err.message : String(err) });
+        });
+    };
+
+    // Picking a third version replaces the older pick
+    const toggleCompared = (version: number) => setCompared(current =>
+        current.includes(version) ? current.filter(v => v !== version) : [...current, version].slice(-2));
+
     return (
         <div className="min-h-full bg-slate-50 text-gray-900 p-6 md:p-10 overflow-y-auto">
             {/* Header */}
@@ -32,14 +89,26 @@ const CommandCenter: React.FC<CommandCenterProps> = ({
                             Archive of generated strategic reports and intelligence snapshots.
                         </p>
                     </div>
-                    <button 
-                        onClick={onCreateNew}
-                        className="flex items-center gap-2 bg-slate-900 text-white px-4 py-2 rounded-md hover:bg-slate-800 transition-colors text-sm font-medium"
-                    >
-                        <PlusCircleIcon className="w-4 h-4" />
-                        New Analysis
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium cursor-pointer">
+                            <input type="file" accept={`.${BUNDLE_EXTENSION}`} className="hidden" onChange={handleImport} />
+                            Import Mission
+                        </label>
+                        <button 
+                            onClick={onCreateNew}
+                            className="flex items-center gap-2 bg-slate-900 text-white px-4 py-2 rounded-md hover:bg-slate-800 transition-colors text-sm font-medium"
+                        >
+                            <PlusCircleIcon className="w-4 h-4" />
+                            New Analysis
+                        </button>
+                    </div>
                 </div>
+                {bundleStatus && (
+                    <p className={`mt-3 text-xs ${bundleStatus.error ? 'text-red-600' : 'text-green-700'}`}>
+                        {bundleStatus.message}
+                        <button onClick={() => setBundleStatus(null)} className="ml-2 text-gray-400 hover:text-gray-700">Dismiss</button>
+                    </p>
+                )}
             </header>
 
             {/* Quick Actions */}
@@ -96,9 +165,12 @@ const CommandCenter: React.FC<CommandCenterProps> = ({
                     </div>
                 ) : (
                     <div className="divide-y divide-gray-100">
-                        {savedReports.map((report, idx) => (
+                        {savedReports.map((stored, idx) => {
+                            const { reportId, params: report, versions } = stored;
+                            const usage = usageMeter.getReportUsage(reportId);
+                            return (
+                            <div key={reportId}>
                             <div 
-                                key={idx} 
                                 className="p-4 hover:bg-slate-50 transition-colors cursor-pointer flex items-center justify-between"
                                 onClick={() => onLoadReport(report)}
                             >
@@ -122,6 +194,45 @@ const CommandCenter: React.FC<CommandCenterProps> = ({
                                     </div>
                                 </div>
                                 <div className="text-right flex items-center gap-4">
+                                    {budgetFor === reportId ? (
+                                        <form
+                                            onClick={(e) => e.stopPropagation()}
+                                            onSubmit={(e) => { e.preventDefault(); saveBudget(reportId); }}
+                                            className="flex items-center gap-1 text-xs"
+                                        >
+                                            <span className="text-gray-500">$</span>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                autoFocus
+                                                value={budgetDraft}
+                                                onChange={(e) => setBudgetDraft(e.target.value)}
+                                                placeholder="No limit"
+                                                className="w-20 border border-gray-300 rounded p-1 font-mono"
+                                            />
+                                            <button type="submit" className="text-blue-600 hover:underline">Set</button>
+                                            <button type="button" onClick={() => setBudgetFor(null)} className="text-gray-400 hover:text-gray-700">Cancel</button>
+                                        </form>
+                                    ) : (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); editBudget(reportId, usage.budgetUSD); }}
+                                            className={`text-xs font-mono hover:underline ${usage.overBudget ? 'text-red-600' : 'text-gray-500'}`}
+                                            title={`${usage.calls} AI calls, ${(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens. Click to set the AI budget.`}
+                                        >
+                                            {usage.calls > 0 || usage.budgetUSD !== undefined
+                                                ? `$${usage.costUSD.toFixed(2)}${usage.budgetUSD !== undefined ? ` / $${usage.budgetUSD.toFixed(2)}` : ''}`
+                                                : 'Set budget'}
+                                        </button>
+                                    )}
+                                    {versions.length > 0 && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); toggleHistory(reportId); }}
+                                            className="text-xs text-slate-600 hover:underline"
+                                        >
+                                            {versions.length} {versions.length === 1 ? 'version' : 'versions'}
+                                        </button>
+                                    )}
                                     <span className="text-xs text-gray-400">
                                         {new Date(report.createdAt || Date.now()).toLocaleDateString()}
                                     </span>
@@ -132,9 +243,57 @@ const CommandCenter: React.FC<CommandCenterProps> = ({
                                     }`}>
                                         {report.status === 'complete' ? 'Ready' : 'Draft'}
                                     </span>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleExport(stored); }}
+                                        className="text-xs text-slate-600 hover:underline"
+                                        title={`Export as a .${BUNDLE_EXTENSION} bundle`}
+                                    >
+                                        Export
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onDeleteReport(reportId); }}
+                                        className="text-xs text-red-500 hover:underline"
+                                    >
+                                        Delete
+                                    </button>
                                 </div>
                             </div>
-                        ))}
+                            {historyFor === reportId && (
+                                <ul className="px-16 pb-4 space-y-1">
+                                    {[...versions].reverse().map(v => (
+                                        <li key={v.version} className="flex items-center justify-between text-xs text-gray-600 border-l-2 border-slate-200 pl-3 py-1">
+                                            <label className="flex items-center gap-2 cursor-pointer" title="Select two versions to compare">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={compared.includes(v.version)}
+                                                    onChange={() => toggleCompared(v.version)}
+                                                />
+                                                <span className="font-mono font-semibold text-slate-700">v{v.version}</span>
+                                                <span>{v.label}</span>
+                                                <span className="text-gray-400">{new Date(v.savedAt).toLocaleString()}</span>
+                                            </label>
+                                            <button onClick={() => onRestoreVersion(reportId, v.version)} className="text-blue-600 hover:underline">
+                                                Restore
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {historyFor === reportId && compared.length === 2 && (() => {
+                                const [from, to] = [...compared].sort((a, b) => a - b).map(n => versions.find(v => v.version === n)!);
+                                return from && to && (
+                                    <ReportDiffView
+                                        reportId={reportId}
+                                        reportName={report.reportName}
+                                        from={from}
+                                        to={to}
+                                        onClose={() => setCompared([])}
+                                    />
+                                );
+                            })()}
+                            </div>
+                            );
+                        })}
                     </div>
                 )}
             </div>
@@ -2,9 +2,9 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { GlobeIcon, SearchIcon, CpuIcon, ExternalLinkIcon, SymbiosisIcon, AnalyzeIcon } from './Icons';
-import { fetchLiveInsights, fetchIntelligenceForCategory } from '../services/geminiService';
+import { fetchIntelligenceForCategory } from '../services/geminiService';
 import { getMultiAgentOrchestrator } from '../services/MultiAgentOrchestrator';
-import { AgentHealthStatus, DashboardIntelligence, SymbiosisContext } from '../types';
+import { AgentHealthStatus, DashboardIntelligence, MultiAgentAnalysis, SymbiosisContext } from '../types';
 import { TradeDisruptionWidget } from './TradeDisruptionAnalyzer';
 import { MarketDiversificationWidget } from './MarketDiversificationDashboard';
 import { DASHBOARD_CATEGORIES } from '../constants';
@@ -90,6 +90,7 @@ const IntelligenceCard: React.FC<{
 
 const Dashboard: React.FC<Props> = ({ onAnalyze, onStartSymbiosis }) => {
   const [agentHealth, setAgentHealth] = useState<AgentHealthStatus[]>([]);
+  const [runningTasks, setRunningTasks] = useState<MultiAgentAnalysis[]>([]);
   
   // Advanced Intel State
   const [intelligence, setIntelligence] = useState<DashboardIntelligence[]>([]);
@@ -101,13 +102,21 @@ const Dashboard: React.FC<Props> = ({ onAnalyze, onStartSymbiosis }) => {
   useEffect(() => {
     // Initialize Agent Monitor
     const orchestrator = getMultiAgentOrchestrator();
-    setAgentHealth(orchestrator.getAgentHealth());
-    const interval = setInterval(() => {
+    const refresh = () => {
         setAgentHealth(orchestrator.getAgentHealth());
-    }, 5000);
+        setRunningTasks(orchestrator.getActiveTasks().filter(t => t.status === 'queued' || t.status === 'processing'));
+    };
+    refresh();
+    const interval = setInterval(refresh, 5000);
     return () => clearInterval(interval);
   }, []);
 
+  const handleCancelTask = (taskId: string) => {
+    const orchestrator = getMultiAgentOrchestrator();
+    orchestrator.cancelTask(taskId);
+    setRunningTasks(prev => prev.filter(t => t.task.id !== taskId));
+  };
+
   const loadIntelligence = useCallback(async () => {
     setIsIntelLoading(true);
     setIntelError(null);
@@ -119,6 +128,7 @@ const Dashboard: React.FC<Props> = ({ onAnalyze, onStartSymbiosis }) => {
     const fetchPromises = DASHBOARD_CATEGORIES.map(category =>
       fetchIntelligenceForCategory(category)
         .then(data => {
+          if (data.provenance === 'fallback') hasFetchError = true;
           setIntelligence(prev => {
             const newIntelligence = [...prev, data];
             // Sort to keep order consistent based on constant definition
@@ -185,6 +195,25 @@ const Dashboard: React.FC<Props> = ({ onAnalyze, onStartSymbiosis }) => {
                      <div className="text-xs text-slate-400 italic col-span-3">Initializing agent swarm protocol...</div>
                 )}
             </div>
+            {runningTasks.length > 0 && (
+                <div className="mt-4 space-y-2">
+                    {runningTasks.map((t) => (
+                        <div key={t.task.id} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 border border-white/10">
+                            <div className="min-w-0">
+                                <span className="text-xs font-mono text-slate-300">{t.task.id}</span>
+                                <span className="ml-2 text-[10px] uppercase text-orange-400">{t.status}</span>
+                                <p className="text-[10px] text-slate-500 truncate max-w-md">{t.task.prompt}</p>
+                            </div>
+                            <button
+                                onClick={() => handleCancelTask(t.task.id)}
+                                className="text-[10px] font-bold uppercase text-red-400 hover:text-red-300 px-2 py-1 rounded border border-red-400/30 hover:bg-red-500/10"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
 
         {/* Header Stats */}
@@ -2,22 +2,27 @@
 import React, { useState, useEffect } from 'react';
 import { generateDeepReasoning } from '../services/nexusService';
 import { BrainCircuit, ShieldCheck, ScaleIcon, MicroscopeIcon } from './Icons';
-import type { DeepReasoningAnalysis } from '../types';
+import type { DeepReasoningAnalysis, MissionDocumentRef, PriorReportRef } from '../types';
+import ProvenanceNotice from './common/ProvenanceNotice';
+import CitationList from './common/CitationList';
 
 interface DeepReasoningEngineProps {
     userOrg: string;
     targetEntity: string;
     context: string;
+    reportId?: string;
+    documents?: MissionDocumentRef[];
+    priorReports?: PriorReportRef[];
 }
 
-export const DeepReasoningEngine: React.FC<DeepReasoningEngineProps> = ({ userOrg, targetEntity, context }) => {
+export const DeepReasoningEngine: React.FC<DeepReasoningEngineProps> = ({ userOrg, targetEntity, context, reportId, documents, priorReports }) => {
     const [analysis, setAnalysis] = useState<DeepReasoningAnalysis | null>(null);
     const [thinking, setThinking] = useState(false);
 
     const runAnalysis = async () => {
         setThinking(true);
         try {
-            const result = await generateDeepReasoning(userOrg, targetEntity, context);
+            const result = await generateDeepReasoning(userOrg, targetEntity, context, { reportId, documents, priorReports });
             setAnalysis(result);
         } catch (e) {
             console.error(e);
@@ -62,6 +67,9 @@ export const DeepReasoningEngine: React.FC<DeepReasoningEngineProps> = ({ userOr
                 </span>
             </div>
 
+            <ProvenanceNotice provenance={analysis.provenance} />
+            <CitationList citations={analysis.citations} />
+
             <div className="grid md:grid-cols-2 gap-6">
                 <div className="space-y-4">
                     <div className="bg-red-50 p-4 rounded-lg border border-red-100">
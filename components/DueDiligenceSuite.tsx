@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { generateSearchGroundedContent } from '../services/geminiService';
+import { generateSearchGroundedContent } from '../services/aiGateway';
 
 interface DueDiligenceSuiteProps {
     partnerName: string;
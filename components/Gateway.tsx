@@ -3,6 +3,9 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ReportParameters, SkillLevel } from '../types';
 import { ORGANIZATION_TYPES, ORGANIZATION_SUBTYPES, REGIONS_AND_COUNTRIES, INDUSTRIES, STRATEGIC_OBJECTIVES, STRATEGIC_LENSES, INDUSTRY_NICHES } from '../constants';
 import { Zap, BrainCircuit, CheckCircle, GlobeIcon, CloseIcon, MatchMakerIcon, ShieldCheck, Users, FileText, MapPinIcon, Target } from './Icons';
+import AttachedDocuments from './common/AttachedDocuments';
+import PriorReports from './common/PriorReports';
+import { SUPPORTED_DOCUMENT_EXTENSIONS, attachDocuments, includeDocuments } from '../services/DocumentIngestion';
 
 interface GatewayProps {
     params: ReportParameters;
@@ -191,6 +194,8 @@ const MegaMultiSelect = ({
 
 export const Gateway: React.FC<GatewayProps> = ({ params, onUpdate, onComplete }) => {
     const [step, setStep] = useState<1 | 2 | 3>(1);
+    const [isIngesting, setIsIngesting] = useState(false);
+    const [uploadErrors, setUploadErrors] = useState<string[]>([]);
 
     useEffect(() => {
         const container = document.getElementById('studio-scroll-container');
@@ -217,12 +222,21 @@ export const Gateway: React.FC<GatewayProps> = ({ params, onUpdate, onComplete }
         update(field, updated);
     };
 
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            update('uploadedFileName', file.name);
-            update('uploadedDocument', true);
-        }
+    // Edits made while a file is parsed must survive, so refs are merged into the latest params
+    const latestParams = useRef(params);
+    latestParams.current = params;
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+        e.target.value = '';
+        if (!files.length) return;
+        const reportId = params.reportId;
+        setIsIngesting(true);
+        const result = await attachDocuments(reportId, files);
+        setIsIngesting(false);
+        setUploadErrors(result.errors);
+        // A different mission was opened meanwhile; the documents belong to the one they were uploaded to
+        if (latestParams.current.reportId === reportId) onUpdate(includeDocuments(latestParams.current, result.refs));
     };
 
     const inputStyles = "w-full p-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-slate-800 focus:border-slate-800 outline-none transition-all text-sm text-gray-900 shadow-sm placeholder-gray-400";
@@ -626,11 +640,13 @@ export const Gateway: React.FC<GatewayProps> = ({ params, onUpdate, onComplete }
                                                 placeholder="Describe specific goals, constraints, or unique requirements... (e.g. 'We need a partner with strong ESG credentials for a joint venture in renewable energy.')"
                                             />
                                             <div className="mt-3">
-                                                <input type="file" id="doc-upload-step2" className="hidden" onChange={handleFileUpload} />
+                                                <input type="file" id="doc-upload-step2" className="hidden" onChange={handleFileUpload} accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')} multiple />
                                                 <label htmlFor="doc-upload-step2" className="flex items-center gap-2 text-xs font-bold text-blue-600 cursor-pointer hover:text-blue-800 transition-colors">
                                                     <FileText className="w-4 h-4" /> 
-                                                    {params.uploadedFileName ? `Attached: ${params.uploadedFileName}` : 'Upload Brief / RFP / Supporting Doc'}
+                                                    {isIngesting ? 'Reading document...' : params.documents?.length ? 'Upload Another Doc' : 'Upload Brief / RFP / Supporting Doc'}
                                                 </label>
+                                                <AttachedDocuments params={params} onParamsChange={onUpdate} errors={uploadErrors} />
+                                                <PriorReports params={params} onParamsChange={onUpdate} />
                                             </div>
                                         </div>
                                     </div>
@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import type { ReportParameters, GeopoliticalAnalysisResult } from '../types';
 import { runGeopoliticalAnalysis } from '../services/nexusService';
 import { GlobeIcon, ActivityIcon } from './Icons';
+import ProvenanceNotice from './common/ProvenanceNotice';
+import CitationList from './common/CitationList';
 
 interface GeopoliticalAnalysisStepProps {
     params: ReportParameters;
@@ -26,7 +28,7 @@ const GeopoliticalAnalysisStep: React.FC<GeopoliticalAnalysisStepProps> = ({ par
             }
         };
         run();
-    }, [params.region]);
+    }, [params.region, params.documents]);
 
     if (!params.region) return <div className="p-8 text-center text-gray-500">Please select a target region to activate Geopolitical Intelligence.</div>;
 
@@ -40,6 +42,9 @@ const GeopoliticalAnalysisStep: React.FC<GeopoliticalAnalysisStepProps> = ({ par
                 {loading && <span className="text-xs text-indigo-600 font-bold animate-pulse">Analyzing Regional Stability...</span>}
             </div>
 
+            {analysis && <ProvenanceNotice provenance={analysis.provenance} />}
+            {analysis && <CitationList citations={analysis.citations} />}
+
             {analysis ? (
                 <div className="grid gap-6 md:grid-cols-2">
                     <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import type { ReportParameters, GovernanceAuditResult } from '../types';
 import { runGovernanceAudit } from '../services/nexusService';
 import { ShieldCheckIcon, ManualIcon } from './Icons';
+import ProvenanceNotice from './common/ProvenanceNotice';
+import CitationList from './common/CitationList';
 
 interface GovernanceAuditStepProps {
     params: ReportParameters;
@@ -26,7 +28,7 @@ const GovernanceAuditStep: React.FC<GovernanceAuditStepProps> = ({ params }) =>
             }
         };
         run();
-    }, [params.region, params.organizationType]);
+    }, [params.region, params.organizationType, params.documents]);
 
     if (!params.region) return <div className="p-8 text-center text-gray-500">Awaiting jurisdiction selection...</div>;
 
@@ -49,6 +51,9 @@ const GovernanceAuditStep: React.FC<GovernanceAuditStepProps> = ({ params }) =>
                 {loading && <span className="text-xs text-blue-600 font-bold animate-pulse">Running Integrity Check...</span>}
             </div>
 
+            {audit && <ProvenanceNotice provenance={audit.provenance} />}
+            {audit && <CitationList citations={audit.citations} />}
+
             {audit ? (
                 <div className="grid gap-6 md:grid-cols-2">
                     <div className="space-y-6">
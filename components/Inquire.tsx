@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality, Blob } from "@google/genai";
 import { ReportParameters, AgentType, ChatMessage } from '../types';
-import { orchestrateAgentResponse } from '../services/nexusService';
+import { orchestrateAgentResponse } from '../services/aiGateway';
 import { SearchIcon, BrainCircuit, MessageSquareIcon, ActivityIcon, Users } from './Icons';
 
 interface InquireProps {
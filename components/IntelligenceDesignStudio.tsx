@@ -1,11 +1,14 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { ReportParameters, UserProfile, StrategicIntent, SkillLevel } from '../types';
 import { ORGANIZATION_TYPES, STRATEGIC_INTENTS, REGIONS_AND_COUNTRIES, ORGANIZATION_SUBTYPES } from '../constants';
 import { NexusLogo, Target, BrainCircuit, GlobeIcon, Users, FileText, LetterIcon, Layers, CheckCircle, RocketIcon, ShieldCheck, ActivityIcon, ManualIcon } from './Icons';
 import { StrategicCanvas } from './StrategicCanvas';
-import { generateFastSuggestion } from '../services/nexusService';
+import { generateFastSuggestion } from '../services/aiGateway';
 import Inquire from './Inquire';
+import AttachedDocuments from './common/AttachedDocuments';
+import PriorReports from './common/PriorReports';
+import { SUPPORTED_DOCUMENT_EXTENSIONS, attachDocuments, includeDocuments } from '../services/DocumentIngestion';
 
 interface DesignStudioProps {
     params: ReportParameters;
@@ -69,6 +72,8 @@ export const IntelligenceDesignStudio: React.FC<DesignStudioProps> = ({
 }) => {
     const [stage, setStage] = useState<StudioStage>('identity');
     const [isAnalyzingThought, setIsAnalyzingThought] = useState(false);
+    const [isIngesting, setIsIngesting] = useState(false);
+    const [uploadErrors, setUploadErrors] = useState<string[]>([]);
 
     // --- Handlers ---
 
@@ -113,11 +118,21 @@ export const IntelligenceDesignStudio: React.FC<DesignStudioProps> = ({
         }
     };
 
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            onParamsChange({ ...params, uploadedFileName: file.name, uploadedDocument: true });
-        }
+    // Edits made while a file is parsed must survive, so refs are merged into the latest params
+    const latestParams = useRef(params);
+    latestParams.current = params;
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+        e.target.value = '';
+        if (!files.length) return;
+        const reportId = params.reportId;
+        setIsIngesting(true);
+        const result = await attachDocuments(reportId, files);
+        setIsIngesting(false);
+        setUploadErrors(result.errors);
+        // A different mission was opened meanwhile; the documents belong to the one they were uploaded to
+        if (latestParams.current.reportId === reportId) onParamsChange(includeDocuments(latestParams.current, result.refs));
     };
 
     // Calculate active engines for the preview
@@ -404,12 +419,15 @@ export const IntelligenceDesignStudio: React.FC<DesignStudioProps> = ({
                                                     id="identity-doc-upload" 
                                                     className="hidden" 
                                                     onChange={handleFileUpload}
-                                                    accept=".pdf,.docx,.txt"
+                                                    accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                                                    multiple
                                                 />
                                                 <label htmlFor="identity-doc-upload" className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer hover:text-slate-900 transition-colors px-3 py-2 rounded hover:bg-white border border-transparent hover:border-slate-300">
                                                     <FileText className="w-4 h-4" /> 
-                                                    {params.uploadedFileName ? `Attached: ${params.uploadedFileName}` : 'Attach Briefing Doc'}
+                                                    {isIngesting ? 'Reading document...' : params.documents?.length ? 'Attach Another Doc' : 'Attach Briefing Doc'}
                                                 </label>
+                                                <AttachedDocuments params={params} onParamsChange={onParamsChange} errors={uploadErrors} />
+                                                <PriorReports params={params} onParamsChange={onParamsChange} />
                                             </div>
 
                                             <button 
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { generateThinkingContent } from '../services/nexusService';
+import { generateThinkingContent } from '../services/aiGateway';
 
 const PredictiveGrowthModel = ({ location, timeHorizon, onModelComplete }: { location: any; timeHorizon: number; onModelComplete: any }) => {
     const [analysis, setAnalysis] = useState<string | null>(null);
@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { ReportParameters } from '../types';
 import { ORGANIZATION_TYPES, ORGANIZATION_SUBTYPES } from '../constants';
-import { generateFastSuggestion } from '../services/nexusService';
+import { generateFastSuggestion } from '../services/aiGateway';
 import { SavedWorkManager } from './SavedWorkManager';
 
 interface ProfileStepProps {
@@ -14,7 +14,7 @@ interface ProfileStepProps {
     savedReports?: ReportParameters[];
     onSave?: (params: ReportParameters) => void;
     onLoad?: (params: ReportParameters) => void;
-    onDelete?: (reportName: string) => void;
+    onDelete?: (reportId: string) => void;
 }
 
 const UploadIcon = ({className}: {className?: string}) => <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>;
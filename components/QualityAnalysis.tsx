@@ -1,12 +1,12 @@
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { Schema, Type } from "@google/genai";
 import { ReportParameters } from '../types';
+import { generateStructured } from '../services/aiGateway';
+import { arrayOf, boolean, number, objectOf, string } from '../services/SchemaValidation';
 import { RadialBarChart, RadialBar, Legend, ResponsiveContainer, Tooltip } from 'recharts';
 import { ShieldCheckIcon, SearchIcon, BookOpenIcon, AlertTriangleIcon, CheckCircleIcon } from './Icons';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 interface QualityAnalysisProps {
     params: ReportParameters;
 }
@@ -21,6 +21,16 @@ interface QualityAudit {
     freshnessScore: number;
 }
 
+const QualityAuditSchema = objectOf<QualityAudit>({
+    score: number({ min: 0, max: 100 }),
+    credibility: string(),
+    biasDetected: boolean(),
+    biasAnalysis: string(),
+    missingDataPoints: arrayOf(string()),
+    recommendedSources: arrayOf(string()),
+    freshnessScore: number({ min: 0, max: 100 })
+});
+
 const schema: Schema = {
     type: Type.OBJECT,
     properties: {
@@ -58,19 +68,16 @@ const QualityAnalysis: React.FC<QualityAnalysisProps> = ({ params }) => {
                     Analyze for data availability, cognitive biases, and data gaps.
                 `;
 
-                const response = await ai.models.generateContent({
+                const result = await generateStructured<QualityAudit>({
                     model: 'gemini-2.5-flash',
                     contents: prompt,
                     config: { 
                         responseMimeType: 'application/json',
                         responseSchema: schema
                     }
-                });
+                }, { module: 'quality-analysis', reportId: params.reportId, capability: 'structured', validate: QualityAuditSchema });
 
-                const text = response.text;
-                if (text && isMounted) {
-                    setAudit(JSON.parse(text));
-                }
+                if (isMounted) setAudit(result);
             } catch (error) {
                 console.error("Quality Audit Failed", error);
             } finally {
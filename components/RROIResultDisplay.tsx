@@ -1,6 +1,8 @@
 
 import React from 'react';
 import type { RROI_Index } from '../types';
+import ProvenanceNotice from './common/ProvenanceNotice';
+import CitationList from './common/CitationList';
 
 export const RROIResultDisplay: React.FC<{ rroi: RROI_Index }> = ({ rroi }) => {
     const getScoreColor = (score: number) => {
@@ -17,6 +19,8 @@ export const RROIResultDisplay: React.FC<{ rroi: RROI_Index }> = ({ rroi }) => {
 
     return (
         <div className="space-y-6 animate-fade-in">
+            <ProvenanceNotice provenance={rroi.provenance} />
+            <CitationList citations={rroi.citations} />
             <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col items-center text-center relative overflow-hidden">
                 <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-400 via-blue-500 to-green-500"></div>
                 <p className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">Regional Readiness Score</p>
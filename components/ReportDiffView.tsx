@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import type { ReportVersion } from '../services/ReportRepository';
+import { diffReportVersions, downloadChangeMemo, formatParameterValue, parameterLabel } from '../services/ReportDiff';
+
+interface ReportDiffViewProps {
+    reportId: string;
+    reportName: string;
+    from: ReportVersion;
+    to: ReportVersion;
+    onClose: () => void;
+}
+
+const deltaStyle = (delta?: number) =>
+    delta === undefined ? 'text-gray-400' : delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-600' : 'text-gray-500';
+
+const fmt = (n?: number) => n === undefined ? '—' : String(Math.round(n * 10) / 10);
+
+export const ReportDiffView: React.FC<ReportDiffViewProps> = ({ reportId, reportName, from, to, onClose }) => {
+    const diff = useMemo(() => diffReportVersions(reportId, from, to), [reportId, from, to]);
+    const { added, removed, rescored } = diff.partners;
+
+    return (
+        <div className="mx-6 mb-4 p-4 bg-slate-50 border border-slate-200 rounded-lg text-xs text-gray-700">
+            <div className="flex justify-between items-center mb-3">
+                <h4 className="text-sm font-bold text-gray-900">
+                    Changes from v{from.version} to v{to.version}
+                </h4>
+                <div className="flex gap-2">
+                    <button onClick={() => downloadChangeMemo(diff, reportName, 'markdown')} className="px-2 py-1 font-semibold text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100">
+                        Memo (Markdown)
+                    </button>
+                    <button onClick={() => downloadChangeMemo(diff, reportName, 'pdf')} className="px-2 py-1 font-semibold text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100">
+                        Memo (PDF)
+                    </button>
+                    <button onClick={onClose} className="px-2 py-1 text-gray-500 hover:text-gray-900">Close</button>
+                </div>
+            </div>
+
+            <h5 className="font-bold text-gray-500 uppercase mb-1">Mission Parameters</h5>
+            {diff.parameters.length === 0 ? (
+                <p className="mb-3 text-gray-500">No mission parameters changed.</p>
+            ) : (
+                <table className="w-full mb-3">
+                    <tbody>
+                        {diff.parameters.map(c => (
+                            <tr key={c.field} className="border-b border-slate-100">
+                                <td className="py-1 pr-3 font-medium text-gray-900">{parameterLabel(c.field)}</td>
+                                <td className="py-1 pr-3 text-red-600 line-through">{formatParameterValue(c.before)}</td>
+                                <td className="py-1 text-green-700">{formatParameterValue(c.after)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <h5 className="font-bold text-gray-500 uppercase mb-1">Scores</h5>
+            {diff.scores.length === 0 ? (
+                <p className="mb-3 text-gray-500">Neither version has generated module scores.</p>
+            ) : (
+                <table className="w-full mb-3">
+                    <tbody>
+                        {diff.scores.map(s => (
+                            <tr key={s.metric} className="border-b border-slate-100">
+                                <td className="py-1 pr-3 font-medium text-gray-900">{s.metric}</td>
+                                <td className="py-1 pr-3 font-mono">{fmt(s.before)}</td>
+                                <td className="py-1 pr-3 font-mono">{fmt(s.after)}</td>
+                                <td className={`py-1 font-mono font-semibold ${deltaStyle(s.delta)}`}>
+                                    {s.delta === undefined ? 'n/a' : `${s.delta > 0 ? '+' : ''}${fmt(s.delta)}`}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <h5 className="font-bold text-gray-500 uppercase mb-1">Partners</h5>
+            {added.length + removed.length + rescored.length === 0 ? (
+                <p className="text-gray-500">The partner shortlist is unchanged.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {added.map(p => <li key={`+${p.entityName}`} className="text-green-700">+ {p.entityName} ({p.entityType}, {p.location})</li>)}
+                    {removed.map(p => <li key={`-${p.entityName}`} className="text-red-600">− {p.entityName} ({p.entityType}, {p.location})</li>)}
+                    {rescored.map(r => (
+                        <li key={`~${r.entityName}`}>
+                            {r.entityName}: <span className="font-mono">{r.before} → {r.after}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
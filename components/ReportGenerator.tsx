@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import type { ReportParameters, UserProfile as UserProfileType, ReportSuggestions } from '../types.ts';
-import { getDynamicScopeSuggestions } from '../services/nexusService.ts';
+import { getDynamicScopeSuggestions } from '../services/aiGateway';
 import { REGIONS_AND_COUNTRIES, INDUSTRIES, AI_PERSONAS, TIERS_BY_ORG_TYPE, GLOBAL_CITY_DATABASE, STEP_3_LABELS } from '../constants.tsx';
 import Inquire from './Inquire.tsx';
 import { Settings, Layers, Zap, BrainCircuit, Users, TrendingUp, Target, GlobeIcon, ShieldCheck, ActivityIcon, FileText } from './Icons.tsx';
@@ -34,7 +34,7 @@ interface ReportGeneratorProps {
     savedReports: ReportParameters[];
     onSaveReport: (params: ReportParameters) => void;
     onLoadReport: (params: ReportParameters) => void;
-    onDeleteReport: (reportName: string) => void;
+    onDeleteReport: (reportId: string) => void;
     onScopeComplete: () => void;
 }
 
@@ -323,7 +323,7 @@ const WizardStepContent = React.memo((props: any) => {
         case 15: return <SymbioticMatchmaking params={params} onPartnerSelect={(partner) => handleChange('idealPartnerProfile', partner.entityName)} />;
         case 14: return <SEAMEcosystemStep params={params} />;
         case 6: return <PartnerIntelligenceDashboard params={params} />;
-        case 16: return <DeepReasoningEngine userOrg={params.organizationType} targetEntity={params.idealPartnerProfile || "Target Partner"} context={params.problemStatement} />;
+        case 16: return <DeepReasoningEngine userOrg={params.organizationType} targetEntity={params.idealPartnerProfile || "Target Partner"} context={params.problemStatement} reportId={params.reportId} documents={params.documents} priorReports={params.priorReports} />;
         case 99: return (
             <div className="space-y-6">
                 <div className="bg-white p-6 rounded-xl text-gray-900 border border-gray-300 shadow-sm">
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import type { ReportParameters } from '../types';
+import { jobProgress, reportJobQueue, type ReportJob, type ReportStageStatus } from '../services/ReportJobQueue';
+import { downloadNSIL, listNSILRenderers } from '../services/NSILRenderers';
+import Spinner from './Spinner';
+
+interface ReportJobPanelProps {
+    params: ReportParameters;
+    modules: string[]; // canvas modules to run
+}
+
+const STAGE_STYLES: Record<ReportStageStatus, string> = {
+    pending: 'text-slate-400',
+    running: 'text-indigo-600 font-semibold',
+    complete: 'text-green-600',
+    failed: 'text-red-600 font-semibold',
+    skipped: 'text-slate-400 line-through'
+};
+
+const latestJob = (reportId: string) => reportJobQueue.list(reportId).slice(-1)[0];
+
+export const ReportJobPanel: React.FC<ReportJobPanelProps> = ({ params, modules }) => {
+    const [job, setJob] = useState<ReportJob | undefined>(() => latestJob(params.reportId));
+
+    useEffect(() => {
+        setJob(latestJob(params.reportId));
+        return reportJobQueue.subscribe(updated => {
+            // Copy so React sees a new object for every transition
+            if (updated.reportId === params.reportId) setJob({ ...updated, stages: updated.stages.map(s => ({ ...s })) });
+        });
+    }, [params.reportId]);
+
+    const active = job?.status === 'queued' || job?.status === 'running';
+    const artifact = job?.status === 'complete' ? reportJobQueue.getArtifact(job.reportId) : undefined;
+    const basename = (params.reportName || 'nsil-report').replace(/\s+/g, '-');
+
+    return (
+        <div className="p-4 bg-white rounded-lg border border-gray-200 w-full max-w-md">
+            <div className="flex justify-between items-center gap-4">
+                <h4 className="text-sm font-bold text-gray-900">Report Generation</h4>
+                <div className="flex gap-2">
+                    {active && (
+                        <button onClick={() => reportJobQueue.cancel(job!.id)} className="px-3 py-1.5 text-xs font-bold text-red-600 border border-red-200 rounded hover:bg-red-50">
+                            Cancel
+                        </button>
+                    )}
+                    {(job?.status === 'cancelled' || job?.status === 'failed') && (
+                        <button onClick={() => reportJobQueue.resume(job.id)} className="px-3 py-1.5 text-xs font-bold text-slate-700 border border-slate-300 rounded hover:bg-slate-50">
+                            Resume
+                        </button>
+                    )}
+                    <button
+                        onClick={() => reportJobQueue.enqueue({ ...params, analyticalModules: modules })}
+                        disabled={active}
+                        className="px-3 py-1.5 bg-slate-900 text-white rounded text-xs font-bold hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed"
+                    >
+                        {job ? 'Regenerate' : 'Generate Report'}
+                    </button>
+                </div>
+            </div>
+
+            {job && (
+                <div className="mt-3">
+                    <div className="flex justify-between text-xs text-slate-500 mb-1">
+                        <span className="capitalize flex items-center gap-2">{job.status === 'running' && <Spinner className="w-3 h-3" />}{job.status}</span>
+                        <span>{Math.round(jobProgress(job) * 100)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${jobProgress(job) * 100}%` }} />
+                    </div>
+                    <ul className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+                        {job.stages.map(stage => (
+                            <li key={stage.id} className={`text-xs flex justify-between gap-2 ${STAGE_STYLES[stage.status]}`} title={stage.error}>
+                                <span className="truncate">{stage.label}</span>
+                                <span>{stage.status}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {job.error && <p className="mt-2 text-xs text-red-600">{job.error}</p>}
+                    {artifact && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                            {listNSILRenderers().map(r => (
+                                <button key={r.id} onClick={() => downloadNSIL(artifact.report, r.id, basename)} className="px-2 py-1 text-xs font-semibold text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100">
+                                    {r.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
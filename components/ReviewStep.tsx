@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { ReportParameters } from '../types';
-import { generateSpeech, decodeAudioData } from '../services/nexusService';
+import { generateSpeech, decodeAudioData } from '../services/aiGateway';
 import { FileText, Users, GlobeIcon, Target, ShieldCheck, TrendingUp, BrainCircuit, DownloadIcon, NexusLogo } from './Icons';
 
 interface ReviewStepProps {
@@ -1,23 +1,43 @@
 
 import React, { useState } from 'react';
+import { BarChart as ReBarChart, Bar, XAxis, YAxis, ZAxis, Tooltip, ReferenceLine, ResponsiveContainer, ScatterChart, Scatter, CartesianGrid, Cell, ComposedChart, Area, Line } from 'recharts';
 import { runOpportunityOrchestration, OrchResult } from '../services/MultiAgentOrchestrator';
-import type { ReportParameters, RegionProfile } from '../types';
+import { IVAS_PROFILES, DEFAULT_IVAS_PROFILE, type IVASSensitivity } from '../services/IVAS';
+import { MAX_PROXY_CAPITAL_USD, type OpportunityPortfolio } from '../services/OpportunityPortfolio';
+import { reportRepository } from '../services/ReportRepository';
+import { runMonteCarlo, spreadAround, type MonteCarloResult, type MonteCarloSpec, type Percentiles } from '../services/MonteCarlo';
+import { FEATURE_CATEGORIES, getCompatibilityMatrix, pairKey, resetCompatibilityMatrix, setCompatibilityRule, type CompatibilityMatrix } from '../services/FeatureTaxonomy';
+import type { ReportParameters, RegionProfile, FeatureCategory } from '../types';
 import { RocketIcon, ActivityIcon, Zap, TrendingUp, BarChart, SlidersIcon } from './Icons';
 
 interface RocketEngineModuleProps {
     params: ReportParameters;
+    onParamsChange?: (params: ReportParameters) => void;
 }
 
-const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
+const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params, onParamsChange }) => {
     const [loading, setLoading] = useState(false);
     const [results, setResults] = useState<OrchResult | null>(null);
     const [showConfig, setShowConfig] = useState(false);
     const [customCapital, setCustomCapital] = useState<string>('');
     const [customFeatures, setCustomFeatures] = useState<string>('');
+    const [customYears, setCustomYears] = useState<string>('');
+    const [customLocalContent, setCustomLocalContent] = useState<string>('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [mcIterations, setMcIterations] = useState<string>('500');
+    const [mcSeed, setMcSeed] = useState<string>('42');
+    const [mcSpread, setMcSpread] = useState<string>('25');
+    const [mcProgress, setMcProgress] = useState<number | null>(null);
+    const [mcResult, setMcResult] = useState<MonteCarloResult | null>(null);
+    const [ivasProfile, setIvasProfile] = useState<string>(params.ivasProfile || DEFAULT_IVAS_PROFILE);
 
-    const handleRun = async () => {
-        setLoading(true);
-        
+    const handleProfileChange = (profileId: string) => {
+        setIvasProfile(profileId);
+        // Persist the choice on the report so re-runs and exports use the same weights
+        if (onParamsChange) onParamsChange({ ...params, ivasProfile: profileId });
+    };
+
+    const buildRegionProfile = (): RegionProfile => {
         const features = customFeatures 
             ? customFeatures.split(',').map(s => ({ name: s.trim(), rarityScore: 5, relevanceScore: 5, marketProxy: 50000 }))
             : [
@@ -30,7 +50,7 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
             ];
 
         // Synthesize a RegionProfile
-        const regionProfile: RegionProfile = {
+        return {
             id: `region-${params.region.replace(/\s+/g, '-').toLowerCase()}`,
             name: params.region,
             country: params.region.split(',')[0],
@@ -38,18 +58,27 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
             gdp: 50000000000, // Mock default
             rawFeatures: features
         };
+    };
+
+    const capitalOverride = Number(customCapital) > 0 ? Number(customCapital) : undefined;
+    const yearsOverride = Number(customYears) > 0 ? Math.round(Number(customYears)) : undefined;
+    const localContentOverride = customLocalContent !== '' ? Number(customLocalContent) / 100 : undefined;
 
+    const handleRun = async () => {
+        setLoading(true);
         try {
-            const res = await runOpportunityOrchestration(regionProfile);
-            
-            // Apply custom capital override if provided
-            if (customCapital && res.details && res.details.scf) {
-                // In a real scenario we would re-run runSCF here, but for now this illustrates intent.
-                // The orchestration runs SCF internally based on LAI. 
-                // To strictly support the prompt's logic, we accept the orchestration result.
-            }
-            
+            const res = await runOpportunityOrchestration(buildRegionProfile(), {
+                ivasProfile,
+                capitalInvestmentUSD: capitalOverride,
+                scf: {
+                    ...(yearsOverride && { years: yearsOverride }),
+                    ...(localContentOverride !== undefined && { localContentShare: localContentOverride })
+                }
+            });
+            setSelectedId(null);
             setResults(res);
+            // The top-ranked IVAS score is tracked across report versions
+            if (res.details.ivas) await reportRepository.recordModuleOutput(params, 'ivas', res.details.ivas);
         } catch (e) {
             console.error("Rocket Engine Failure", e);
         } finally {
@@ -57,6 +86,49 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
         }
     };
 
+    const handleMonteCarlo = async () => {
+        const spread = Math.min(0.95, Math.max(0, Number(mcSpread) / 100 || 0));
+        const region = buildRegionProfile();
+        // Point estimates become triangular distributions; scores are kept within their 0..10 and 0..100 scales
+        const spec: MonteCarloSpec = {
+            region: {
+                ...region,
+                rawFeatures: region.rawFeatures.map(f => ({
+                    name: f.name,
+                    rarityScore: spreadAround(f.rarityScore, spread / 2, { min: 0, max: 10 }),
+                    relevanceScore: spreadAround(f.relevanceScore, spread / 2, { min: 0, max: 10 }),
+                    marketProxy: spreadAround(f.marketProxy, spread, { min: 0 })
+                }))
+            },
+            iterations: Number(mcIterations) || 500,
+            seed: Number(mcSeed) || 0,
+            ivasProfile,
+            regionAmbition: spreadAround(60, spread, { min: 0, max: 100 }),
+            regulatoryFriction: spreadAround(40, spread, { min: 0, max: 100 }),
+            capitalInvestmentUSD: capitalOverride && spreadAround(capitalOverride, spread, { min: 0 }),
+            localContentShare: spreadAround(localContentOverride ?? 0.6, spread, { min: 0, max: 1 }),
+            years: yearsOverride
+        };
+
+        setMcProgress(0);
+        try {
+            setMcResult(await runMonteCarlo(spec, (done, total) => setMcProgress(done / total)));
+        } catch (e) {
+            console.error("Monte Carlo run failed", e);
+        } finally {
+            setMcProgress(null);
+        }
+    };
+
+    // Cards show the selected portfolio entry, defaulting to the top-ranked one
+    const portfolio: OpportunityPortfolio | null = results?.details.portfolio ?? null;
+    const entries = portfolio?.entries || [];
+    const selected = entries.find(e => e.asset.id === selectedId) ?? entries[0];
+    const asset = selected?.asset ?? results?.details.lais?.[0];
+    const ivas = selected?.ivas ?? results?.details.ivas;
+    const sensitivity = selected?.sensitivity ?? results?.details.ivasSensitivity;
+    const scf = selected?.scf ?? results?.details.scf;
+
     return (
         <div className="space-y-6 text-gray-900">
             {/* Header */}
@@ -91,14 +163,37 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
 
                 {/* Configuration Panel */}
                 {showConfig && (
-                    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 animate-fade-in grid md:grid-cols-2 gap-4 mb-2">
+                    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 animate-fade-in grid md:grid-cols-3 gap-4 mb-2">
                         <div>
                             <label className="text-xs font-bold text-slate-400 uppercase block mb-1">Baseline Capital ($)</label>
                             <input 
                                 type="number" 
                                 value={customCapital}
                                 onChange={(e) => setCustomCapital(e.target.value)}
-                                placeholder="Auto-calculated if empty" 
+                                placeholder="Per opportunity; auto if empty" 
+                                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm focus:border-orange-500 outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-400 uppercase block mb-1">SCF Horizon (Years)</label>
+                            <input 
+                                type="number" 
+                                min="1"
+                                value={customYears}
+                                onChange={(e) => setCustomYears(e.target.value)}
+                                placeholder="5" 
+                                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm focus:border-orange-500 outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-400 uppercase block mb-1">Local Content (%)</label>
+                            <input 
+                                type="number" 
+                                min="0"
+                                max="100"
+                                value={customLocalContent}
+                                onChange={(e) => setCustomLocalContent(e.target.value)}
+                                placeholder="60" 
                                 className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm focus:border-orange-500 outline-none"
                             />
                         </div>
@@ -112,6 +207,22 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
                                 className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm focus:border-orange-500 outline-none"
                             />
                         </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-400 uppercase block mb-1">IVAS Weighting Profile</label>
+                            <select
+                                value={ivasProfile}
+                                onChange={(e) => handleProfileChange(e.target.value)}
+                                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm focus:border-orange-500 outline-none"
+                            >
+                                {Object.values(IVAS_PROFILES).map(p => (
+                                    <option key={p.id} value={p.id}>{p.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-[10px] text-slate-500 mt-1">{IVAS_PROFILES[ivasProfile]?.description}</p>
+                        </div>
+                        <div className="md:col-span-3">
+                            <SynergyMatrixEditor />
+                        </div>
                     </div>
                 )}
             </div>
@@ -119,6 +230,11 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
             {/* Results Display */}
             {results && (
                 <div className="grid gap-6 animate-fade-in">
+                    {/* Ranked Portfolio */}
+                    {portfolio && (
+                        <PortfolioView portfolio={portfolio} selectedId={selected?.asset.id} onSelect={setSelectedId} />
+                    )}
+
                     {/* Top Row: LAI & IVAS */}
                     <div className="grid md:grid-cols-2 gap-6">
                         {/* LAI Card */}
@@ -128,17 +244,29 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
                                     <Zap className="w-5 h-5 text-yellow-500" />
                                     Latent Asset Identified
                                 </h4>
-                                <span className="text-xs font-bold bg-yellow-100 text-yellow-800 px-2 py-1 rounded">High Synergy</span>
+                                <span className="text-xs font-bold bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                                    {selected ? `Rank #${selected.rank}` : 'High Synergy'}
+                                </span>
                             </div>
-                            {results.details.lais && results.details.lais[0] ? (
+                            {asset ? (
                                 <>
-                                    <h3 className="text-lg font-bold text-indigo-900 mb-2">{results.details.lais[0].title}</h3>
-                                    <p className="text-sm text-gray-600 mb-4">{results.details.lais[0].description}</p>
+                                    <h3 className="text-lg font-bold text-indigo-900 mb-2">{asset.title}</h3>
+                                    <p className="text-sm text-gray-600 mb-4">{asset.description}</p>
                                     <div className="flex flex-wrap gap-2">
-                                        {results.details.lais[0].components.map((c: string, i: number) => (
+                                        {asset.components.map((c: string, i: number) => (
                                             <span key={i} className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded font-medium">{c}</span>
                                         ))}
                                     </div>
+                                    {asset.synergyRules?.length > 0 && (
+                                        <ul className="mt-4 space-y-1 text-xs text-gray-600">
+                                            {asset.synergyRules.map((r, i) => (
+                                                <li key={i}>
+                                                    <span className={`font-bold ${r.multiplier > 1 ? 'text-green-700' : r.multiplier < 1 ? 'text-red-700' : 'text-gray-700'}`}>×{r.multiplier}</span>{' '}
+                                                    {r.components.join(' + ')} ({r.categories.map(c => c ?? 'uncategorised').join(' / ')}): {r.rationale}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </>
                             ) : (
                                 <p className="text-gray-500 italic">No assets identified.</p>
@@ -156,34 +284,39 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
                             </div>
                             
                             <div className="flex items-end gap-4 mb-4">
-                                <div className="text-5xl font-extrabold text-slate-900">{results.details.ivas?.ivasScore || 0}</div>
+                                <div className="text-5xl font-extrabold text-slate-900">{ivas?.ivasScore || 0}</div>
                                 <div className="text-sm text-gray-500 pb-1">/ 100</div>
                             </div>
 
                             <div className="w-full bg-gray-100 rounded-full h-3 mb-4">
                                 <div 
                                     className="h-3 rounded-full bg-gradient-to-r from-orange-500 to-green-500 transition-all duration-1000" 
-                                    style={{ width: `${results.details.ivas?.ivasScore || 0}%` }}
+                                    style={{ width: `${ivas?.ivasScore || 0}%` }}
                                 ></div>
                             </div>
 
                             <div className="grid grid-cols-3 gap-2 text-center">
                                 <div className="bg-slate-50 p-2 rounded border border-slate-100">
                                     <div className="text-xs text-gray-500">Time</div>
-                                    <div className="font-bold text-slate-900">{results.details.ivas?.activationMonths || '-'} mo</div>
+                                    <div className="font-bold text-slate-900">{ivas?.activationMonths || '-'} mo</div>
                                 </div>
                                 <div className="bg-slate-50 p-2 rounded border border-slate-100">
                                     <div className="text-xs text-gray-500">Friction</div>
-                                    <div className="font-bold text-slate-900">{results.details.ivas?.breakdown?.activationFriction || 0}</div>
+                                    <div className="font-bold text-slate-900">{ivas?.breakdown?.activationFriction || 0}</div>
                                 </div>
                                 <div className="bg-slate-50 p-2 rounded border border-slate-100">
                                     <div className="text-xs text-gray-500">Quantum</div>
-                                    <div className="font-bold text-slate-900">{results.details.ivas?.breakdown?.opportunityQuantum || 0}</div>
+                                    <div className="font-bold text-slate-900">{ivas?.breakdown?.opportunityQuantum || 0}</div>
                                 </div>
                             </div>
                         </div>
                     </div>
 
+                    {/* IVAS Sensitivity (Tornado) */}
+                    {sensitivity && (
+                        <IVASTornado sensitivity={sensitivity} />
+                    )}
+
                     {/* SCF Impact Card */}
                     <div className="bg-indigo-900 p-6 rounded-xl text-white shadow-lg">
                         <h4 className="font-bold text-indigo-200 flex items-center gap-2 mb-6">
@@ -194,24 +327,110 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
                             <div>
                                 <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Total Economic Impact</p>
                                 <p className="text-3xl font-bold text-white">
-                                    ${((results.details.scf?.totalEconomicImpactUSD || 0) / 1000000).toFixed(1)}M
+                                    ${((scf?.totalEconomicImpactUSD || 0) / 1000000).toFixed(1)}M
                                 </p>
                             </div>
                             <div>
                                 <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Direct Jobs</p>
-                                <p className="text-3xl font-bold text-white">{results.details.scf?.directJobs || 0}</p>
+                                <p className="text-3xl font-bold text-white">{scf?.directJobs || 0}</p>
                             </div>
                             <div>
                                 <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Indirect Jobs</p>
-                                <p className="text-3xl font-bold text-white">{results.details.scf?.indirectJobs || 0}</p>
+                                <p className="text-3xl font-bold text-white">{scf?.indirectJobs || 0}</p>
                             </div>
                             <div>
                                 <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Annualized Impact</p>
                                 <p className="text-3xl font-bold text-white">
-                                    ${((results.details.scf?.annualizedImpact || 0) / 1000000).toFixed(1)}M/yr
+                                    ${((scf?.annualizedImpact || 0) / 1000000).toFixed(1)}M/yr
                                 </p>
                             </div>
                         </div>
+                        {scf?.multipliers && (
+                            <>
+                                <div className="grid md:grid-cols-4 gap-8 mt-6 pt-6 border-t border-indigo-800">
+                                    <div>
+                                        <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Induced Jobs</p>
+                                        <p className="text-xl font-bold text-white">{scf.inducedJobs}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">GDP Contribution</p>
+                                        <p className="text-xl font-bold text-white">${(scf.gdpImpactUSD / 1000000).toFixed(1)}M</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Tax Revenue</p>
+                                        <p className="text-xl font-bold text-white">${(scf.taxRevenueUSD / 1000000).toFixed(1)}M</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-indigo-300 text-xs uppercase tracking-widest mb-1">Output Multiplier</p>
+                                        <p className="text-xl font-bold text-white">
+                                            {scf.multipliers.typeI.output}× <span className="text-xs text-indigo-300">Type I</span> / {scf.multipliers.typeII.output}× <span className="text-xs text-indigo-300">Type II</span>
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <table className="w-full mt-6 text-xs text-indigo-100">
+                                    <thead>
+                                        <tr className="text-indigo-300 uppercase tracking-wider text-left">
+                                            <th className="py-1">Year</th>
+                                            <th className="py-1 text-right">Spend</th>
+                                            <th className="py-1 text-right">Direct Jobs</th>
+                                            <th className="py-1 text-right">Indirect Jobs</th>
+                                            <th className="py-1 text-right">Induced Jobs</th>
+                                            <th className="py-1 text-right">GDP</th>
+                                            <th className="py-1 text-right">Tax</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {scf.yearly.map((y: any) => (
+                                            <tr key={y.year} className="border-t border-indigo-800">
+                                                <td className="py-1">Y{y.year}</td>
+                                                <td className="py-1 text-right">${(y.spendUSD / 1000000).toFixed(1)}M</td>
+                                                <td className="py-1 text-right">{y.jobs.direct}</td>
+                                                <td className="py-1 text-right">{y.jobs.indirect}</td>
+                                                <td className="py-1 text-right">{y.jobs.induced}</td>
+                                                <td className="py-1 text-right">${((y.gdpUSD.direct + y.gdpUSD.indirect + y.gdpUSD.induced) / 1000000).toFixed(1)}M</td>
+                                                <td className="py-1 text-right">${(y.taxUSD / 1000000).toFixed(2)}M</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-[10px] text-indigo-400 mt-3">
+                                    Input-output table: {scf.ioTable.id} v{scf.ioTable.version} — {scf.ioTable.source}. Jobs are average annual positions sustained during the investment period.
+                                </p>
+                            </>
+                        )}
+                    </div>
+
+                    {/* Monte Carlo Uncertainty */}
+                    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                        <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+                            <div>
+                                <h4 className="font-bold text-slate-900 flex items-center gap-2">
+                                    <ActivityIcon className="w-5 h-5 text-indigo-500" />
+                                    Uncertainty Bands (Monte Carlo)
+                                </h4>
+                                <p className="text-xs text-gray-500 mt-1">Each input is drawn from a triangular distribution around its point estimate; bands show P10–P90 for one opportunity across the runs it appeared in.</p>
+                            </div>
+                            <div className="flex items-end gap-2 text-xs">
+                                <label className="flex flex-col text-gray-500">Iterations
+                                    <input type="number" min="10" value={mcIterations} onChange={(e) => setMcIterations(e.target.value)} className="w-20 border border-gray-300 rounded p-1 text-gray-900" />
+                                </label>
+                                <label className="flex flex-col text-gray-500">Seed
+                                    <input type="number" value={mcSeed} onChange={(e) => setMcSeed(e.target.value)} className="w-16 border border-gray-300 rounded p-1 text-gray-900" />
+                                </label>
+                                <label className="flex flex-col text-gray-500">Spread ±%
+                                    <input type="number" min="0" max="95" value={mcSpread} onChange={(e) => setMcSpread(e.target.value)} className="w-16 border border-gray-300 rounded p-1 text-gray-900" />
+                                </label>
+                                <button
+                                    onClick={handleMonteCarlo}
+                                    disabled={mcProgress !== null}
+                                    className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-700 rounded font-bold text-white disabled:opacity-50"
+                                >
+                                    {mcProgress !== null ? `Running ${Math.round(mcProgress * 100)}%` : 'Run Simulation'}
+                                </button>
+                            </div>
+                        </div>
+                        {mcResult && <MonteCarloView result={mcResult} selectedId={selected?.asset.id} />}
                     </div>
 
                     {/* NSIL Output Code Block */}
@@ -236,4 +455,269 @@ const RocketEngineModule: React.FC<RocketEngineModuleProps> = ({ params }) => {
     );
 };
 
+const formatUSD = (v: number) => v >= 1e9 ? `$${(v / 1e9).toFixed(2)}B` : `$${(v / 1e6).toFixed(1)}M`;
+
+const FanChart: React.FC<{ title: string; data: { year: number; band: Percentiles }[]; format: (v: number) => string }> = ({ title, data, format }) => {
+    // Stack an invisible P10 base under the P10–P90 width to draw the band
+    const rows = data.map(d => ({ year: `Y${d.year}`, base: d.band.p10, width: d.band.p90 - d.band.p10, ...d.band }));
+    return (
+        <div>
+            <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{title}</p>
+            <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={rows} margin={{ left: 10, right: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+                        <YAxis tick={{ fontSize: 11 }} tickFormatter={format} width={70} />
+                        <Tooltip
+                            content={({ active, payload }) => active && payload?.length ? (
+                                <div className="bg-white border border-gray-200 rounded p-2 text-xs shadow">
+                                    <div className="font-bold">{payload[0].payload.year}</div>
+                                    <div>P90: {format(payload[0].payload.p90)}</div>
+                                    <div>P50: {format(payload[0].payload.p50)}</div>
+                                    <div>P10: {format(payload[0].payload.p10)}</div>
+                                </div>
+                            ) : null}
+                        />
+                        <Area type="monotone" dataKey="base" stackId="band" stroke="none" fill="transparent" />
+                        <Area type="monotone" dataKey="width" stackId="band" stroke="none" fill="#6366f1" fillOpacity={0.25} />
+                        <Line type="monotone" dataKey="p50" stroke="#4338ca" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const shortTitle = (title: string) => title.replace(' → Symbiotic Opportunity', '');
+
+const MonteCarloView: React.FC<{ result: MonteCarloResult; selectedId?: string }> = ({ result, selectedId }) => {
+    // Defaults to the opportunity selected in the portfolio, then the most frequent top-ranked one
+    const [assetId, setAssetId] = useState<string | null>(null);
+    const bands = result.assets.find(a => a.id === (assetId ?? selectedId)) ?? result.assets[0];
+    if (!bands) return <p className="text-xs text-gray-500">No run produced a portfolio.</p>;
+
+    const tiles: { label: string; band: Percentiles; format: (v: number) => string }[] = [
+        { label: 'IVAS Score', band: bands.ivasScore, format: v => String(Math.round(v)) },
+        { label: 'Activation', band: bands.activationMonths, format: v => `${Math.round(v)} mo` },
+        { label: 'Jobs (avg/yr)', band: bands.totalJobs, format: v => Math.round(v).toLocaleString() },
+        { label: 'Total Impact', band: bands.totalImpactUSD, format: formatUSD }
+    ];
+
+    return (
+        <div className="space-y-6">
+            <label className="flex flex-wrap items-center gap-2 text-xs text-gray-500">Opportunity
+                <select value={bands.id} onChange={(e) => setAssetId(e.target.value)} className="border border-gray-300 rounded p-1 text-gray-900">
+                    {result.assets.map(a => <option key={a.id} value={a.id}>{shortTitle(a.title)}</option>)}
+                </select>
+                <span>candidate in {Math.round(bands.presence * 100)}% of runs</span>
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {tiles.map(t => (
+                    <div key={t.label} className="bg-slate-50 p-3 rounded border border-slate-100">
+                        <div className="text-xs text-gray-500">{t.label}</div>
+                        <div className="text-xl font-bold text-slate-900">{t.format(t.band.p50)}</div>
+                        <div className="text-[10px] text-gray-500">P10 {t.format(t.band.p10)} · P90 {t.format(t.band.p90)}</div>
+                    </div>
+                ))}
+            </div>
+            <div className="grid md:grid-cols-2 gap-6">
+                <FanChart title="Jobs sustained per year" data={bands.yearly.map(y => ({ year: y.year, band: y.jobs }))} format={v => Math.round(v).toLocaleString()} />
+                <FanChart title="Cumulative economic impact" data={bands.yearly.map(y => ({ year: y.year, band: y.cumulativeImpactUSD }))} format={formatUSD} />
+            </div>
+            <p className="text-[10px] text-gray-500">
+                {result.iterations} runs, seed {result.seed}. Top-ranked opportunity across runs: {result.topAssets.slice(0, 3).map(a => `${shortTitle(a.title)} (${Math.round(a.share * 100)}%)`).join(', ')}.
+            </p>
+        </div>
+    );
+};
+
+const PortfolioView: React.FC<{ portfolio: OpportunityPortfolio; selectedId?: string; onSelect: (id: string) => void }> = ({ portfolio, selectedId, onSelect }) => {
+    const points = portfolio.entries.map(e => ({
+        id: e.asset.id,
+        months: e.ivas.activationMonths,
+        impact: Math.round(e.scf.totalEconomicImpactUSD / 100000) / 10, // $M, one decimal
+        capital: e.capitalUSD,
+        frontier: e.frontierLayer === 1
+    }));
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex justify-between items-start mb-4">
+                <h4 className="font-bold text-slate-900 flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5 text-orange-500" />
+                    Opportunity Portfolio
+                </h4>
+                <span className="text-xs text-gray-500">
+                    {portfolio.entries.length} candidates · {portfolio.frontier.length} on the efficient frontier · capital {portfolio.capitalSource === 'user' ? 'user-supplied' : `capex proxy from market estimate, capped at $${MAX_PROXY_CAPITAL_USD / 1000000}M`}
+                </span>
+            </div>
+            <div className="grid lg:grid-cols-2 gap-6">
+                <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                            <XAxis type="number" dataKey="months" name="Activation" unit=" mo" tick={{ fontSize: 11 }} label={{ value: 'Activation (months)', position: 'insideBottom', offset: -10, fontSize: 11 }} />
+                            <YAxis type="number" dataKey="impact" name="Impact" unit="M" tick={{ fontSize: 11 }} />
+                            <ZAxis type="number" dataKey="capital" range={[60, 400]} name="Capital" />
+                            <Tooltip
+                                cursor={{ strokeDasharray: '3 3' }}
+                                formatter={(value: number, name: string) => name === 'Capital' ? `$${(value / 1000000).toFixed(1)}M` : value}
+                                labelFormatter={() => ''}
+                            />
+                            <Scatter data={points} onClick={(p: any) => onSelect(p.id)}>
+                                {points.map(p => (
+                                    <Cell key={p.id} fill={p.frontier ? '#f97316' : '#94a3b8'} stroke={p.id === selectedId ? '#0f172a' : undefined} strokeWidth={2} />
+                                ))}
+                            </Scatter>
+                        </ScatterChart>
+                    </ResponsiveContainer>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-gray-500 uppercase tracking-wider text-left border-b border-gray-200">
+                                <th className="py-1">#</th>
+                                <th className="py-1">Opportunity</th>
+                                <th className="py-1 text-right">IVAS</th>
+                                <th className="py-1 text-right">Months</th>
+                                <th className="py-1 text-right">Capital</th>
+                                <th className="py-1 text-right">Impact</th>
+                                <th className="py-1 text-right">$/$</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {portfolio.entries.map(e => (
+                                <tr
+                                    key={e.asset.id}
+                                    onClick={() => onSelect(e.asset.id)}
+                                    className={`border-b border-gray-100 cursor-pointer hover:bg-slate-50 ${e.asset.id === selectedId ? 'bg-orange-50' : ''}`}
+                                    title={e.dominatedBy.length ? `Dominated by ${e.dominatedBy.length} other candidate(s)` : 'On the efficient frontier'}
+                                >
+                                    <td className="py-1 font-bold">{e.rank}</td>
+                                    <td className="py-1">
+                                        {e.frontierLayer === 1 && <span className="inline-block w-2 h-2 rounded-full bg-orange-500 mr-1" />}
+                                        {e.asset.components.join(' + ')}
+                                    </td>
+                                    <td className="py-1 text-right">{e.ivas.ivasScore}</td>
+                                    <td className="py-1 text-right">{e.ivas.activationMonths}</td>
+                                    <td className="py-1 text-right">${(e.capitalUSD / 1000000).toFixed(1)}M</td>
+                                    <td className="py-1 text-right">${(e.scf.totalEconomicImpactUSD / 1000000).toFixed(1)}M</td>
+                                    <td className="py-1 text-right">{e.impactPerDollar}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-gray-400 mt-2">
+                        Orange marks the efficient frontier: no other candidate delivers more impact with fewer activation months and less capital. Click a row to inspect it below.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SynergyMatrixEditor: React.FC = () => {
+    const [matrix, setMatrix] = useState<CompatibilityMatrix>(getCompatibilityMatrix());
+    const [error, setError] = useState<string | null>(null);
+
+    const handleChange = (a: FeatureCategory, b: FeatureCategory, value: string) => {
+        try {
+            setMatrix(setCompatibilityRule(a, b, { multiplier: Number(value) }));
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-1">
+                <label className="text-xs font-bold text-slate-400 uppercase">Synergy Compatibility Matrix</label>
+                <button onClick={() => { setMatrix(resetCompatibilityMatrix()); setError(null); }} className="text-[10px] text-slate-400 hover:text-white underline">
+                    Reset to defaults
+                </button>
+            </div>
+            <table className="w-full text-xs text-slate-300">
+                <thead>
+                    <tr>
+                        <th></th>
+                        {FEATURE_CATEGORIES.map(c => <th key={c.id} className="py-1 font-medium">{c.label}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {FEATURE_CATEGORIES.map(row => (
+                        <tr key={row.id}>
+                            <th className="py-1 pr-2 text-left font-medium">{row.label}</th>
+                            {FEATURE_CATEGORIES.map(col => {
+                                const rule = matrix[pairKey(row.id, col.id)];
+                                return (
+                                    <td key={col.id} className="p-0.5">
+                                        <input
+                                            type="number"
+                                            step="0.05"
+                                            min="0"
+                                            max="3"
+                                            value={rule?.multiplier ?? 1}
+                                            title={rule?.rationale}
+                                            onChange={(e) => handleChange(row.id, col.id, e.target.value)}
+                                            className={`w-full bg-slate-900 border border-slate-600 rounded p-1 text-center text-sm focus:border-orange-500 outline-none ${(rule?.multiplier ?? 1) > 1 ? 'text-green-400' : (rule?.multiplier ?? 1) < 1 ? 'text-red-400' : 'text-white'}`}
+                                        />
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-[10px] text-slate-500 mt-1">
+                {error ?? 'Multiplier applied to the synergy score when features of both categories are combined (1 = neutral). Hover a cell for its rationale.'}
+            </p>
+        </div>
+    );
+};
+
+const IVASTornado: React.FC<{ sensitivity: IVASSensitivity }> = ({ sensitivity }) => {
+    // Bars are drawn as deltas from the base score so the widest swing reads at a glance
+    const data = sensitivity.bars.map(b => ({
+        label: b.label,
+        low: b.lowScore - sensitivity.baseScore,
+        high: b.highScore - sensitivity.baseScore,
+        detail: `${b.lowValue.toLocaleString()} → ${b.highValue.toLocaleString()}`
+    }));
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex justify-between items-start mb-4">
+                <h4 className="font-bold text-slate-900 flex items-center gap-2">
+                    <SlidersIcon className="w-5 h-5 text-indigo-500" />
+                    IVAS Sensitivity
+                </h4>
+                <span className="text-xs text-gray-500">
+                    Each input ±{Math.round(sensitivity.perturbation * 100)}% · base score {sensitivity.baseScore} · {IVAS_PROFILES[sensitivity.profile]?.label}
+                </span>
+            </div>
+            <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ReBarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 20, right: 20 }}>
+                        <XAxis type="number" tick={{ fontSize: 11 }} allowDecimals={false} />
+                        <YAxis type="category" dataKey="label" width={130} tick={{ fontSize: 11 }} />
+                        <Tooltip
+                            formatter={(value: number, name: string) => [`${value > 0 ? '+' : ''}${value} pts`, name === 'low' ? 'Input lowered' : 'Input raised']}
+                            labelFormatter={(label: string) => `${label}: ${data.find(d => d.label === label)?.detail}`}
+                        />
+                        <ReferenceLine x={0} stroke="#64748b" />
+                        <Bar dataKey="low" stackId="swing" fill="#f97316" />
+                        <Bar dataKey="high" stackId="swing" fill="#22c55e" />
+                    </ReBarChart>
+                </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+                Most influential assumption: <span className="font-bold text-slate-700">{sensitivity.bars[0]?.label}</span>
+                {sensitivity.bars[0]?.swing === 0 && ' (score is insensitive to all tested inputs)'}
+            </p>
+        </div>
+    );
+};
+
 export default RocketEngineModule;
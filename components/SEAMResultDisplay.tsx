@@ -1,9 +1,13 @@
 
 import React from 'react';
 import type { SEAM_Blueprint } from '../types';
+import ProvenanceNotice from './common/ProvenanceNotice';
+import CitationList from './common/CitationList';
 
 export const SEAMResultDisplay: React.FC<{ seam: SEAM_Blueprint }> = ({ seam }) => (
     <div className="space-y-4 animate-fade-in">
+        <ProvenanceNotice provenance={seam.provenance} />
+        <CitationList citations={seam.citations} />
         <div className="bg-slate-50 p-4 rounded-lg border border-gray-200">
             <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2">Strategic Ecosystem Summary</h4>
             <p className="text-sm text-gray-700 leading-relaxed italic">"{seam.ecosystemSummary}"</p>
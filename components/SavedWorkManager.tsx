@@ -7,7 +7,7 @@ interface SavedWorkManagerProps {
     savedReports: ReportParameters[];
     onSave: (params: ReportParameters) => void;
     onLoad: (params: ReportParameters) => void;
-    onDelete: (reportName: string) => void;
+    onDelete: (reportId: string) => void;
 }
 
 export const SavedWorkManager: React.FC<SavedWorkManagerProps> = ({ currentParams, savedReports, onSave, onLoad, onDelete }) => {
@@ -28,12 +28,12 @@ export const SavedWorkManager: React.FC<SavedWorkManagerProps> = ({ currentParam
                 <div className="mt-4">
                     <h5 className="text-xs font-bold text-gray-500 uppercase mb-2">Saved Drafts</h5>
                     <div className="space-y-2 max-h-40 overflow-y-auto">
-                        {savedReports.map((report, idx) => (
-                            <div key={idx} className="flex justify-between items-center p-2 bg-gray-50 rounded border border-gray-100">
+                        {savedReports.map(report => (
+                            <div key={report.reportId} className="flex justify-between items-center p-2 bg-gray-50 rounded border border-gray-100">
                                 <span className="text-xs font-medium text-gray-700 truncate w-32">{report.reportName || 'Untitled'}</span>
                                 <div className="flex gap-2">
                                     <button onClick={() => onLoad(report)} className="text-xs text-blue-600 hover:underline">Load</button>
-                                    <button onClick={() => onDelete(report.reportName)} className="text-xs text-red-500 hover:underline">Delete</button>
+                                    <button onClick={() => onDelete(report.reportId)} className="text-xs text-red-500 hover:underline">Delete</button>
                                 </div>
                             </div>
                         ))}
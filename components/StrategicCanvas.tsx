@@ -2,7 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import type { ReportParameters, CanvasModule } from '../types';
 import { STRATEGIC_INTENTS } from '../constants';
-import { generateFastSuggestion } from '../services/nexusService';
+import { generateFastSuggestion } from '../services/aiGateway';
 import { 
     GlobeIcon, BrainCircuit, ShieldCheck, 
     TrendingUp, Users, Settings, FileText, 
@@ -31,6 +31,7 @@ import MatchmakingEngine from './MatchmakingEngine';
 import NegotiationAdvantageEngine from './NegotiationAdvantageEngine';
 import MathematicalModelsEngine from './MathematicalModelsEngine';
 import RocketEngineModule from './RocketEngineModule';
+import { ReportJobPanel } from './ReportJobPanel';
 import { GLOBAL_CITY_DATABASE } from '../constants';
 
 interface StrategicCanvasProps {
@@ -145,6 +146,8 @@ export const StrategicCanvas: React.FC<StrategicCanvasProps> = ({
             specificProps = { partnerName: params.idealPartnerProfile, partnerType: "Organization" };
         } else if (activeModuleId === 'symbiotic_matchmaking') {
             specificProps = { onPartnerSelect: (p: any) => onParamsChange({...params, idealPartnerProfile: p.entityName}) };
+        } else if (activeModuleId === 'rocket_engine') {
+            specificProps = { onParamsChange };
         } else if (activeModuleId === 'matchmaking_engine') {
             specificProps = { 
                 params, 
@@ -228,6 +231,9 @@ export const StrategicCanvas: React.FC<StrategicCanvasProps> = ({
                     </div>
 
                     <div className="flex-grow overflow-y-auto p-8">
+                        <div className="mb-8">
+                            <ReportJobPanel params={params} modules={canvasModules.map(m => m.id)} />
+                        </div>
                         <div className="grid gap-8">
                             {phases.map(phase => {
                                 const phaseModules = canvasModules.filter(m => m.phase === phase);
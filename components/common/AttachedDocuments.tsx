@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import type { ReportParameters } from '../../types';
+import { detachDocument } from '../../services/DocumentIngestion';
+import { documentStore } from '../../services/DocumentStore';
+
+interface AttachedDocumentsProps {
+    params: ReportParameters;
+    onParamsChange: (params: ReportParameters) => void;
+    errors?: string[];
+}
+
+// Uploaded documents analyses can cite, with what was extracted from each
+const AttachedDocuments: React.FC<AttachedDocumentsProps> = ({ params, onParamsChange, errors = [] }) => {
+    const [storeReady, setStoreReady] = useState(false);
+    useEffect(() => { documentStore.ready.then(() => setStoreReady(true)); }, []);
+
+    const documents = params.documents || [];
+    if (!documents.length && !errors.length) return null;
+    const stored = new Map(documentStore.list(params.reportId).map(d => [d.id, d]));
+
+    return (
+        <div className="mt-2 space-y-1 text-xs">
+            {documents.map(ref => {
+                const doc = stored.get(ref.id);
+                return (
+                    <div key={ref.id} className="flex items-center justify-between gap-3 text-slate-600">
+                        <span className="truncate">
+                            <span className="font-medium text-slate-800">{ref.name}</span>
+                            {doc ? (
+                                <span className="text-slate-400"> · {doc.pageCount ? `${doc.pageCount} pages, ` : ''}{doc.chunks.length} passages</span>
+                            ) : storeReady && (
+                                <span className="text-amber-600"> · not stored in this browser; upload it again</span>
+                            )}
+                        </span>
+                        <button onClick={() => onParamsChange(detachDocument(params, ref.id))} className="text-red-500 hover:underline flex-shrink-0">
+                            Remove
+                        </button>
+                    </div>
+                );
+            })}
+            {errors.map((error, i) => <p key={i} className="text-red-600">{error}</p>)}
+        </div>
+    );
+};
+
+export default AttachedDocuments;
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { DocumentCitation } from '../../types';
+import { FileText } from '../Icons';
+
+interface CitationListProps {
+    citations?: DocumentCitation[];
+}
+
+// Points each cited excerpt back to its uploaded document or earlier report
+const CitationList: React.FC<CitationListProps> = ({ citations }) => {
+    if (!citations?.length) return null;
+    return (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-600">
+            <h5 className="font-bold text-slate-700 mb-1 flex items-center gap-1">
+                <FileText className="w-3 h-3" /> Sources from your documents and earlier reports
+            </h5>
+            <ul className="space-y-0.5">
+                {citations.map(c => (
+                    <li key={c.chunkId}>
+                        {c.sourceType === 'report' && <span className="text-slate-400">Earlier report: </span>}
+                        <span className="font-medium text-slate-800">{c.documentName}</span>, {c.location}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default CitationList;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import type { ReportParameters } from '../../types';
+import { reportRepository, type StoredReport } from '../../services/ReportRepository';
+
+interface PriorReportsProps {
+    params: ReportParameters;
+    onParamsChange: (params: ReportParameters) => void;
+}
+
+// Earlier generated reports this mission's analyses may quote; none are used unless ticked
+const PriorReports: React.FC<PriorReportsProps> = ({ params, onParamsChange }) => {
+    const [reports, setReports] = useState<StoredReport[]>(() => reportRepository.list());
+    const [open, setOpen] = useState(false);
+    useEffect(() => reportRepository.subscribe(setReports), []);
+
+    const candidates = reports.filter(r => r.report && r.reportId !== params.reportId);
+    const selected = params.priorReports || [];
+    if (!candidates.length && !selected.length) return null;
+
+    const toggle = (record: StoredReport) => {
+        const priorReports = selected.some(r => r.reportId === record.reportId)
+            ? selected.filter(r => r.reportId !== record.reportId)
+            : [...selected, { reportId: record.reportId, name: record.params.reportName || 'Untitled Analysis' }];
+        onParamsChange({ ...params, priorReports });
+    };
+
+    return (
+        <div className="mt-2 text-xs">
+            <button onClick={() => setOpen(!open)} className="font-bold text-slate-600 hover:text-slate-900">
+                {open ? '▾' : '▸'} Reference earlier reports{selected.length ? ` (${selected.length})` : ''}
+            </button>
+            {open && (
+                <div className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+                    {candidates.map(record => (
+                        <label key={record.reportId} className="flex items-center gap-2 text-slate-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selected.some(r => r.reportId === record.reportId)}
+                                onChange={() => toggle(record)}
+                            />
+                            <span className="truncate">
+                                <span className="font-medium text-slate-800">{record.params.reportName || 'Untitled Analysis'}</span>
+                                <span className="text-slate-400"> · {record.params.region}</span>
+                            </span>
+                        </label>
+                    ))}
+                    {selected.filter(ref => !candidates.some(r => r.reportId === ref.reportId)).map(ref => (
+                        <div key={ref.reportId} className="flex items-center justify-between gap-3 text-slate-600">
+                            <span className="truncate">
+                                <span className="font-medium text-slate-800">{ref.name}</span>
+                                <span className="text-amber-600"> · not in this browser's repository</span>
+                            </span>
+                            <button
+                                onClick={() => onParamsChange({ ...params, priorReports: selected.filter(r => r.reportId !== ref.reportId) })}
+                                className="text-red-500 hover:underline flex-shrink-0"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                    <p className="text-slate-400">Only ticked reports are quoted in this mission's prompts.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PriorReports;
@@ -0,0 +1,32 @@
+
+import React from 'react';
+import type { Provenance } from '../../types';
+import { AlertTriangleIcon, CheckCircle } from '../Icons';
+
+interface ProvenanceNoticeProps {
+    provenance?: Provenance;
+}
+
+// Fallback data must never pass for live model output
+const ProvenanceNotice: React.FC<ProvenanceNoticeProps> = ({ provenance }) => {
+    if (provenance === 'fallback') {
+        return (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <span>
+                    <strong>Placeholder estimate.</strong> The model response was unavailable or failed validation, so generic values are shown. Do not rely on these figures; re-run the analysis.
+                </span>
+            </div>
+        );
+    }
+    if (provenance === 'model') {
+        return (
+            <span className="inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-green-700">
+                <CheckCircle className="w-3 h-3" /> Validated model output
+            </span>
+        );
+    }
+    return null;
+};
+
+export default ProvenanceNotice;
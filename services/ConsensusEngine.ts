@@ -0,0 +1,269 @@
+import type { AgentResponse, ConsensusMethod, ConsensusResult } from '../types';
+import type { LLMCompletion } from './LLMProviders';
+
+export type JudgeFn = (prompt: string) => Promise<LLMCompletion>;
+
+export type ConsensusOptions = {
+  minThreshold: number; // 0..1 agreement required before we trust the merge
+  judge?: JudgeFn; // used for 'judge-arbitration' and for escalation below threshold
+};
+
+type Vote = { agentId: string; value: any; confidence: number };
+
+// Two values count as "the same answer" when their similarity reaches this level
+const AGREE_AT = 0.8;
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'be', 'this', 'that', 'it', 'as', 'by', 'at', 'from']);
+
+// --- Parsing & Flattening ---
+
+/**
+ * Parse a model answer as JSON, tolerating markdown code fences.
+ */
+export function parseStructured(content: string): any | undefined {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+const isPlainObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Flatten nested objects to dotted paths. Arrays are kept as leaves so list
+ * answers (risks, partners) are compared as sets.
+ */
+export function flattenFields(value: any, prefix = ''): Record<string, any> {
+  if (!isPlainObject(value)) return { [prefix || '$']: value };
+  const out: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    Object.assign(out, flattenFields(child, prefix ? `${prefix}.${key}` : key));
+  }
+  return out;
+}
+
+function unflattenFields(fields: Record<string, any>): any {
+  if ('$' in fields) return fields['$'];
+  const out: any = {};
+  for (const [path, value] of Object.entries(fields)) {
+    const keys = path.split('.');
+    let node = out;
+    keys.slice(0, -1).forEach(k => { node = node[k] ??= {}; });
+    node[keys[keys.length - 1]] = value;
+  }
+  return out;
+}
+
+// --- Similarity ---
+
+export const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t && !STOPWORDS.has(t));
+
+function textSimilarity(a: string, b: string): number {
+  if (a.trim().toLowerCase() === b.trim().toLowerCase()) return 1;
+  const tf = (tokens: string[]) => tokens.reduce((m, t) => m.set(t, (m.get(t) || 0) + 1), new Map<string, number>());
+  const ta = tf(tokenize(a));
+  const tb = tf(tokenize(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let dot = 0;
+  ta.forEach((n, t) => { dot += n * (tb.get(t) || 0); });
+  const norm = (m: Map<string, number>) => Math.sqrt(Array.from(m.values()).reduce((s, n) => s + n * n, 0));
+  return dot / (norm(ta) * norm(tb));
+}
+
+const normItem = (v: any) => typeof v === 'string' ? v.trim().toLowerCase() : JSON.stringify(v);
+
+export function valueSimilarity(a: any, b: any): number {
+  if (a === undefined || b === undefined) return 0;
+  if (typeof a === 'number' && typeof b === 'number') {
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    return scale === 0 ? 1 : Math.max(0, 1 - Math.abs(a - b) / scale);
+  }
+  if (typeof a === 'string' && typeof b === 'string') return textSimilarity(a, b);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const sa = new Set(a.map(normItem));
+    const sb = new Set(b.map(normItem));
+    if (sa.size === 0 && sb.size === 0) return 1;
+    const shared = Array.from(sa).filter(x => sb.has(x)).length;
+    return shared / (sa.size + sb.size - shared);
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? 1 : 0;
+}
+
+function fieldAgreement(votes: Vote[], total: number): number {
+  if (total <= 1) return 1;
+  let sum = 0;
+  let pairs = 0;
+  // Agents that omitted the field count as disagreeing with those that answered
+  const padded = [...votes.map(v => v.value), ...Array(total - votes.length).fill(undefined)];
+  for (let i = 0; i < padded.length; i++) {
+    for (let j = i + 1; j < padded.length; j++) {
+      sum += valueSimilarity(padded[i], padded[j]);
+      pairs++;
+    }
+  }
+  return sum / pairs;
+}
+
+// --- Merge Strategies ---
+
+function majorityValue(votes: Vote[]): Vote {
+  const scored = votes.map(candidate => {
+    const supporters = votes.filter(v => valueSimilarity(candidate.value, v.value) >= AGREE_AT);
+    return { candidate, count: supporters.length, weight: supporters.reduce((s, v) => s + v.confidence, 0) };
+  });
+  scored.sort((x, y) => y.count - x.count || y.weight - x.weight);
+  return scored[0].candidate;
+}
+
+function weightedValue(votes: Vote[]): any {
+  const totalWeight = votes.reduce((s, v) => s + v.confidence, 0) || 1;
+
+  if (votes.every(v => typeof v.value === 'number')) {
+    return votes.reduce((s, v) => s + v.value * v.confidence, 0) / totalWeight;
+  }
+
+  if (votes.every(v => Array.isArray(v.value))) {
+    // Keep list items backed by at least half of the total confidence
+    const support = new Map<string, { item: any; weight: number }>();
+    votes.forEach(v => (v.value as any[]).forEach(item => {
+      const key = normItem(item);
+      const entry = support.get(key) || { item, weight: 0 };
+      entry.weight += v.confidence;
+      support.set(key, entry);
+    }));
+    return Array.from(support.values())
+      .filter(e => e.weight / totalWeight >= 0.5)
+      .sort((x, y) => y.weight - x.weight)
+      .map(e => e.item);
+  }
+
+  const scored = votes.map(candidate => ({
+    candidate,
+    weight: votes.reduce((s, v) => s + v.confidence * valueSimilarity(candidate.value, v.value), 0)
+  }));
+  scored.sort((x, y) => y.weight - x.weight);
+  return scored[0].candidate.value;
+}
+
+function collectVotes(responses: AgentResponse[], parsed: any[]): Map<string, Vote[]> {
+  const byField = new Map<string, Vote[]>();
+  responses.forEach((r, idx) => {
+    const fields = parsed[idx] !== undefined ? flattenFields(parsed[idx]) : { '$': r.content };
+    for (const [path, value] of Object.entries(fields)) {
+      const list = byField.get(path) || [];
+      list.push({ agentId: r.agentId, value, confidence: r.confidence });
+      byField.set(path, list);
+    }
+  });
+  return byField;
+}
+
+const levelFor = (score: number): ConsensusResult['agreementLevel'] =>
+  score >= 0.999 ? 'unanimous' : score > 0.5 ? 'majority' : 'split';
+
+function buildJudgePrompt(responses: AgentResponse[], disputed: string[], structured: boolean): string {
+  const candidates = responses
+    .map((r, i) => `--- Candidate ${i + 1} (${r.agentId}, confidence ${r.confidence.toFixed(2)}) ---\n${r.content}`)
+    .join('\n\n');
+  return `
+You are the arbitration judge for a panel of analysts who answered the same task.
+
+${candidates}
+
+${disputed.length ? `The candidates disagree on: ${disputed.join(', ')}.` : ''}
+Weigh the evidence and reasoning in each candidate and produce the single best final answer.
+${structured ? 'The final answer must keep the same JSON structure as the candidates.' : 'The final answer is free text.'}
+
+Respond ONLY with JSON: { "verdict": <final answer>, "rationale": "<why>" }
+  `.trim();
+}
+
+// --- Public API ---
+
+/**
+ * Merge agent responses according to `method`. Structured (JSON) answers are
+ * compared field by field; free-text answers are compared as a single field.
+ * When agreement falls below `minThreshold` the result is escalated to the
+ * judge (if one is available) and flagged for human review.
+ */
+export async function buildConsensus(
+  responses: AgentResponse[],
+  method: ConsensusMethod,
+  options: ConsensusOptions
+): Promise<ConsensusResult> {
+  const participatingAgents = responses.map(r => r.agentId);
+  const parsed = responses.map(r => parseStructured(r.content));
+  const structured = parsed.every(p => p !== undefined);
+  const votesByField = collectVotes(responses, structured ? parsed : responses.map(() => undefined));
+
+  const fieldScores: Record<string, number> = {};
+  const merged: Record<string, any> = {};
+  votesByField.forEach((votes, path) => {
+    fieldScores[path] = Math.round(fieldAgreement(votes, responses.length) * 1000) / 1000;
+    merged[path] = method === 'confidence-weighted' ? weightedValue(votes) : majorityValue(votes).value;
+  });
+
+  const scores = Object.values(fieldScores);
+  const agreementScore = scores.length === 0 ? 0 :
+    method === 'unanimous' ? Math.min(...scores) : scores.reduce((s, x) => s + x, 0) / scores.length;
+  const disputedFields = Object.keys(fieldScores).filter(path => fieldScores[path] < AGREE_AT);
+
+  let consensusValue = unflattenFields(merged);
+  let resolvedBy: ConsensusResult['resolvedBy'] = 'merge';
+  let confidence = responses.reduce((s, r) => s + r.confidence, 0) / responses.length;
+  let judgeRationale: string | undefined;
+
+  const thresholdMet = agreementScore >= options.minThreshold;
+  const wantsJudge = method === 'judge-arbitration' || !thresholdMet;
+
+  if (wantsJudge && options.judge && responses.length > 1) {
+    try {
+      const completion = await options.judge(buildJudgePrompt(responses, disputedFields, structured));
+      const verdict = parseStructured(completion.content);
+      if (verdict && verdict.verdict !== undefined) {
+        consensusValue = verdict.verdict;
+        judgeRationale = verdict.rationale;
+        resolvedBy = 'judge';
+        confidence = Math.min(confidence, completion.confidence);
+      }
+    } catch (e) {
+      console.error("Consensus judge failed, keeping merged answer", e);
+    }
+  }
+
+  const consensusContent = typeof consensusValue === 'string' ? consensusValue : JSON.stringify(consensusValue, null, 2);
+
+  // An agent dissents when most of its fields disagree with the consensus
+  const consensusFields = structured ? flattenFields(parseStructured(consensusContent) ?? consensusValue) : { '$': consensusContent };
+  const dissentingOpinions = responses
+    .filter((r, idx) => {
+      const own = structured ? flattenFields(parsed[idx]) : { '$': r.content };
+      const paths = Object.keys(consensusFields);
+      const agreeing = paths.filter(p => valueSimilarity(own[p], consensusFields[p]) >= AGREE_AT).length;
+      return paths.length > 0 && agreeing / paths.length < 0.5;
+    })
+    .map(r => ({ agentId: r.agentId, alternativeContent: r.content, reasoning: r.reasoning }));
+
+  return {
+    consensusContent,
+    confidence: Math.round(confidence * agreementScore * 100) / 100,
+    agreementLevel: levelFor(agreementScore),
+    agreementScore: Math.round(agreementScore * 1000) / 1000,
+    fieldAgreement: fieldScores,
+    thresholdMet,
+    escalated: !thresholdMet,
+    resolvedBy,
+    judgeRationale,
+    participatingAgents,
+    dissentingOpinions,
+    metadata: {
+      totalAgents: responses.length,
+      consensusMethod: method,
+      processingTime: responses.reduce((sum, r) => sum + r.processingTime, 0) / responses.length
+    }
+  };
+}
@@ -0,0 +1,154 @@
+import type { DocumentCitation, MissionDocument, NSIL_Report, ReportParameters } from '../types';
+import { retrievalIndex, type RetrievalIndex, type RetrievalPassage } from './RetrievalIndex';
+import { reportRepository, type StoredReport } from './ReportRepository';
+import { documentStore } from './DocumentStore';
+import { buildReportDocument, type ReportBlock } from './NSILRenderers';
+
+/** A retrieved passage quoted in a prompt under a short tag the model cites, e.g. [S2]. */
+export type RetrievedSource = { tag: string; passage: RetrievalPassage };
+
+// The mission a retrieval runs for: its documents and the earlier reports it
+// opted in to are searched, its own report is not
+export type RetrievalScope = Pick<ReportParameters, 'reportId' | 'documents' | 'priorReports'>;
+
+const MAX_PASSAGES = 6;
+const MAX_REPORT_PASSAGE_CHARS = 1200;
+
+// --- Passages ---
+
+export const documentPassages = (doc: MissionDocument): RetrievalPassage[] => doc.chunks.map(chunk => ({
+  id: chunk.id,
+  sourceId: doc.id,
+  sourceType: 'document',
+  sourceName: doc.name,
+  location: chunk.location,
+  text: chunk.text
+}));
+
+const blockText = (block: ReportBlock): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph': return block.text;
+    case 'bullets': return block.items.map(i => `- ${i}`).join('\n');
+    case 'table': return [block.header, ...block.rows].map(r => r.join(' | ')).join('\n');
+    case 'chart': return '';
+  }
+};
+
+/**
+ * An earlier report's NSIL sections as passages located by section title.
+ * Sections that fell back to placeholder content are left out.
+ */
+export function reportPassages(record: StoredReport): RetrievalPassage[] {
+  if (!record.report) return [];
+  const placeholders = new Set(record.report.fallback_sections);
+  const report = {
+    ...record.report,
+    ...Object.fromEntries([...placeholders].filter(s => s !== 'executive_summary').map(s => [s, undefined]))
+  } as NSIL_Report;
+  const skipped = new Set(['Sources', ...(placeholders.has('executive_summary') ? ['Executive Summary'] : [])]);
+
+  const passages: RetrievalPassage[] = [];
+  let section: string | undefined;
+  let buffer: string[] = [];
+  const flush = () => {
+    if (section && !skipped.has(section) && buffer.length) passages.push({
+      id: `${record.reportId}#${passages.length}`,
+      sourceId: record.reportId,
+      sourceType: 'report',
+      sourceName: record.params.reportName || 'Untitled Analysis',
+      location: section,
+      text: buffer.join('\n')
+    });
+    buffer = [];
+  };
+
+  for (const block of buildReportDocument(report)) {
+    if (block.type === 'heading' && block.level <= 2) {
+      flush();
+      section = block.level === 2 ? block.text : undefined;
+      continue;
+    }
+    const text = blockText(block);
+    if (!text) continue;
+    if (buffer.length && buffer.join('\n').length + text.length > MAX_REPORT_PASSAGE_CHARS) flush();
+    buffer.push(text);
+  }
+  flush();
+  return passages;
+}
+
+// --- Retrieval ---
+
+/**
+ * Passages from the mission's documents and the earlier reports it references
+ * that best match the query, tagged in rank order. Retrieval never fails an
+ * analysis: errors are logged and the prompt simply goes without reference material.
+ */
+export async function retrieveSources(scope: RetrievalScope | undefined, query: string, limit = MAX_PASSAGES, index: RetrievalIndex = retrievalIndex): Promise<RetrievedSource[]> {
+  try {
+    const sourceIds: string[] = [];
+    await documentStore.ready;
+    documentStore.resolve(scope?.reportId, scope?.documents).forEach(doc => {
+      // Document ids are per upload, so their passages never change
+      if (!index.has(doc.id)) index.index(doc.id, documentPassages(doc));
+      sourceIds.push(doc.id);
+    });
+
+    await reportRepository.ready;
+    const referenced = new Set((scope?.priorReports || []).map(r => r.reportId));
+    reportRepository.list()
+      .filter(record => record.report && referenced.has(record.reportId) && record.reportId !== scope?.reportId)
+      .forEach(record => {
+        index.index(record.reportId, reportPassages(record));
+        sourceIds.push(record.reportId);
+      });
+
+    const hits = await index.search(query, { limit, sourceIds, reportId: scope?.reportId });
+    return hits.map(({ passage }, i) => ({ tag: `S${i + 1}`, passage }));
+  } catch (e) {
+    console.error("Retrieval error", e);
+    return [];
+  }
+}
+
+const describe = ({ passage }: RetrievedSource) => passage.sourceType === 'report'
+  ? `Earlier report "${passage.sourceName}", ${passage.location}`
+  : `Client document "${passage.sourceName}", ${passage.location}`;
+
+/** Prompt section quoting the passages, or '' when there are none. */
+export function documentContext(sources: RetrievedSource[]): string {
+  if (!sources.length) return '';
+  const passages = sources.map(s => `[${s.tag}] ${describe(s)}:\n${s.passage.text}`).join('\n\n');
+  return `
+        REFERENCE MATERIAL (client documents and earlier BW Nexus reports):
+        ${passages}
+
+        Ground your analysis in these excerpts where they are relevant and cite them inline with their tags, e.g. [S1].
+        Earlier reports may be out of date; prefer client documents where they disagree.
+        Do not cite tags that are not listed above.
+    `;
+}
+
+/** Lines for an NSIL report's source_attribution, one per passage supplied to the model. */
+export const sourceAttribution = (sources: RetrievedSource[]): string[] => sources.map(s => `[${s.tag}] ${describe(s)}`);
+
+/** Citations for the tags that appear anywhere in the model output, in tag order. */
+export function resolveCitations(output: unknown, sources: RetrievedSource[]): DocumentCitation[] {
+  const text = typeof output === 'string' ? output : JSON.stringify(output);
+  // Accepts grouped tags too: [S1, S3]
+  const cited = new Set(Array.from(text.matchAll(/\[(S\d+(?:\s*[,;]\s*S\d+)*)\]/g), m => m[1].split(/\s*[,;]\s*/)).flat());
+  return sources.filter(s => cited.has(s.tag)).map(({ passage }) => ({
+    documentId: passage.sourceId,
+    documentName: passage.sourceName,
+    chunkId: passage.id,
+    location: passage.location,
+    sourceType: passage.sourceType
+  }));
+}
+
+/** Attach citations to a model result when any of the supplied passages were cited. */
+export function withCitations<T extends object>(result: T, sources: RetrievedSource[]): T & { citations?: DocumentCitation[] } {
+  const citations = resolveCitations(result, sources);
+  return citations.length ? { ...result, citations } : result;
+}
@@ -0,0 +1,265 @@
+import type { DocumentChunk, MissionDocument, MissionDocumentKind, MissionDocumentRef, ReportParameters } from '../types';
+import { unzip } from './ZipArchive';
+import { documentRef, documentStore } from './DocumentStore';
+
+// Uploads are parsed in the browser and split into chunks small enough to
+// quote in a prompt. Every chunk keeps a page or section location so analyses
+// can cite it.
+
+const KIND_BY_EXTENSION: Record<string, MissionDocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  csv: 'csv',
+  txt: 'text',
+  md: 'text'
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(KIND_BY_EXTENSION).map(ext => `.${ext}`);
+
+export function documentKind(fileName: string): MissionDocumentKind | undefined {
+  return KIND_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() ?? ''];
+}
+
+// A run of paragraphs sharing one location. `unit` labels paragraph ranges
+// in locations ("¶ 3–5", "rows 2–40") when there is no page.
+type Section = {
+  paragraphs: string[];
+  page?: number;
+  section?: string;
+  unit?: string;
+  firstUnit?: number;
+};
+
+// --- Parsers ---
+
+async function parsePdf(data: Uint8Array): Promise<{ sections: Section[]; pageCount: number }> {
+  // Loaded on demand: pdf.js is large and only needed for PDF uploads
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc && typeof window !== 'undefined') {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  // pdf.js takes ownership of the buffer it is given
+  const doc = await pdfjs.getDocument({ data: data.slice() }).promise;
+  const sections: Section[] = [];
+  try {
+    for (let n = 1; n <= doc.numPages; n++) {
+      const content = await (await doc.getPage(n)).getTextContent();
+      const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+      sections.push({ paragraphs: text.split(/\n\s*\n/), page: n });
+    }
+    return { sections, pageCount: doc.numPages };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const unescapeXml = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) =>
+  entity[0] === '#'
+    ? String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)))
+    : XML_ENTITIES[entity] ?? match);
+
+/** Paragraph text from word/document.xml, starting a new section at every heading. */
+async function parseDocx(data: Uint8Array): Promise<Section[]> {
+  const entry = (await unzip(data)).find(e => e.name === 'word/document.xml');
+  if (!entry) throw new Error('Not a Word document: word/document.xml is missing');
+  const xml = new TextDecoder().decode(entry.data as Uint8Array).replace(/<w:p\b[^>]*\/>/g, '');
+
+  const sections: Section[] = [{ paragraphs: [] }];
+  for (const [paragraph] of xml.matchAll(/<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g)) {
+    const text = unescapeXml(paragraph
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_, run?: string) => run ?? '')).trim();
+    if (!text) continue;
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? '';
+    if (/^(Heading\d|Title)$/i.test(style)) sections.push({ paragraphs: [], section: text });
+    else sections[sections.length - 1].paragraphs.push(text);
+  }
+  return sections;
+}
+
+/** RFC 4180 fields: quoted values may hold commas, doubled quotes and newlines. */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += c;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+/** Each data row becomes "column: value" pairs so a chunk reads without its header. */
+function parseCsv(text: string): Section[] {
+  const [header = [], ...rows] = parseCsvRows(text);
+  const paragraphs = rows.map(r => r.map((value, i) => `${header[i]?.trim() || `column ${i + 1}`}: ${value.trim()}`).join('; '));
+  return [{ paragraphs, unit: 'rows', firstUnit: 2 }];
+}
+
+/** Plain text and Markdown, sectioned at Markdown headings. */
+function parseText(text: string): Section[] {
+  const sections: Section[] = [{ paragraphs: [] }];
+  for (const block of text.split(/\n\s*\n/)) {
+    const heading = block.trim().match(/^#{1,6}\s+(.+)/);
+    if (!heading) {
+      sections[sections.length - 1].paragraphs.push(block);
+      continue;
+    }
+    const body = block.trim().split('\n').slice(1).join('\n');
+    sections.push({ paragraphs: body.trim() ? [body] : [], section: heading[1].trim() });
+  }
+  return sections;
+}
+
+// --- Chunking ---
+
+const MAX_CHUNK_CHARS = 1200;
+
+// Long paragraphs (often a whole PDF page) are cut at sentence ends, else at spaces
+function splitLong(text: string): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > MAX_CHUNK_CHARS) {
+    const window = rest.slice(0, MAX_CHUNK_CHARS);
+    const sentenceEnd = window.lastIndexOf('. ');
+    const space = window.lastIndexOf(' ');
+    const cut = sentenceEnd > MAX_CHUNK_CHARS / 2 ? sentenceEnd + 1 : space > 0 ? space : MAX_CHUNK_CHARS;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+function locate(section: Section, first: number, last: number): string {
+  const unit = section.unit ?? '¶';
+  const offset = (section.firstUnit ?? 1) - 1;
+  const range = first === last ? `${unit} ${first + offset}` : `${unit} ${first + offset}–${last + offset}`;
+  if (section.page) return `p. ${section.page}`;
+  return section.section ? `§ ${section.section}, ${range}` : range;
+}
+
+function chunkSections(documentId: string, sections: Section[]): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const push = (section: Section, text: string, first: number, last: number) => chunks.push({
+    id: `${documentId}#${chunks.length}`,
+    documentId,
+    text,
+    location: locate(section, first, last),
+    ...(section.page && { page: section.page }),
+    ...(section.section && { section: section.section })
+  });
+
+  for (const section of sections) {
+    // Line breaks inside a paragraph are layout, not structure
+    const paragraphs = section.paragraphs.map(p => p.replace(/\s*\n\s*/g, ' ').trim()).filter(Boolean).map((text, i) => ({ text, n: i + 1 }));
+    let buffer: string[] = [];
+    let first = 0;
+    let last = 0;
+    const flush = () => {
+      if (buffer.length) push(section, buffer.join('\n\n'), first, last);
+      buffer = [];
+    };
+
+    for (const { text, n } of paragraphs) {
+      for (const piece of splitLong(text)) {
+        if (buffer.length && buffer.join('\n\n').length + piece.length + 2 > MAX_CHUNK_CHARS) flush();
+        if (!buffer.length) first = n;
+        buffer.push(piece);
+        last = n;
+      }
+    }
+    flush();
+  }
+  return chunks;
+}
+
+// --- Ingestion ---
+
+export type DocumentFile = { name: string; arrayBuffer(): Promise<ArrayBuffer> };
+
+/** Parse and chunk an uploaded file. Throws for unsupported or text-less files. */
+export async function ingestDocument(file: DocumentFile): Promise<MissionDocument> {
+  const kind = documentKind(file.name);
+  if (!kind) throw new Error(`Unsupported document type: ${file.name} (supported: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')})`);
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const text = () => new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+  let sections: Section[];
+  let pageCount: number | undefined;
+
+  switch (kind) {
+    case 'pdf': ({ sections, pageCount } = await parsePdf(data)); break;
+    case 'docx': sections = await parseDocx(data); break;
+    case 'csv': sections = parseCsv(text()); break;
+    case 'text': sections = parseText(text()); break;
+  }
+
+  const id = `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+  const chunks = chunkSections(id, sections);
+  if (!chunks.length) {
+    throw new Error(kind === 'pdf' ? `${file.name} has no extractable text (scanned PDFs need OCR first)` : `${file.name} has no text`);
+  }
+  return { id, name: file.name, kind, bytes: data.length, ingestedAt: new Date().toISOString(), ...(pageCount && { pageCount }), chunks };
+}
+
+/**
+ * Ingest uploads into the mission's document store and return refs for them.
+ * Files that fail are reported, not thrown. Parsing can take seconds, so the
+ * caller adds the refs with includeDocuments to the params as they are once
+ * this resolves, not as they were when the upload started.
+ */
+export async function attachDocuments(reportId: string, files: DocumentFile[]): Promise<{ refs: MissionDocumentRef[]; errors: string[] }> {
+  const ingested: MissionDocument[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    try {
+      ingested.push(await ingestDocument(file));
+    } catch (e) {
+      console.error(`Document ingestion failed for ${file.name}`, e);
+      errors.push(e instanceof Error ? e.message : String(e));
+    }
+  }
+  if (!ingested.length) return { refs: [], errors };
+
+  try {
+    await documentStore.add(reportId, ingested);
+  } catch (e) {
+    // Still usable for this session: the store keeps its in-memory copy
+    console.error("Document store write failed", e);
+    errors.push('Documents could not be saved and will need re-uploading after a reload');
+  }
+  return { refs: ingested.map(documentRef), errors };
+}
+
+/** Cite newly attached documents. A re-uploaded file replaces the ref with the same name. */
+export function includeDocuments(params: ReportParameters, refs: MissionDocumentRef[]): ReportParameters {
+  if (!refs.length) return params;
+  const names = new Set(refs.map(d => d.name));
+  return withDocuments(params, [...(params.documents || []).filter(d => !names.has(d.name)), ...refs]);
+}
+
+/** Stop citing a document. Its text stays stored so earlier versions can still use it. */
+export const detachDocument = (params: ReportParameters, documentId: string): ReportParameters =>
+  withDocuments(params, (params.documents || []).filter(d => d.id !== documentId));
+
+// uploadedFileName/uploadedDocument predate the corpus and still drive the upload labels
+const withDocuments = (params: ReportParameters, documents: MissionDocumentRef[]): ReportParameters => ({
+  ...params,
+  documents,
+  uploadedFileName: documents[documents.length - 1]?.name,
+  uploadedDocument: documents.length > 0
+});
@@ -0,0 +1,93 @@
+import type { MissionDocument, MissionDocumentRef } from '../types';
+import { openObjectStore, requestToPromise, type ObjectStoreOpener } from './IndexedDBStore';
+
+// Parsed uploads are kept apart from ReportParameters, which only carry
+// { id, name, kind } refs: params are copied into every version, job and
+// autosave, and the corpus text would be copied with them.
+
+export type StoredCorpus = {
+  reportId: string;
+  documents: MissionDocument[]; // every document ever attached to the mission
+};
+
+export interface DocumentStoreAdapter {
+  put(record: StoredCorpus): Promise<void>;
+  list(): Promise<StoredCorpus[]>;
+  delete(reportId: string): Promise<void>;
+}
+
+// --- Adapters ---
+
+export class MemoryDocumentStoreAdapter implements DocumentStoreAdapter {
+  private records = new Map<string, StoredCorpus>();
+
+  async put(record: StoredCorpus) { this.records.set(record.reportId, record); }
+  async list() { return Array.from(this.records.values()); }
+  async delete(reportId: string) { this.records.delete(reportId); }
+}
+
+export class IndexedDBDocumentStoreAdapter implements DocumentStoreAdapter {
+  private store: ObjectStoreOpener;
+
+  constructor(dbName = 'bw-nexus-documents', storeName = 'corpora') {
+    this.store = openObjectStore(dbName, storeName, 'reportId');
+  }
+
+  async put(record: StoredCorpus) { await requestToPromise((await this.store('readwrite')).put(record)); }
+  async list() { return requestToPromise<StoredCorpus[]>((await this.store('readonly')).getAll()); }
+  async delete(reportId: string) { await requestToPromise((await this.store('readwrite')).delete(reportId)); }
+}
+
+// --- Store ---
+
+export const documentRef = ({ id, name, kind }: MissionDocument): MissionDocumentRef => ({ id, name, kind });
+
+/**
+ * Mission documents keyed by reportId. Detaching a document only drops its
+ * ref from the params, so restoring an earlier version finds its documents
+ * again; a mission's documents go when the mission is deleted.
+ */
+export class DocumentStore {
+  private corpora = new Map<string, MissionDocument[]>();
+  readonly ready: Promise<void>;
+
+  constructor(private adapter: DocumentStoreAdapter) {
+    this.ready = adapter.list()
+      .then(records => records.forEach(r => this.corpora.set(r.reportId, r.documents)))
+      .catch(e => console.error("Document store unavailable, starting empty", e));
+  }
+
+  /** All documents stored for a mission, including detached ones. */
+  list(reportId: string): MissionDocument[] {
+    return this.corpora.get(reportId) || [];
+  }
+
+  /** The stored documents behind a mission's refs, in ref order. */
+  resolve(reportId: string, refs: MissionDocumentRef[] = []): MissionDocument[] {
+    const stored = new Map(this.list(reportId).map(d => [d.id, d]));
+    return refs.map(ref => stored.get(ref.id)).filter((d): d is MissionDocument => d !== undefined);
+  }
+
+  /** Add documents to a mission, replacing any with the same id. */
+  async add(reportId: string, documents: MissionDocument[]): Promise<void> {
+    // Merging before the stored corpus has loaded would drop it
+    await this.ready;
+    const ids = new Set(documents.map(d => d.id));
+    const merged = [...this.list(reportId).filter(d => !ids.has(d.id)), ...documents];
+    this.corpora.set(reportId, merged);
+    await this.adapter.put({ reportId, documents: merged });
+  }
+
+  async delete(reportId: string): Promise<void> {
+    await this.ready;
+    this.corpora.delete(reportId);
+    await this.adapter.delete(reportId);
+  }
+}
+
+export function createDefaultDocumentStore(): DocumentStore {
+  const adapter = typeof indexedDB !== 'undefined' ? new IndexedDBDocumentStoreAdapter() : new MemoryDocumentStoreAdapter();
+  return new DocumentStore(adapter);
+}
+
+export const documentStore = createDefaultDocumentStore();
@@ -0,0 +1,111 @@
+import type { FeatureCategory, RawFeature, SynergyRuleMatch } from '../types';
+import { SchemaValidationError, number, objectOf, string, type Validator } from './SchemaValidation';
+
+export const FEATURE_CATEGORIES: { id: FeatureCategory; label: string; keywords: string[] }[] = [
+  // Checked in order, so "Renewable Energy Grid" lands in infrastructure before resource
+  { id: 'infrastructure', label: 'Infrastructure', keywords: ['port', 'rail', 'road', 'highway', 'airport', 'seaport', 'grid', 'pipeline', 'logistics', 'corridor', 'terminal', 'fiber', 'fibre', 'broadband', 'data center', 'data centre', 'hub', 'park'] },
+  { id: 'talent', label: 'Talent', keywords: ['talent', 'workforce', 'labor', 'labour', 'skilled', 'engineer', 'university', 'graduate', 'research', 'diaspora'] },
+  { id: 'resource', label: 'Resource', keywords: ['mineral', 'lithium', 'nickel', 'copper', 'rare earth', 'oil', 'gas', 'solar', 'wind', 'hydro', 'geothermal', 'renewable', 'water', 'forest', 'timber', 'land', 'agri', 'fisher'] },
+  { id: 'policy', label: 'Policy', keywords: ['zone', 'sez', 'incentive', 'tax', 'treaty', 'free trade', 'fta', 'regulat', 'policy', 'licen', 'subsid', 'tariff'] },
+  { id: 'market', label: 'Market', keywords: ['market', 'consumer', 'demand', 'tourism', 'export', 'customer', 'middle class', 'retail', 'buyer'] }
+];
+
+export function inferFeatureCategory(feature: RawFeature): FeatureCategory | null {
+  if (feature.category) return feature.category;
+  // Keywords match at word starts so "Export Market" is not read as a port
+  const name = feature.name.toLowerCase();
+  return FEATURE_CATEGORIES.find(c => c.keywords.some(k => new RegExp(`\\b${k}`).test(name)))?.id ?? null;
+}
+
+// --- Compatibility Matrix ---
+
+export type CompatibilityRule = { multiplier: number; rationale: string }; // multiplier 0..3, 1 is neutral
+export type CompatibilityMatrix = Record<string, CompatibilityRule>; // keyed by pairKey()
+
+export const pairKey = (a: FeatureCategory, b: FeatureCategory) => [a, b].sort().join('|');
+
+const rule = (a: FeatureCategory, b: FeatureCategory, multiplier: number, rationale: string): [string, CompatibilityRule] =>
+  [pairKey(a, b), { multiplier, rationale }];
+
+export const DEFAULT_COMPATIBILITY_MATRIX: CompatibilityMatrix = Object.fromEntries([
+  rule('infrastructure', 'infrastructure', 0.9, 'Overlapping infrastructure adds capacity, not a new capability'),
+  rule('infrastructure', 'talent', 0.85, 'Weak link unless the talent operates or builds the asset'),
+  rule('infrastructure', 'resource', 1.4, 'Logistics is what turns a stranded resource into an exportable one'),
+  rule('infrastructure', 'policy', 1.2, 'Zones and incentives attached to physical capacity attract anchor tenants'),
+  rule('infrastructure', 'market', 1.3, 'Infrastructure that lowers cost-to-serve a proven market'),
+  rule('talent', 'talent', 0.9, 'Related skill pools rarely create demand on their own'),
+  rule('talent', 'resource', 1.1, 'Local skills enable processing and value-add on site'),
+  rule('talent', 'policy', 1.1, 'Incentives make an existing talent pool bankable for investors'),
+  rule('talent', 'market', 1.3, 'Skilled labour close to demand supports services and R&D'),
+  rule('resource', 'resource', 0.8, 'Stacking commodities concentrates price risk'),
+  rule('resource', 'policy', 1.2, 'Beneficiation incentives capture more of the resource value locally'),
+  rule('resource', 'market', 1.2, 'Resource with an identified offtake market'),
+  rule('policy', 'policy', 0.7, 'Incentives stack without adding real capability'),
+  rule('policy', 'market', 1.1, 'Market access improved by trade or regulatory measures'),
+  rule('market', 'market', 0.9, 'Adjacent demand signals largely overlap')
+]);
+
+const NEUTRAL_RULE: CompatibilityRule = { multiplier: 1, rationale: 'At least one feature is uncategorised; treated as neutral' };
+
+const STORAGE_KEY = 'bw-nexus-synergy-matrix';
+let activeMatrix: CompatibilityMatrix | undefined;
+
+const MatrixSchema = objectOf<CompatibilityMatrix>(
+  Object.fromEntries(Object.keys(DEFAULT_COMPATIBILITY_MATRIX).map(key => [
+    key,
+    objectOf<CompatibilityRule>({ multiplier: number({ min: 0, max: 3 }), rationale: string() })
+  ])) as Record<string, Validator<CompatibilityRule>>
+);
+
+export function getCompatibilityMatrix(): CompatibilityMatrix {
+  if (activeMatrix) return activeMatrix;
+  activeMatrix = DEFAULT_COMPATIBILITY_MATRIX;
+  if (typeof localStorage === 'undefined') return activeMatrix;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (MatrixSchema(parsed).length === 0) activeMatrix = parsed;
+    }
+  } catch (e) {
+    console.error("Stored synergy matrix unreadable, using defaults", e);
+  }
+  return activeMatrix;
+}
+
+function persist(matrix: CompatibilityMatrix) {
+  activeMatrix = matrix;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(matrix));
+  return matrix;
+}
+
+/** Edit one cell; the matrix is symmetric so (a, b) and (b, a) are the same rule. */
+export function setCompatibilityRule(a: FeatureCategory, b: FeatureCategory, update: Partial<CompatibilityRule>): CompatibilityMatrix {
+  const current = getCompatibilityMatrix();
+  const key = pairKey(a, b);
+  const next = { ...current[key], ...update };
+  const errors = MatrixSchema({ ...current, [key]: next });
+  if (errors.length) throw new SchemaValidationError('synergy-matrix', errors);
+  return persist({ ...current, [key]: next });
+}
+
+/** Replace the whole matrix, e.g. from an analyst's exported JSON. */
+export function importCompatibilityMatrix(input: unknown): CompatibilityMatrix {
+  const matrix = typeof input === 'string' ? JSON.parse(input) : input;
+  const errors = MatrixSchema(matrix);
+  if (errors.length) throw new SchemaValidationError('synergy-matrix', errors);
+  return persist(matrix);
+}
+
+export function resetCompatibilityMatrix(): CompatibilityMatrix {
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+  activeMatrix = DEFAULT_COMPATIBILITY_MATRIX;
+  return activeMatrix;
+}
+
+export function matchCompatibilityRule(a: RawFeature, b: RawFeature, matrix = getCompatibilityMatrix()): SynergyRuleMatch {
+  const ca = inferFeatureCategory(a);
+  const cb = inferFeatureCategory(b);
+  const applied = ca && cb ? (matrix[pairKey(ca, cb)] ?? NEUTRAL_RULE) : NEUTRAL_RULE;
+  return { components: [a.name, b.name], categories: [ca, cb], multiplier: applied.multiplier, rationale: applied.rationale };
+}
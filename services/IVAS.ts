@@ -1,9 +1,11 @@
-
 import type { LatentAsset } from '../types';
 
+export type IVASContext = { regionAmbition?: number, regulatoryFriction?: number };
+
 export type IVASResult = {
   ivasScore: number; // 0..100
   activationMonths: number;
+  profile: string; // id of the weighting profile used
   breakdown: {
     opportunityQuantum: number; // 0..100
     symbioticConfidence: number; // 0..100
@@ -12,30 +14,77 @@ export type IVASResult = {
   rationale: string;
 };
 
+export type IVASProfile = {
+  id: string;
+  label: string;
+  description: string;
+  weights: { opportunityQuantum: number; symbioticConfidence: number; frictionRelief: number }; // sum to 1
+  activation: { minMonths: number; maxMonths: number; curve: number }; // months = max * (friction/100)^curve
+};
+
+export const IVAS_PROFILES: Record<string, IVASProfile> = {
+  'balanced': {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'Default blend of opportunity size, local confidence and friction.',
+    weights: { opportunityQuantum: 0.45, symbioticConfidence: 0.4, frictionRelief: 0.15 },
+    activation: { minMonths: 6, maxMonths: 48, curve: 1 }
+  },
+  'government-attraction': {
+    id: 'government-attraction',
+    label: 'Government Attraction',
+    description: 'For investment promotion agencies: favours fast activation and local buy-in over deal size.',
+    weights: { opportunityQuantum: 0.25, symbioticConfidence: 0.4, frictionRelief: 0.35 },
+    activation: { minMonths: 6, maxMonths: 42, curve: 1.3 }
+  },
+  'investor-returns': {
+    id: 'investor-returns',
+    label: 'Investor Returns',
+    description: 'For funds and corporates: favours market size; friction matters mainly once it is severe.',
+    weights: { opportunityQuantum: 0.6, symbioticConfidence: 0.25, frictionRelief: 0.15 },
+    activation: { minMonths: 9, maxMonths: 60, curve: 1.6 }
+  },
+  'risk-averse': {
+    id: 'risk-averse',
+    label: 'Risk Averse',
+    description: 'For DFIs and first-time entrants: penalises friction and weak local confidence.',
+    weights: { opportunityQuantum: 0.2, symbioticConfidence: 0.4, frictionRelief: 0.4 },
+    activation: { minMonths: 9, maxMonths: 54, curve: 0.8 }
+  }
+};
+
+export const DEFAULT_IVAS_PROFILE = 'balanced';
+
+const resolveProfile = (profile: string | IVASProfile = DEFAULT_IVAS_PROFILE): IVASProfile =>
+  typeof profile === 'string' ? (IVAS_PROFILES[profile] ?? IVAS_PROFILES[DEFAULT_IVAS_PROFILE]) : profile;
+
 /**
  * Compute a rudimentary IVAS score.
  * Replace heuristics with a learned or LLM-based estimator later.
  */
-export function computeIVAS(asset: LatentAsset, context: { regionAmbition?: number, regulatoryFriction?: number }): IVASResult {
-  const opportunityQuantum = Math.min(100, Math.log1p(asset.marketEstimateUSD) * 10);
+export function computeIVAS(asset: LatentAsset, context: IVASContext, profile?: string | IVASProfile): IVASResult {
+  const p = resolveProfile(profile);
+  const opportunityQuantum = Math.min(100, Math.log1p(Math.max(0, asset.marketEstimateUSD)) * 10);
   const symbioticConfidence = Math.min(100, (context.regionAmbition ?? 50) + (asset.synergyScore * 5));
-  const activationFriction = Math.min(100, (context.regulatoryFriction ?? 40));
+  const activationFriction = Math.min(100, Math.max(0, context.regulatoryFriction ?? 40));
 
   // combine: high quantum, high confidence, low friction -> high IVAS
   const ivasScore = Math.round(
-    0.45 * opportunityQuantum +
-    0.4 * symbioticConfidence +
-    0.15 * (100 - activationFriction)
+    p.weights.opportunityQuantum * opportunityQuantum +
+    p.weights.symbioticConfidence * symbioticConfidence +
+    p.weights.frictionRelief * (100 - activationFriction)
   );
 
-  // translate friction to months (simple mapping)
-  const activationMonths = Math.max(6, Math.round(48 * (activationFriction / 100)));
+  // translate friction to months along the profile's curve
+  const { minMonths, maxMonths, curve } = p.activation;
+  const activationMonths = Math.max(minMonths, Math.round(maxMonths * Math.pow(activationFriction / 100, curve)));
 
-  const rationale = `IVAS combines opportunity ($${asset.marketEstimateUSD}), local confidence (${Math.round(symbioticConfidence)}), and friction (${Math.round(activationFriction)}).`;
+  const rationale = `IVAS (${p.label}) combines opportunity ($${asset.marketEstimateUSD}), local confidence (${Math.round(symbioticConfidence)}), and friction (${Math.round(activationFriction)}).`;
 
   return {
     ivasScore,
     activationMonths,
+    profile: p.id,
     breakdown: {
       opportunityQuantum: Math.round(opportunityQuantum),
       symbioticConfidence: Math.round(symbioticConfidence),
@@ -44,3 +93,82 @@ export function computeIVAS(asset: LatentAsset, context: { regionAmbition?: numb
     rationale
   };
 }
+
+// --- Sensitivity ---
+
+export type IVASInput = 'regionAmbition' | 'regulatoryFriction' | 'marketEstimateUSD' | 'synergyScore';
+
+export type IVASSensitivityBar = {
+  input: IVASInput;
+  label: string;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowScore: number; // IVAS with the input at lowValue
+  highScore: number; // IVAS with the input at highValue
+  swing: number; // |highScore - lowScore|
+};
+
+export type IVASSensitivity = {
+  baseScore: number;
+  profile: string;
+  perturbation: number;
+  bars: IVASSensitivityBar[]; // widest swing first, ready for a tornado chart
+};
+
+const INPUT_LABELS: Record<IVASInput, string> = {
+  regionAmbition: 'Region Ambition',
+  regulatoryFriction: 'Regulatory Friction',
+  marketEstimateUSD: 'Market Estimate',
+  synergyScore: 'Synergy Score'
+};
+
+/**
+ * Move each input down and up by `perturbation` (fraction of its base value)
+ * while holding the others fixed, and report how far the IVAS score moves.
+ */
+export function ivasSensitivity(
+  asset: LatentAsset,
+  context: IVASContext,
+  profile?: string | IVASProfile,
+  perturbation = 0.25
+): IVASSensitivity {
+  const base = {
+    regionAmbition: context.regionAmbition ?? 50,
+    regulatoryFriction: context.regulatoryFriction ?? 40,
+    marketEstimateUSD: asset.marketEstimateUSD,
+    synergyScore: asset.synergyScore
+  };
+  const baseScore = computeIVAS(asset, context, profile).ivasScore;
+
+  const scoreWith = (input: IVASInput, value: number) => {
+    const inputs = { ...base, [input]: value };
+    return computeIVAS(
+      { ...asset, marketEstimateUSD: inputs.marketEstimateUSD, synergyScore: inputs.synergyScore },
+      { regionAmbition: inputs.regionAmbition, regulatoryFriction: inputs.regulatoryFriction },
+      profile
+    ).ivasScore;
+  };
+
+  const bars = (Object.keys(base) as IVASInput[]).map(input => {
+    const bounded = input === 'regionAmbition' || input === 'regulatoryFriction';
+    const clampInput = (v: number) => bounded ? Math.min(100, Math.max(0, v)) : Math.max(0, v);
+    const lowValue = clampInput(base[input] * (1 - perturbation));
+    const highValue = clampInput(base[input] * (1 + perturbation));
+    const lowScore = scoreWith(input, lowValue);
+    const highScore = scoreWith(input, highValue);
+    return {
+      input,
+      label: INPUT_LABELS[input],
+      baseValue: base[input],
+      lowValue,
+      highValue,
+      lowScore,
+      highScore,
+      swing: Math.abs(highScore - lowScore)
+    };
+  });
+
+  bars.sort((a, b) => b.swing - a.swing);
+  return { baseScore, profile: resolveProfile(profile).id, perturbation, bars };
+}
@@ -0,0 +1,26 @@
+// Shared plumbing for the IndexedDB adapters (task history, reports, documents)
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export type ObjectStoreOpener = (mode: IDBTransactionMode) => Promise<IDBObjectStore>;
+
+/**
+ * Open (and on first use create) a single object store in its own database at
+ * version 1. Returns a function handing out a fresh store per transaction.
+ */
+export function openObjectStore(dbName: string, storeName: string, keyPath: string): ObjectStoreOpener {
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(dbName, 1);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(storeName)) {
+        open.result.createObjectStore(storeName, { keyPath });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+  return async mode => (await db).transaction(storeName, mode).objectStore(storeName);
+}
@@ -1,5 +1,16 @@
 
-import type { RegionProfile, LatentAsset, RawFeature } from '../types';
+import type { RegionProfile, LatentAsset, RawFeature, SynergyRuleMatch } from '../types';
+import { getCompatibilityMatrix, matchCompatibilityRule, type CompatibilityMatrix } from './FeatureTaxonomy';
+
+export type LAIOptions = {
+  minArity?: number; // smallest combination reported (default 2)
+  maxArity?: number; // largest combination explored (default 3)
+  beamWidth?: number; // partial combinations kept per level (default 25)
+  minSynergy?: number; // candidates scoring below this are dropped
+  limit?: number; // results returned (default 10)
+  diversityPenalty?: number; // 0..1, discount per reuse of a component already ranked (default 0.5)
+  compatibility?: CompatibilityMatrix; // defaults to the analyst-edited matrix
+};
 
 export function generateFeaturePairs(features: RawFeature[]) {
   const pairs: Array<[RawFeature, RawFeature]> = [];
@@ -11,37 +22,144 @@ export function generateFeaturePairs(features: RawFeature[]) {
   return pairs;
 }
 
+/**
+ * Geometric means keep scores comparable across arities; for a pair they
+ * reduce to the rarity product and market proxy product, scaled by the
+ * compatibility rule for the two features' categories.
+ */
+export function scoreCombination(
+  features: RawFeature[],
+  matrix: CompatibilityMatrix = getCompatibilityMatrix()
+): { synergyScore: number; marketEstimateUSD: number; rules: SynergyRuleMatch[] } {
+  const k = features.length;
+  const rarity = features.reduce((p, f) => p * (f.rarityScore || 1), 1);
+  const market = features.reduce((p, f) => p * (f.marketProxy || 1), 1);
+  const relevance = features.reduce((s, f) => s + (f.relevanceScore || 0), 0);
+  const rules = generateFeaturePairs(features).map(([a, b]) => matchCompatibilityRule(a, b, matrix));
+  const compatibility = rules.length ? Math.pow(rules.reduce((p, r) => p * r.multiplier, 1), 1 / rules.length) : 1;
+  return {
+    synergyScore: Math.pow(rarity, 2 / k) * (1 + Math.log(1 + relevance)) * compatibility,
+    marketEstimateUSD: Math.round(Math.pow(market, 2 / k) * 1000),
+    rules
+  };
+}
+
+// FNV-1a over region and sorted component names, so IDs survive reordering and re-runs
+function stableId(regionId: string, names: string[]): string {
+  const key = `${regionId}|${[...names].sort().join('|')}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `lai-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+type Combo = { idx: number[]; synergyScore: number; marketEstimateUSD: number; rules: SynergyRuleMatch[] };
+
+/**
+ * Beam search over feature combinations. Each level extends the surviving
+ * combinations by every feature they lack, so what is found does not depend
+ * on feature order, and keeps an extension only if it beats its parent. Sets
+ * reached from several parents are scored once.
+ */
+export function searchFeatureCombinations(features: RawFeature[], options: LAIOptions = {}): Combo[] {
+  const minArity = Math.max(2, options.minArity ?? 2);
+  const maxArity = Math.max(minArity, Math.min(options.maxArity ?? 3, features.length));
+  const beamWidth = Math.max(1, options.beamWidth ?? 25);
+  const minSynergy = options.minSynergy ?? 0;
+
+  const matrix = options.compatibility ?? getCompatibilityMatrix();
+  const score = (idx: number[]): Combo => ({ idx, ...scoreCombination(idx.map(i => features[i]), matrix) });
+
+  let beam: Combo[] = features.map((_, i) => score([i]))
+    .sort((a, b) => b.synergyScore - a.synergyScore)
+    .slice(0, beamWidth);
+  const found: Combo[] = [];
+
+  for (let arity = 2; arity <= maxArity; arity++) {
+    const next: Combo[] = [];
+    const seen = new Set<string>();
+    for (const parent of beam) {
+      for (let j = 0; j < features.length; j++) {
+        if (parent.idx.includes(j)) continue;
+        const idx = [...parent.idx, j].sort((a, b) => a - b);
+        const key = idx.join(',');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const child = score(idx);
+        // Singletons are never results, so pairs don't have to beat them
+        if (arity > 2 && child.synergyScore < parent.synergyScore) continue;
+        if (child.synergyScore < minSynergy) continue;
+        next.push(child);
+      }
+    }
+    next.sort((a, b) => b.synergyScore - a.synergyScore);
+    if (arity >= minArity) found.push(...next);
+    beam = next.slice(0, beamWidth);
+    if (!beam.length) break;
+  }
+  return found;
+}
+
+/**
+ * Greedy diversity-aware pick: each round takes the candidate with the best
+ * score after a (1 - penalty)^n discount, where n is how often its most-used
+ * component already appears among the picks.
+ */
+export function rankDiverse(candidates: Combo[], limit: number, penalty: number): Combo[] {
+  const pool = [...candidates];
+  const picked: Combo[] = [];
+  const uses = new Map<number, number>();
+  while (picked.length < limit && pool.length) {
+    let best = 0;
+    let bestValue = -Infinity;
+    pool.forEach((c, i) => {
+      const reuse = Math.max(...c.idx.map(f => uses.get(f) ?? 0));
+      const value = c.synergyScore * Math.pow(1 - penalty, reuse);
+      if (value > bestValue) { bestValue = value; best = i; }
+    });
+    const choice = pool.splice(best, 1)[0];
+    choice.idx.forEach(f => uses.set(f, (uses.get(f) ?? 0) + 1));
+    picked.push(choice);
+  }
+  return picked;
+}
+
 /**
  * Minimal LAI: finds interesting pairs/triples, ranks by simple heuristic.
  * In practice this will be replaced by a multi-agent LLM workflow.
  */
-export function identifyLatentAssets(region: RegionProfile): LatentAsset[] {
-  const features = region.rawFeatures || [];
-  const pairs = generateFeaturePairs(features);
-
-  const candidates = pairs.map(([a, b], idx) => {
-    const synergyScore =
-      (a.rarityScore || 1) * (b.rarityScore || 1) *
-      (1 + Math.log(1 + (a.relevanceScore || 0) + (b.relevanceScore || 0)));
+export function identifyLatentAssets(region: RegionProfile, options: LAIOptions = {}): LatentAsset[] {
+  // Duplicate names would produce self-combinations; sorting by name makes
+  // tie-breaks, and therefore the ranking, independent of input order
+  const seen = new Set<string>();
+  const features = (region.rawFeatures || []).filter(f => {
+    const key = f.name.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
 
-    const marketEstimateUSD = Math.round((a.marketProxy || 1) * (b.marketProxy || 1) * 1000);
+  const candidates = searchFeatureCombinations(features, options);
+  const ranked = rankDiverse(candidates, options.limit ?? 10, Math.min(1, Math.max(0, options.diversityPenalty ?? 0.5)));
 
+  return ranked.map(combo => {
+    const names = combo.idx.map(i => features[i].name);
+    const listed = names.length > 2 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join(' and ');
     return {
-      id: `lai-${idx}`,
-      title: `${a.name} + ${b.name} → Symbiotic Opportunity`,
-      description: `Symbiosis between ${a.name} and ${b.name} in ${region.name}.`,
-      components: [a.name, b.name],
-      synergyScore,
-      marketEstimateUSD,
+      id: stableId(region.id, names),
+      title: `${names.join(' + ')} → Symbiotic Opportunity`,
+      description: `Symbiosis between ${listed} in ${region.name}.`,
+      components: names,
+      synergyScore: combo.synergyScore,
+      marketEstimateUSD: combo.marketEstimateUSD,
+      synergyRules: combo.rules,
       recommendedNextSteps: [
         'Run IVAS scoring',
         'Validate with local stakeholders',
         'Quick feasibility call with local partner'
       ]
-    } as LatentAsset;
+    };
   });
-
-  // sort descending by score
-  candidates.sort((x, y) => y.synergyScore - x.synergyScore);
-  return candidates.slice(0, 10);
 }
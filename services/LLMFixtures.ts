@@ -0,0 +1,53 @@
+import type { LLMFixture } from './LLMProviders';
+
+// Recorded completions replayed by MockLLMProvider when running offline.
+// Capture new entries with withFixtureRecording() and paste them here.
+export const LLM_FIXTURES: LLMFixture[] = [
+  {
+    provider: 'google-gemini',
+    promptIncludes: 'Act as a strategist',
+    completion: {
+      content: 'Prioritise a phased market entry anchored on a local distribution partner; defer greenfield capex until regulatory clearance is confirmed.',
+      confidence: 0.88,
+      reasoning: 'Recorded from gemini-2.5-flash',
+      tokensUsed: 412,
+      inputTokens: 298,
+      outputTokens: 114
+    }
+  },
+  {
+    provider: 'openai-gpt',
+    promptIncludes: 'Act as a strategist',
+    completion: {
+      content: 'Enter through a joint venture with a domestic operator to de-risk licensing, then scale capacity once demand is validated.',
+      confidence: 0.84,
+      reasoning: 'Recorded from gpt-4o',
+      tokensUsed: 389,
+      inputTokens: 291,
+      outputTokens: 98
+    }
+  },
+  {
+    provider: 'anthropic-claude',
+    promptIncludes: 'Act as a strategist',
+    completion: {
+      content: 'Start with a partnership-led entry and a compliance review of local content rules before committing capital.',
+      confidence: 0.86,
+      reasoning: 'Recorded from claude-sonnet-4',
+      tokensUsed: 377,
+      inputTokens: 290,
+      outputTokens: 87
+    }
+  },
+  {
+    promptIncludes: 'Act as a diplomat',
+    completion: {
+      content: 'Open with a ministry-level courtesy visit and frame the proposal around national development priorities before discussing commercial terms.',
+      confidence: 0.82,
+      reasoning: 'Recorded diplomat response',
+      tokensUsed: 301,
+      inputTokens: 230,
+      outputTokens: 71
+    }
+  }
+];
@@ -0,0 +1,237 @@
+import type { MissionDocument, NSIL_Report, ReportParameters } from '../types';
+import { createZip, readZip, type ZipEntry } from './ZipArchive';
+import { downloadContent, readNSILJson, toNSILJson } from './NSILRenderers';
+import { reportRepository, type ReportVersion, type StoredReport } from './ReportRepository';
+import { documentStore } from './DocumentStore';
+
+// A .bwnexus bundle is a ZIP holding manifest.json plus one JSON artifact per
+// part of the mission. The manifest lists every artifact with its SHA-256.
+//
+//   format 1: mission.json carried params, module outputs and the NSIL report
+//             in one snapshot, without version history
+//   format 2: mission.json (params), modules/<id>.json, report.json (NSIL JSON
+//             envelope) and versions/<n>.json, plus documents/<id>.json for
+//             uploaded documents (readers that predate them skip the folder)
+
+export const BUNDLE_FORMAT = 'bwnexus';
+export const BUNDLE_FORMAT_VERSION = 2;
+export const BUNDLE_EXTENSION = 'bwnexus';
+export const BUNDLE_MIME_TYPE = 'application/zip';
+
+const MANIFEST_PATH = 'manifest.json';
+
+export type BundleFile = { path: string; sha256: string; bytes: number };
+
+export type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  generator: string;
+  reportId: string;
+  reportName: string;
+  files: BundleFile[];
+};
+
+export class BundleError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(problems.length ? `${message}: ${problems.slice(0, 5).join('; ')}` : message);
+    this.name = 'BundleError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function sha256(data: Uint8Array): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) throw new BundleError('SHA-256 is not available in this environment');
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Module ids come from stage and canvas ids; keep them safe as file names
+const safeName = (id: string) => id.replace(/[^A-Za-z0-9_-]/g, '_');
+const modulePath = (id: string) => `modules/${safeName(id)}.json`;
+const documentPath = (id: string) => `documents/${safeName(id)}.json`;
+
+// --- Migrations ---
+
+// Parsed artifacts keyed by path, the unit migrations work on
+type BundleFiles = Record<string, unknown>;
+
+/** Each entry upgrades bundle contents from its key version to the next. */
+const MIGRATIONS: Record<number, (files: BundleFiles) => BundleFiles> = {
+  1: files => {
+    const mission = files['mission.json'] as { reportId: string; params: ReportParameters; modules?: Record<string, unknown>; report?: NSIL_Report; updatedAt?: string };
+    const upgraded: BundleFiles = {
+      'mission.json': { reportId: mission.reportId, params: mission.params, updatedAt: mission.updatedAt }
+    };
+    Object.entries(mission.modules || {}).forEach(([id, output]) => { upgraded[modulePath(id)] = { id, output }; });
+    if (mission.report) upgraded['report.json'] = toNSILJson(mission.report);
+    return upgraded;
+  }
+};
+
+function migrate(files: BundleFiles, fromVersion: number): BundleFiles {
+  let current = files;
+  for (let v = fromVersion; v < BUNDLE_FORMAT_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new BundleError(`No migration from bundle format ${v}`);
+    current = step(current);
+  }
+  return current;
+}
+
+// --- Export ---
+
+const json = (value: unknown) => encoder.encode(JSON.stringify(value, null, 2));
+
+export async function createMissionBundle(record: StoredReport): Promise<Uint8Array> {
+  await documentStore.ready;
+  const artifacts: ZipEntry[] = [
+    { name: 'mission.json', data: json({ reportId: record.reportId, params: record.params, updatedAt: record.updatedAt }) },
+    ...Object.entries(record.modules).map(([id, output]) => ({ name: modulePath(id), data: json({ id, output }) })),
+    ...(record.report ? [{ name: 'report.json', data: json(toNSILJson(record.report)) }] : []),
+    ...record.versions.map(v => ({ name: `versions/${v.version}.json`, data: json(v) })),
+    // Detached documents too, so restored versions find theirs
+    ...documentStore.list(record.reportId).map(d => ({ name: documentPath(d.id), data: json(d) }))
+  ];
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    generator: 'BW Nexus AI',
+    reportId: record.reportId,
+    reportName: record.params.reportName,
+    files: await Promise.all(artifacts.map(async a => ({
+      path: a.name,
+      sha256: await sha256(a.data as Uint8Array),
+      bytes: (a.data as Uint8Array).length
+    })))
+  };
+  return createZip([{ name: MANIFEST_PATH, data: json(manifest) }, ...artifacts]);
+}
+
+/** Browser helper: export a stored report as a .bwnexus download. */
+export async function downloadMissionBundle(record: StoredReport): Promise<void> {
+  const basename = (record.params.reportName || `mission-${record.reportId}`).replace(/\s+/g, '-');
+  downloadContent(await createMissionBundle(record), BUNDLE_MIME_TYPE, `${basename}.${BUNDLE_EXTENSION}`);
+}
+
+// --- Import ---
+
+function parseJson(path: string, data: Uint8Array): unknown {
+  try {
+    return JSON.parse(decoder.decode(data));
+  } catch {
+    throw new BundleError(`${path} is not valid JSON`);
+  }
+}
+
+/** Checksum every listed artifact and reject anything missing or unlisted. */
+async function verifyFiles(manifest: BundleManifest, entries: Map<string, Uint8Array>): Promise<string[]> {
+  const problems: string[] = [];
+  const listed = new Set(manifest.files.map(f => f.path));
+  for (const file of manifest.files) {
+    const data = entries.get(file.path);
+    if (!data) problems.push(`${file.path} is missing`);
+    else if (data.length !== file.bytes || await sha256(data) !== file.sha256) problems.push(`${file.path} does not match its checksum`);
+  }
+  entries.forEach((_, path) => { if (path !== MANIFEST_PATH && !listed.has(path)) problems.push(`${path} is not listed in the manifest`); });
+  return problems;
+}
+
+export type MissionBundleContents = { record: StoredReport; documents: MissionDocument[] };
+
+/**
+ * Read a .bwnexus bundle back into a stored report and its documents.
+ * Integrity is checked against the manifest before anything is parsed, then
+ * older formats are migrated to the current one.
+ */
+export async function readMissionBundle(data: Uint8Array): Promise<MissionBundleContents> {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = new Map(readZip(data).map(e => [e.name, e.data as Uint8Array]));
+  } catch (e) {
+    throw new BundleError(`Not a readable .${BUNDLE_EXTENSION} bundle`, [e instanceof Error ? e.message : String(e)]);
+  }
+
+  const manifestData = entries.get(MANIFEST_PATH);
+  if (!manifestData) throw new BundleError(`Bundle has no ${MANIFEST_PATH}`);
+  const manifest = parseJson(MANIFEST_PATH, manifestData) as BundleManifest;
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files)) throw new BundleError(`${MANIFEST_PATH} is not a ${BUNDLE_FORMAT} manifest`);
+  if (!Number.isInteger(manifest.formatVersion) || manifest.formatVersion < 1) throw new BundleError(`Unknown bundle format ${manifest.formatVersion}`);
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new BundleError(`Bundle format ${manifest.formatVersion} is newer than this app supports (${BUNDLE_FORMAT_VERSION})`);
+  }
+
+  const problems = await verifyFiles(manifest, entries);
+  if (problems.length) throw new BundleError('Bundle failed its integrity check', problems);
+
+  const files = migrate(
+    Object.fromEntries(manifest.files.map(f => [f.path, parseJson(f.path, entries.get(f.path)!)])),
+    manifest.formatVersion
+  );
+
+  const mission = files['mission.json'] as { reportId?: string; params?: ReportParameters; updatedAt?: string } | undefined;
+  if (!mission?.params || typeof mission.reportId !== 'string') throw new BundleError('mission.json is missing the report id or parameters');
+
+  const modules: Record<string, unknown> = {};
+  const versions: ReportVersion[] = [];
+  const documents: MissionDocument[] = [];
+  Object.entries(files).forEach(([path, value]) => {
+    if (path.startsWith('modules/')) {
+      const { id, output } = value as { id: string; output: unknown };
+      modules[id] = output;
+    } else if (path.startsWith('versions/')) {
+      versions.push(value as ReportVersion);
+    } else if (path.startsWith('documents/')) {
+      documents.push(value as MissionDocument);
+    }
+  });
+
+  let report: NSIL_Report | undefined;
+  if (files['report.json']) {
+    try {
+      report = readNSILJson(files['report.json']);
+    } catch (e) {
+      throw new BundleError('report.json is not a valid NSIL report', [e instanceof Error ? e.message : String(e)]);
+    }
+  }
+
+  return {
+    record: {
+      reportId: mission.reportId,
+      params: { ...mission.params, reportId: mission.reportId },
+      modules,
+      report,
+      versions: versions.sort((a, b) => a.version - b.version),
+      updatedAt: mission.updatedAt ?? manifest.exportedAt
+    },
+    documents
+  };
+}
+
+export type ImportOptions = {
+  // 'copy' gives the mission a new id when one with the same id is already stored
+  onConflict?: 'copy' | 'replace';
+};
+
+const withReportId = (record: StoredReport, reportId: string): StoredReport => ({
+  ...record,
+  reportId,
+  params: { ...record.params, reportId },
+  versions: record.versions.map(v => ({ ...v, params: { ...v.params, reportId } }))
+});
+
+/** Read a bundle and add it to the report repository and document store. */
+export async function importMissionBundle(data: Uint8Array, options: ImportOptions = {}): Promise<StoredReport> {
+  const { record, documents } = await readMissionBundle(data);
+  await Promise.all([reportRepository.ready, documentStore.ready]);
+  const conflict = reportRepository.get(record.reportId) !== undefined;
+  const imported = conflict && options.onConflict !== 'replace'
+    ? withReportId(record, Math.random().toString(36).substr(2, 9))
+    : record;
+  if (documents.length) await documentStore.add(imported.reportId, documents);
+  return reportRepository.importReport(imported);
+}
@@ -0,0 +1,206 @@
+import type { FeatureCategory, RegionProfile } from '../types';
+import { runOpportunityOrchestration } from './MultiAgentOrchestrator';
+import type { OpportunityPortfolio, PortfolioEntry } from './OpportunityPortfolio';
+
+export type Distribution =
+  | number
+  | { kind: 'range'; min: number; max: number } // uniform
+  | { kind: 'triangular'; min: number; mode: number; max: number };
+
+export type UncertainFeature = {
+  name: string;
+  category?: FeatureCategory;
+  rarityScore?: Distribution;
+  relevanceScore?: Distribution;
+  marketProxy?: Distribution;
+};
+
+export type MonteCarloSpec = {
+  region: Omit<RegionProfile, 'rawFeatures'> & { rawFeatures: UncertainFeature[] };
+  iterations?: number; // default 500
+  seed?: number; // same seed, same bands
+  ivasProfile?: string;
+  regionAmbition?: Distribution;
+  regulatoryFriction?: Distribution;
+  assetIds?: string[]; // assets to band; omitted: every portfolio candidate
+  capitalInvestmentUSD?: Distribution; // omitted: each asset's capex proxy
+  localContentShare?: Distribution;
+  years?: number;
+};
+
+export type Percentiles = { p10: number; p50: number; p90: number };
+
+// Bands for one asset, from the runs in which it was a portfolio candidate
+export type AssetBands = {
+  id: string;
+  title: string;
+  presence: number; // share of runs in which the asset was a candidate
+  ivasScore: Percentiles;
+  activationMonths: Percentiles;
+  totalJobs: Percentiles; // average annual direct + indirect + induced
+  totalImpactUSD: Percentiles;
+  yearly: { year: number; jobs: Percentiles; cumulativeImpactUSD: Percentiles }[];
+};
+
+export type MonteCarloResult = {
+  seed: number;
+  iterations: number;
+  assets: AssetBands[]; // most often top-ranked first
+  topAssets: { id: string; title: string; share: number }[]; // how often each asset ranked first
+};
+
+// mulberry32: small, fast and good enough for sampling inputs
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sample(dist: Distribution | undefined, rng: () => number): number | undefined {
+  if (dist === undefined) return undefined;
+  if (typeof dist === 'number') return dist;
+  const u = rng();
+  if (dist.kind === 'range') return dist.min + u * (dist.max - dist.min);
+  // Inverse CDF of the triangular distribution
+  const { min, mode, max } = dist;
+  if (max === min) return min;
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/** Triangular distribution centred on a point estimate, ±spread as a fraction of it. */
+export const spreadAround = (value: number, spread: number, bounds: { min?: number; max?: number } = {}): Distribution => {
+  const clamp = (v: number) => Math.min(bounds.max ?? Infinity, Math.max(bounds.min ?? -Infinity, v));
+  return { kind: 'triangular', min: clamp(value * (1 - spread)), mode: clamp(value), max: clamp(value * (1 + spread)) };
+};
+
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => {
+    if (!sorted.length) return 0;
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  };
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+}
+
+type AssetSamples = {
+  title: string;
+  ivasScores: number[];
+  months: number[];
+  jobs: number[];
+  impacts: number[];
+  yearlyJobs: number[][];
+  yearlyImpact: number[][];
+};
+
+const emptySamples = (title: string): AssetSamples => ({ title, ivasScores: [], months: [], jobs: [], impacts: [], yearlyJobs: [], yearlyImpact: [] });
+
+function record(samples: AssetSamples, entry: PortfolioEntry): void {
+  samples.ivasScores.push(entry.ivas.ivasScore);
+  samples.months.push(entry.ivas.activationMonths);
+  samples.jobs.push(entry.scf.directJobs + entry.scf.indirectJobs + entry.scf.inducedJobs);
+  samples.impacts.push(entry.scf.totalEconomicImpactUSD);
+  let cumulative = 0;
+  entry.scf.yearly.forEach((y, idx) => {
+    cumulative += y.outputUSD.direct + y.outputUSD.indirect + y.outputUSD.induced;
+    (samples.yearlyJobs[idx] ??= []).push(y.jobs.direct + y.jobs.indirect + y.jobs.induced);
+    (samples.yearlyImpact[idx] ??= []).push(cumulative);
+  });
+}
+
+/**
+ * Re-run the Rocket Engine pipeline with sampled inputs. Bands are kept per
+ * asset id, since the top-ranked asset can change from run to run; how often
+ * each asset ranked first is reported separately. Yields to the event loop
+ * periodically so the UI stays responsive.
+ */
+export async function runMonteCarlo(
+  spec: MonteCarloSpec,
+  onProgress?: (done: number, total: number) => void
+): Promise<MonteCarloResult> {
+  const iterations = Math.max(1, Math.round(spec.iterations ?? 500));
+  const seed = spec.seed ?? 42;
+  const rng = seededRandom(seed);
+  const wanted = spec.assetIds && new Set(spec.assetIds);
+
+  const samples = new Map<string, AssetSamples>();
+  const tops = new Map<string, { title: string; count: number }>();
+  let completed = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    // Sample in a fixed order so a seed always maps to the same draws
+    const rawFeatures = spec.region.rawFeatures.map(f => ({
+      name: f.name,
+      category: f.category,
+      rarityScore: sample(f.rarityScore, rng),
+      relevanceScore: sample(f.relevanceScore, rng),
+      marketProxy: sample(f.marketProxy, rng)
+    }));
+    const regionAmbition = sample(spec.regionAmbition ?? 60, rng);
+    const regulatoryFriction = sample(spec.regulatoryFriction ?? 40, rng);
+    const capitalInvestmentUSD = sample(spec.capitalInvestmentUSD, rng);
+    const localContentShare = sample(spec.localContentShare, rng);
+
+    const res = await runOpportunityOrchestration({ ...spec.region, rawFeatures }, {
+      ivasProfile: spec.ivasProfile,
+      ivasContext: { regionAmbition, regulatoryFriction },
+      capitalInvestmentUSD,
+      scf: { ...(spec.years && { years: spec.years }), ...(localContentShare !== undefined && { localContentShare }) }
+    });
+    const entries = (res.details.portfolio as OpportunityPortfolio | null)?.entries || [];
+    if (entries.length) {
+      completed++;
+      entries.filter(e => !wanted || wanted.has(e.asset.id)).forEach(e => {
+        if (!samples.has(e.asset.id)) samples.set(e.asset.id, emptySamples(e.asset.title));
+        record(samples.get(e.asset.id)!, e);
+      });
+      const top = entries[0];
+      const seen = tops.get(top.asset.id);
+      tops.set(top.asset.id, { title: top.asset.title, count: (seen?.count ?? 0) + 1 });
+    }
+
+    if ((i + 1) % 50 === 0) {
+      onProgress?.(i + 1, iterations);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(iterations, iterations);
+
+  const runs = completed || 1;
+  const topAssets = [...tops.entries()]
+    .map(([id, t]) => ({ id, title: t.title, share: t.count / runs }))
+    .sort((a, b) => b.share - a.share);
+  const topShare = (id: string) => topAssets.find(a => a.id === id)?.share ?? 0;
+
+  return {
+    seed,
+    iterations,
+    assets: [...samples.entries()]
+      .map(([id, s]): AssetBands => ({
+        id,
+        title: s.title,
+        presence: s.ivasScores.length / runs,
+        ivasScore: percentiles(s.ivasScores),
+        activationMonths: percentiles(s.months),
+        totalJobs: percentiles(s.jobs),
+        totalImpactUSD: percentiles(s.impacts),
+        yearly: s.yearlyJobs.map((values, idx) => ({
+          year: idx + 1,
+          jobs: percentiles(values),
+          cumulativeImpactUSD: percentiles(s.yearlyImpact[idx])
+        }))
+      }))
+      .sort((a, b) => topShare(b.id) - topShare(a.id) || b.presence - a.presence),
+    topAssets
+  };
+}
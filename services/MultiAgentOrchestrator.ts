@@ -9,82 +9,104 @@ import type {
   MultiAgentOrchestratorConfig,
   RegionProfile
 } from '../types';
-import { GoogleGenAI } from "@google/genai";
-import { identifyLatentAssets } from './LAIWorker';
-import { computeIVAS } from './IVAS';
-import { runSCF } from './SCFEngine';
+import { createLLMProvider, type LLMProvider, type LLMCompletion, type LLMRequest } from './LLMProviders';
+import { buildConsensus, type JudgeFn } from './ConsensusEngine';
+import { BudgetExceededError, usageMeter } from './UsageMeter';
+import { createDefaultTaskStore, diffTaskAnalyses, TaskHistoryStore, type TaskDiff, type TaskHistoryFilter, type TaskRecord } from './TaskHistoryStore';
+import { identifyLatentAssets, type LAIOptions } from './LAIWorker';
+import { buildPortfolio, type PortfolioOptions } from './OpportunityPortfolio';
+import type { IVASContext } from './IVAS';
+
+const RETRY_BASE_DELAY_MS = 500;
+const RECENT_TASK_LIMIT = 50;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error('Task cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new Error('Task cancelled');
+};
 
-// Embedded Agent Implementation to avoid external dependencies in this demo
+// Agents delegate generation to a pluggable LLM provider (see LLMProviders.ts)
 class BaseAgent {
-  constructor(public config: AIAgentConfig) {}
-
-  async executeTask(task: MultiAgentTask): Promise<any> {
-    // Mock implementation for demo purposes
-    return {
-        content: `Analysis from ${this.config.provider} (${this.config.model}) on: ${task.prompt.substring(0, 50)}...`,
-        confidence: 0.85,
-        reasoning: "Based on available patterns and data analysis.",
-        tokensUsed: 150,
-        metadata: { source: this.config.provider }
-    };
+  constructor(public config: AIAgentConfig, protected provider: LLMProvider) {}
+
+  async executeTask(task: MultiAgentTask, signal?: AbortSignal): Promise<LLMCompletion> {
+    return this.generate({
+      prompt: task.prompt,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      signal
+    }, task.context?.reportId);
   }
-}
 
-class GoogleGeminiAgent extends BaseAgent {
-  private ai: GoogleGenAI;
-  
-  constructor(config: AIAgentConfig) {
-      super(config);
-      this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+  async generate(request: LLMRequest, reportId?: string): Promise<LLMCompletion> {
+    const metered = !this.provider.id.startsWith('mock:');
+    const attribution = { module: `orchestrator:${this.config.provider}`, reportId: usageMeter.resolveReportId({ reportId }) };
+    if (metered) usageMeter.assertWithinBudget(attribution.reportId);
+
+    const completion = await this.provider.generate(request);
+    if (metered) {
+      usageMeter.record({ model: this.config.model, inputTokens: completion.inputTokens, outputTokens: completion.outputTokens, ...attribution });
+    }
+    return completion;
   }
+}
 
-  async executeTask(task: MultiAgentTask): Promise<any> {
-      // Real Gemini implementation
-      try {
-          const response = await this.ai.models.generateContent({
-              model: this.config.model === 'gemini-pro' ? 'gemini-2.5-flash' : this.config.model, // Map legacy names
-              contents: task.prompt,
-          });
-          return {
-              content: response.text,
-              confidence: 0.9,
-              reasoning: "Generated via Gemini 2.5 Flash model",
-              tokensUsed: 0,
-              metadata: { source: 'Gemini API' }
-          };
-      } catch (e) {
-          console.error("Gemini Agent Error", e);
-          return super.executeTask(task); // Fallback
-      }
+class GoogleGeminiAgent extends BaseAgent {
+  constructor(config: AIAgentConfig, offline = false) {
+    super(config, createLLMProvider(config, { offline }));
   }
 }
 
 class OpenAIAgent extends BaseAgent {
-    // Simulating OpenAI behavior
+  constructor(config: AIAgentConfig, offline = false) {
+    super(config, createLLMProvider(config, { offline }));
+  }
 }
 
 class AnthropicClaudeAgent extends BaseAgent {
-    // Simulating Claude behavior
+  constructor(config: AIAgentConfig, offline = false) {
+    super(config, createLLMProvider(config, { offline }));
+  }
 }
 
 export class MultiAgentOrchestrator {
-  private agents: Map<string, any> = new Map();
+  private agents: Map<string, BaseAgent> = new Map();
   private config: MultiAgentOrchestratorConfig;
   private activeTasks: Map<string, MultiAgentAnalysis> = new Map();
+  private recentTasks: Map<string, MultiAgentAnalysis> = new Map();
+  private history: TaskHistoryStore;
   private agentHealth: Map<string, AgentHealthStatus> = new Map();
+  private taskControllers: Map<string, AbortController> = new Map();
+  private runningTasks = 0;
+  private slotQueue: Array<() => void> = [];
 
-  constructor(config: MultiAgentOrchestratorConfig) {
+  constructor(config: MultiAgentOrchestratorConfig, history: TaskHistoryStore = createDefaultTaskStore()) {
     this.config = config;
+    this.history = history;
     this.initializeAgents();
   }
 
   private initializeAgents(): void {
+    // Offline mode replays recorded fixtures for every provider, no keys needed
+    const offline = this.config.offlineMode ?? process.env.NEXUS_OFFLINE === 'true';
+
     // Initialize Google Gemini Agent
-    if (process.env.API_KEY) {
+    if (process.env.API_KEY || offline) {
       const geminiConfig: AIAgentConfig = {
         provider: 'google-gemini',
         model: 'gemini-2.5-flash',
-        apiKey: process.env.API_KEY,
+        apiKey: process.env.API_KEY || '',
         temperature: 0.7,
         maxTokens: 4096,
         enabled: true,
@@ -92,38 +114,40 @@ export class MultiAgentOrchestrator {
         specializations: ['analysis', 'research', 'creative-writing'],
         rateLimits: { requestsPerMinute: 60, requestsPerHour: 1000 }
       };
-      this.agents.set('gemini-pro', new GoogleGeminiAgent(geminiConfig));
+      this.agents.set('gemini-pro', new GoogleGeminiAgent(geminiConfig, offline));
     }
 
-    // Initialize Virtual OpenAI Agent (Mock)
-    const openaiConfig: AIAgentConfig = {
-      provider: 'openai-gpt',
-      model: 'gpt-4',
-      apiKey: 'mock-key',
-      temperature: 0.7,
-      maxTokens: 4096,
-      enabled: true,
-      priority: 4,
-      specializations: ['reasoning', 'data-analysis', 'validation'],
-      rateLimits: { requestsPerMinute: 50, requestsPerHour: 200 }
-    };
-    this.agents.set('gpt-4', new OpenAIAgent(openaiConfig));
-    
-
-    // Initialize Virtual Claude Agent (Mock)
-    const claudeConfig: AIAgentConfig = {
-      provider: 'anthropic-claude',
-      model: 'claude-3-sonnet-20240229',
-      apiKey: 'mock-key',
-      temperature: 0.7,
-      maxTokens: 4096,
-      enabled: true,
-      priority: 4,
-      specializations: ['ethical-analysis', 'safety-checks', 'long-form-content'],
-      rateLimits: { requestsPerMinute: 50, requestsPerHour: 200 }
-    };
-    this.agents.set('claude-3', new AnthropicClaudeAgent(claudeConfig));
-    
+    // Initialize OpenAI Agent
+    if (process.env.OPENAI_API_KEY || offline) {
+      const openaiConfig: AIAgentConfig = {
+        provider: 'openai-gpt',
+        model: 'gpt-4o',
+        apiKey: process.env.OPENAI_API_KEY || '',
+        temperature: 0.7,
+        maxTokens: 4096,
+        enabled: true,
+        priority: 4,
+        specializations: ['reasoning', 'data-analysis', 'validation'],
+        rateLimits: { requestsPerMinute: 50, requestsPerHour: 200 }
+      };
+      this.agents.set('gpt-4', new OpenAIAgent(openaiConfig, offline));
+    }
+
+    // Initialize Claude Agent
+    if (process.env.ANTHROPIC_API_KEY || offline) {
+      const claudeConfig: AIAgentConfig = {
+        provider: 'anthropic-claude',
+        model: 'claude-sonnet-4-20250514',
+        apiKey: process.env.ANTHROPIC_API_KEY || '',
+        temperature: 0.7,
+        maxTokens: 4096,
+        enabled: true,
+        priority: 4,
+        specializations: ['ethical-analysis', 'safety-checks', 'long-form-content'],
+        rateLimits: { requestsPerMinute: 50, requestsPerHour: 200 }
+      };
+      this.agents.set('claude-3', new AnthropicClaudeAgent(claudeConfig, offline));
+    }
 
     // Initialize health monitoring for all agents
     for (const [agentId, agent] of this.agents) {
@@ -139,87 +163,221 @@ export class MultiAgentOrchestrator {
     }
   }
 
-  async executeTask(task: MultiAgentTask): Promise<MultiAgentAnalysis> {
+  async executeTask(task: MultiAgentTask, options: { signal?: AbortSignal; replayOf?: string } = {}): Promise<MultiAgentAnalysis> {
     const analysis: MultiAgentAnalysis = {
       task,
       responses: [],
       consensus: {} as ConsensusResult,
-      status: 'processing',
+      status: 'queued',
       startTime: new Date().toISOString()
     };
 
+    // Task-level controller so cancelTask() and the caller's signal both abort in-flight agent calls
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onCallerAbort);
+    if (options.signal?.aborted) controller.abort();
+
     this.activeTasks.set(task.id, analysis);
+    this.taskControllers.set(task.id, controller);
 
     try {
-      // Select agents for this task
-      const selectedAgents = this.selectAgentsForTask(task);
+      await this.acquireSlot(controller.signal);
+      analysis.status = 'processing';
 
-      if (selectedAgents.length === 0) {
-        throw new Error('No suitable agents available for this task');
-      }
+      try {
+        // Select agents for this task
+        const selectedAgents = this.selectAgentsForTask(task);
 
-      // Execute task on selected agents in parallel
-      const responsePromises = selectedAgents.map(async (agentId) => {
-        const agent = this.agents.get(agentId);
-        if (!agent) return null;
-
-        try {
-          const startTime = Date.now();
-          const response = await agent.executeTask(task);
-          const processingTime = Date.now() - startTime;
-
-          // Update agent health
-          this.updateAgentHealth(agentId, true, processingTime);
-
-          return {
-            agentId,
-            provider: agent.config.provider,
-            model: agent.config.model,
-            content: response.content,
-            confidence: response.confidence || 0.8,
-            reasoning: response.reasoning || '',
-            processingTime,
-            tokensUsed: response.tokensUsed || 0,
-            timestamp: new Date().toISOString(),
-            metadata: response.metadata
-          } as AgentResponse;
-        } catch (error) {
-          console.error(`Agent ${agentId} failed:`, error);
-          this.updateAgentHealth(agentId, false, 0);
-          return null;
+        if (selectedAgents.length === 0) {
+          throw new Error('No suitable agents available for this task');
         }
-      });
 
-      // Wait for all responses with timeout
-      const responses = await Promise.race([
-        Promise.all(responsePromises),
-        new Promise<AgentResponse[]>((_, reject) =>
-          setTimeout(() => reject(new Error('Task timeout')), task.timeout)
-        )
-      ]);
+        // Each agent gets its own deadline; whatever finishes in time is kept
+        const settled = await Promise.all(
+          selectedAgents.map(agentId => this.runAgentWithRetry(agentId, task, controller.signal))
+        );
+        analysis.responses = settled.filter((r): r is AgentResponse => r !== null);
 
-      // Filter out failed responses
-      analysis.responses = responses.filter((r): r is AgentResponse => r !== null);
+        if (analysis.responses.length === 0 && this.config.fallbackToSingleAgent) {
+          analysis.responses = await this.runSingleAgentFallback(task, selectedAgents, controller.signal);
+        }
 
-      if (analysis.responses.length === 0) {
-        throw new Error('All agents failed to respond');
-      }
+        throwIfAborted(controller.signal);
 
-      // Generate consensus
-      analysis.consensus = await this.generateConsensus(analysis.responses, task);
-      analysis.status = 'completed';
-      analysis.endTime = new Date().toISOString();
+        if (analysis.responses.length === 0) {
+          throw new Error('All agents failed to respond');
+        }
 
+        // Generate consensus
+        analysis.consensus = await this.generateConsensus(analysis.responses, task);
+        analysis.status = 'completed';
+      } finally {
+        this.releaseSlot();
+      }
     } catch (error) {
-      analysis.status = 'failed';
-      analysis.error = error instanceof Error ? error.message : 'Unknown error';
+      if (controller.signal.aborted) {
+        analysis.status = 'cancelled';
+        analysis.error = 'Task cancelled';
+      } else {
+        analysis.status = 'failed';
+        analysis.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    } finally {
       analysis.endTime = new Date().toISOString();
+      options.signal?.removeEventListener('abort', onCallerAbort);
+      this.taskControllers.delete(task.id);
     }
 
-    this.activeTasks.set(task.id, analysis);
+    // Finished tasks leave the active map; the store keeps the full record
+    this.activeTasks.delete(task.id);
+    this.rememberRecent(analysis);
+    try {
+      await this.history.record(analysis, options.replayOf);
+    } catch (e) {
+      console.error(`Failed to record task ${task.id}`, e);
+    }
     return analysis;
   }
 
+  private rememberRecent(analysis: MultiAgentAnalysis): void {
+    this.recentTasks.delete(analysis.task.id);
+    this.recentTasks.set(analysis.task.id, analysis);
+    if (this.recentTasks.size > RECENT_TASK_LIMIT) {
+      const oldest = this.recentTasks.keys().next().value;
+      if (oldest !== undefined) this.recentTasks.delete(oldest);
+    }
+  }
+
+  /**
+   * Re-run a recorded task against the agents configured now and compare the
+   * outcome with what was stored.
+   */
+  async replayTask(taskId: string, options: { signal?: AbortSignal } = {}): Promise<{ original: TaskRecord; replay: MultiAgentAnalysis; diff: TaskDiff }> {
+    const original = await this.history.get(taskId);
+    if (!original) throw new Error(`No recorded task with id ${taskId}`);
+
+    const task: MultiAgentTask = { ...original.analysis.task, id: `${taskId}-replay-${Date.now()}` };
+    const replay = await this.executeTask(task, { signal: options.signal, replayOf: taskId });
+    return { original, replay, diff: diffTaskAnalyses(original.analysis, replay) };
+  }
+
+  getTaskHistory(filter?: TaskHistoryFilter): Promise<TaskRecord[]> {
+    return this.history.list(filter);
+  }
+
+  /**
+   * Abort a running or queued task. Agent calls in flight are aborted and the
+   * task resolves with status 'cancelled'.
+   */
+  cancelTask(taskId: string): boolean {
+    const controller = this.taskControllers.get(taskId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  private async runAgentWithRetry(agentId: string, task: MultiAgentTask, signal: AbortSignal): Promise<AgentResponse | null> {
+    const agent = this.agents.get(agentId);
+    if (!agent) return null;
+
+    const deadline = Date.now() + task.timeout;
+
+    for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
+      if (signal.aborted || Date.now() >= deadline) break;
+
+      const attemptController = new AbortController();
+      const onAbort = () => attemptController.abort();
+      signal.addEventListener('abort', onAbort);
+      const timer = setTimeout(() => attemptController.abort(), deadline - Date.now());
+
+      try {
+        const startTime = Date.now();
+        const response = await agent.executeTask(task, attemptController.signal);
+        const processingTime = Date.now() - startTime;
+
+        // Update agent health
+        this.updateAgentHealth(agentId, true, processingTime);
+
+        return {
+          agentId,
+          provider: agent.config.provider,
+          model: agent.config.model,
+          content: response.content,
+          confidence: response.confidence ?? 0.8,
+          reasoning: response.reasoning || '',
+          processingTime,
+          tokensUsed: response.tokensUsed || 0,
+          timestamp: new Date().toISOString(),
+          metadata: { ...response.metadata, attempts: attempt + 1 }
+        };
+      } catch (error) {
+        if (signal.aborted) break;
+        if (error instanceof BudgetExceededError) {
+          console.warn(error.message);
+          break;
+        }
+        console.error(`Agent ${agentId} failed (attempt ${attempt + 1}):`, error);
+        this.updateAgentHealth(agentId, false, 0);
+      } finally {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+      }
+
+      if (attempt < this.config.retryAttempts) {
+        // Exponential backoff with jitter, never sleeping past the deadline
+        const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS, deadline - Date.now());
+        if (backoff <= 0) break;
+        await sleep(backoff, signal).catch(() => undefined);
+      }
+    }
+
+    return null;
+  }
+
+  // Try the remaining healthy agents one at a time until one answers
+  private async runSingleAgentFallback(task: MultiAgentTask, alreadyTried: string[], signal: AbortSignal): Promise<AgentResponse[]> {
+    const candidates = this.selectAgentsForTask({ ...task, requiredAgents: this.agents.size })
+      .filter(agentId => !alreadyTried.includes(agentId));
+
+    for (const agentId of candidates) {
+      if (signal.aborted) break;
+      const response = await this.runAgentWithRetry(agentId, task, signal);
+      if (response) return [response];
+    }
+    return [];
+  }
+
+  // --- Concurrency limiting (maxParallelTasks) ---
+
+  private async acquireSlot(signal: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    if (this.runningTasks < this.config.maxParallelTasks) {
+      this.runningTasks++;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotQueue = this.slotQueue.filter(w => w !== waiter);
+        reject(new Error('Task cancelled'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.slotQueue.push(waiter);
+    });
+  }
+
+  private releaseSlot(): void {
+    // Hand the slot straight to the next queued task, if any
+    const next = this.slotQueue.shift();
+    if (next) next();
+    else this.runningTasks--;
+  }
+
   private selectAgentsForTask(task: MultiAgentTask): string[] {
     const enabledAgents = Array.from(this.agents.keys()).filter(agentId => {
       const health = this.agentHealth.get(agentId);
@@ -230,8 +388,8 @@ export class MultiAgentOrchestrator {
     const sortedAgents = enabledAgents.sort((a, b) => {
       const healthA = this.agentHealth.get(a)!;
       const healthB = this.agentHealth.get(b)!;
-      const agentA = this.agents.get(a);
-      const agentB = this.agents.get(b);
+      const agentA = this.agents.get(a)!;
+      const agentB = this.agents.get(b)!;
 
       // Primary sort: priority
       if (agentA.config.priority !== agentB.config.priority) {
@@ -249,55 +407,18 @@ export class MultiAgentOrchestrator {
   }
 
   private async generateConsensus(responses: AgentResponse[], task: MultiAgentTask): Promise<ConsensusResult> {
-    const participatingAgents = responses.map(r => r.agentId);
-
-    // Simple majority vote consensus
-    if (responses.length === 1) {
-      return {
-        consensusContent: responses[0].content,
-        confidence: responses[0].confidence,
-        agreementLevel: 'unanimous',
-        participatingAgents,
-        dissentingOpinions: [],
-        metadata: {
-          totalAgents: 1,
-          consensusMethod: task.consensusMethod,
-          processingTime: responses[0].processingTime
-        }
-      };
-    }
+    return buildConsensus(responses, task.consensusMethod, {
+      minThreshold: this.config.minConsensusThreshold,
+      judge: this.getJudge()
+    });
+  }
 
-    // For multiple responses, use confidence-weighted consensus
-    const totalConfidence = responses.reduce((sum, r) => sum + r.confidence, 0);
-    
-    // Use highest confidence response as primary consensus
-    const primaryResponse = responses.reduce((best, current) =>
-      current.confidence > best.confidence ? current : best
-    );
-
-    const dissentingOpinions = responses
-      .filter(r => r.agentId !== primaryResponse.agentId)
-      .map(r => ({
-        agentId: r.agentId,
-        alternativeContent: r.content,
-        reasoning: r.reasoning
-      }));
-
-    const agreementLevel = dissentingOpinions.length === 0 ? 'unanimous' :
-                          dissentingOpinions.length < responses.length / 2 ? 'majority' : 'split';
-
-    return {
-      consensusContent: primaryResponse.content,
-      confidence: totalConfidence / responses.length,
-      agreementLevel,
-      participatingAgents,
-      dissentingOpinions,
-      metadata: {
-        totalAgents: responses.length,
-        consensusMethod: task.consensusMethod,
-        processingTime: responses.reduce((sum, r) => sum + r.processingTime, 0) / responses.length
-      }
-    };
+  // The judge is the highest-ranked healthy agent, asked for a JSON verdict
+  private getJudge(): JudgeFn | undefined {
+    const [judgeId] = this.selectAgentsForTask({ requiredAgents: 1 } as MultiAgentTask);
+    const judge = judgeId ? this.agents.get(judgeId) : undefined;
+    if (!judge) return undefined;
+    return (prompt: string) => judge.generate({ prompt, temperature: 0, responseFormat: 'json' });
   }
 
   private updateAgentHealth(agentId: string, success: boolean, responseTime: number): void {
@@ -333,7 +454,7 @@ export class MultiAgentOrchestrator {
   }
 
   getTaskStatus(taskId: string): MultiAgentAnalysis | undefined {
-    return this.activeTasks.get(taskId);
+    return this.activeTasks.get(taskId) ?? this.recentTasks.get(taskId);
   }
 
   updateConfig(newConfig: Partial<MultiAgentOrchestratorConfig>): void {
@@ -376,28 +497,32 @@ export type OrchResult = {
 /**
  * Orchestrate a simple pipeline:
  * 1) LAI candidates
- * 2) Compute IVAS for top candidate
- * 3) Run SCF on baseline investment
+ * 2) IVAS and SCF for every candidate
+ * 3) Rank into a portfolio; the top entry is reported as the headline asset
  */
-export async function runOpportunityOrchestration(region: RegionProfile): Promise<OrchResult> {
+export async function runOpportunityOrchestration(
+  region: RegionProfile,
+  options: { ivasProfile?: string; ivasContext?: IVASContext; lai?: LAIOptions; capitalInvestmentUSD?: number; scf?: PortfolioOptions['scf'] } = {}
+): Promise<OrchResult> {
   // Step 1: LAI
-  const lais = identifyLatentAssets(region);
-  const top = lais[0];
-  
-  if (!top) {
+  const lais = identifyLatentAssets(region, options.lai);
+
+  if (!lais.length) {
       // Fallback if no latent assets found
       return { 
           nsilOutput: '<nsil:error>No latent assets identified for this region profile.</nsil:error>', 
-          details: { lais: [], ivas: null, scf: null } 
+          details: { lais: [], ivas: null, ivasSensitivity: null, scf: null, portfolio: null } 
       };
   }
 
-  // Step 2: IVAS (context extracted from region)
-  const ivas = computeIVAS(top, { regionAmbition: 60, regulatoryFriction: 40 });
-  
-  // Step 3: SCF baseline (use IVAS activationMonths to estimate capital scale)
-  const scfInput = { capitalInvestmentUSD: Math.max(1000000, top.marketEstimateUSD * 1000), localLaborShare: 0.5, supplyChainLocalMultiplier: 1.6, years: 5 };
-  const scf = runSCF(scfInput);
+  // Steps 2-3: score every candidate (context extracted from region)
+  const portfolio = buildPortfolio(lais, {
+    ivasProfile: options.ivasProfile,
+    ivasContext: options.ivasContext ?? { regionAmbition: 60, regulatoryFriction: 40 },
+    capitalInvestmentUSD: options.capitalInvestmentUSD,
+    scf: { region: region.country || region.name, ...options.scf }
+  });
+  const { asset: top, ivas, sensitivity, scf } = portfolio.entries[0];
 
   // Produce NSIL snippet
   const nsil = `
@@ -406,13 +531,16 @@ export async function runOpportunityOrchestration(region: RegionProfile): Promis
   <nsil:description>${top.description}</nsil:description>
   <nsil:components>${top.components.join(', ')}</nsil:components>
   <nsil:market_estimate>${top.marketEstimateUSD}</nsil:market_estimate>
-  <nsil:ivas_score>${ivas.ivasScore}</nsil:ivas_score>
+  <nsil:ivas_score profile="${ivas.profile}">${ivas.ivasScore}</nsil:ivas_score>
   <nsil:activation_months>${ivas.activationMonths}</nsil:activation_months>
   <nsil:scf_total_impact>${scf.totalEconomicImpactUSD}</nsil:scf_total_impact>
 </nsil:latent_asset_identified>
+<nsil:opportunity_portfolio capital_source="${portfolio.capitalSource}">
+${portfolio.entries.map(e => `  <nsil:opportunity rank="${e.rank}" ref="${e.asset.id}" frontier_layer="${e.frontierLayer}" ivas="${e.ivas.ivasScore}" activation_months="${e.ivas.activationMonths}" capital="${e.capitalUSD}" impact="${e.scf.totalEconomicImpactUSD}"/>`).join('\n')}
+</nsil:opportunity_portfolio>
   `.trim();
 
-  return { nsilOutput: nsil, details: { lais, ivas, scf } };
+  return { nsilOutput: nsil, details: { lais, ivas, ivasSensitivity: sensitivity, scf, portfolio } };
 }
 
 export default MultiAgentOrchestrator;
@@ -8,81 +8,238 @@ import type {
   NSIL_Match,
   NSIL_LQ_Analysis,
   NSIL_ClusterAnalysis,
+  NSIL_G2GAlignment,
   NSIL_FutureCast,
   FinancialFeasibility,
   DevelopmentBankAlignment,
   ClimateImpactProjection,
   GeopoliticalInstabilityForecast,
   PolicyRecommendation,
-  ESG_Framework
+  ESG_Framework,
+  GeopoliticalAnalysisResult,
+  GovernanceAuditResult,
+  RROI_Index
 } from '../types';
+import { serializeNSIL, nsilSectionResponseSchema, nsilSectionValidator, type NSILSection } from './NSILXml';
+import { renderNSIL } from './NSILRenderers';
+import { generateStructured } from './aiGateway';
+import { fingerprintPrompt } from './LLMProviders';
+import { computeURPIndex } from './URPIndex';
+import { runSCF } from './SCFEngine';
+import { documentContext, retrieveSources, sourceAttribution, type RetrievedSource } from './DocumentCorpus';
+
+// Spend used to quote SCF jobs and output per unit of investment
+const REFERENCE_INVESTMENT_USD = 100_000_000;
+
+const SECTION_BRIEFS: Record<NSILSection, string> = {
+  executive_summary: 'Executive summary. Give 3-5 key findings specific to this engagement and a strategic outlook paragraph. overall_score is set from the URP Index; return your best estimate (0-100).',
+  match_score: 'Partner match score (0-100) with confidence and a rationale that cites the engagement context.',
+  match: 'Best-fit partner profile for the ideal partner described, with synergy analysis (strategic_alignment 0-100) and a risk map (levels 1-5 per category).',
+  lq_analysis: 'Location quotient analysis for each target industry: LQ value (1.0 = national average), interpretation, benchmark regions with their LQ in brackets, and implications.',
+  cluster_analysis: 'Industrial cluster analysis: anchor industry, supporting sectors, supply chain gaps, growth potential (0-100) and regional advantages.',
+  g2g_alignment: 'Government-to-government alignment between the client government (home) and the target government (partner): overall alignment_score (0-100); treaty, FTA, investment and tax agreements both are party to, with type and status; alignment (0-100) on each shared policy priority; recent diplomatic relationship signals; and joint programme opportunities with lead agencies and funding sources. Only cite agreements that exist or are publicly under negotiation.',
+  future_cast: '2-3 plausible future scenarios with drivers, regional impact (positive, negative or mixed), a recommendation and probability (0-100), plus key uncertainties and recommended actions.',
+  financial_feasibility: 'Financial feasibility for a representative project: IRR and risk-adjusted return in percent, NPV and funding requirements in USD, payback period in years, and yearly ROI projections for 5 years. Keep economic impact consistent with the SCF figures.',
+  development_bank_alignment: 'Development banks whose mandates fit this engagement: mandate match (0-100), eligible programmes, application requirements and success probability (0-100).',
+  climate_impact: 'Climate impact projection for the target region: timeframe, physical risks, economic impacts in USD and mitigation strategies.',
+  geopolitical_forecast: 'Geopolitical instability forecast: current stability (0-100), emerging risks with probability (0-100), timeline and impact, early warning indicators and contingency planning.',
+  policy_recommendations: 'Policy recommendations addressing the weakest URP metrics: policy area, current gap, actions, successful examples elsewhere, timeline and expected impact.',
+  esg_framework: 'ESG framework: environmental, social and governance scores (0-100), key indicators with current and target values, and compliance status against relevant standards.'
+};
+
+// Sections already generated for a report, keyed by report, section and prompt
+const sectionCache = new Map<string, unknown>();
+
+type SectionContext = {
+  params: ReportParameters;
+  mode: AnalysisMode;
+  brief: string; // engagement context, engine figures, module findings and retrieved passages, shared by every section
+  sources: RetrievedSource[];
+  urpScore: number; // 0-100
+  fallbacks: NSILSection[];
+  signal?: AbortSignal;
+};
+
+/** Outputs of the mission's earlier analysis modules that the report builds on. */
+export type ModuleFindings = {
+  rroi?: RROI_Index;
+  geopolitics?: GeopoliticalAnalysisResult;
+  governanceAudit?: GovernanceAuditResult;
+};
+
+const list = (values?: string[]) => values?.filter(Boolean).join(', ') || 'not specified';
+
+/** One line per module finding. Placeholder results from failed modules are left out. */
+export function describeFindings({ rroi, geopolitics, governanceAudit }: ModuleFindings): string[] {
+  const live = <T extends { provenance?: string }>(result?: T) => result && result.provenance !== 'fallback' ? result : undefined;
+  const r = live(rroi);
+  const geo = live(geopolitics);
+  const audit = live(governanceAudit);
+  return [
+    r && `RROI ${r.overallScore}/100: ${r.summary} (${Object.values(r.components).map(c => `${c.name} ${c.score}`).join(', ')})`,
+    geo && `Geopolitical stability ${geo.stabilityScore}/100, currency risk ${geo.currencyRisk}, inflation ${geo.inflationTrend}: ${geo.forecast}`,
+    audit && `Governance ${audit.governanceScore}/100, corruption risk ${audit.corruptionRisk}; red flags: ${audit.redFlags.join('; ') || 'none'}`
+  ].filter((line): line is string => !!line);
+}
 
 // NSIL v6.0 Processor - Core Intelligence Structuring Engine
 export class NSILProcessor {
 
-  static async generateNSILReport(params: ReportParameters, mode: AnalysisMode): Promise<NSIL_Report> {
-    const report: NSIL_Report = {
-      mode,
-      executive_summary: await this.generateExecutiveSummary(params, mode),
-      source_attribution: this.generateSourceAttribution(params),
+  static async generateNSILReport(params: ReportParameters, mode: AnalysisMode, findings: ModuleFindings = {}, signal?: AbortSignal): Promise<NSIL_Report> {
+    const ctx = await this.buildContext(params, mode, findings, signal);
+
+    // Body sections are independent; the summary is written once they exist
+    const sections: Partial<NSIL_Report> = {};
+    const tasks: Promise<void>[] = [];
+    const add = <K extends NSILSection>(section: K, generator: Promise<NSIL_Report[K]>) => {
+      tasks.push(generator.then(value => { sections[section] = value; }));
     };
 
     // Add mode-specific content
     if (mode === 'matchmaking') {
-      report.match_score = await this.generateMatchScore(params);
-      report.match = await this.generateMatchAnalysis(params);
+      add('match_score', this.generateMatchScore(ctx));
+      add('match', this.generateMatchAnalysis(ctx));
     } else if (mode === 'market_analysis') {
-      report.lq_analysis = await this.generateLQAnalysis(params);
-      report.cluster_analysis = await this.generateClusterAnalysis(params);
+      add('lq_analysis', this.generateLQAnalysis(ctx));
+      add('cluster_analysis', this.generateClusterAnalysis(ctx));
     } else if (mode === 'g2g_alignment') {
-      // G2G specific content would go here
+      add('g2g_alignment', this.generateG2GAlignment(ctx));
     }
 
     // Add future casting for all modes
-    report.future_cast = await this.generateFutureCast(params);
+    add('future_cast', this.generateFutureCast(ctx));
 
     // Add advanced layers based on tier
     if (params.tier.includes('Global') || params.tier.includes('Impact')) {
-      report.financial_feasibility = await this.generateFinancialAnalysis(params);
-      report.development_bank_alignment = await this.generateBankAlignment(params);
-      report.climate_impact = await this.generateClimateImpact(params);
-      report.geopolitical_forecast = await this.generateGeopoliticalForecast(params);
-      report.policy_recommendations = await this.generatePolicyRecommendations(params);
-      report.esg_framework = await this.generateESGFramework(params);
+      add('financial_feasibility', this.generateFinancialAnalysis(ctx));
+      add('development_bank_alignment', this.generateBankAlignment(ctx));
+      add('climate_impact', this.generateClimateImpact(ctx));
+      add('geopolitical_forecast', this.generateGeopoliticalForecast(ctx));
+      add('policy_recommendations', this.generatePolicyRecommendations(ctx));
+      add('esg_framework', this.generateESGFramework(ctx));
     }
+    await Promise.all(tasks);
 
+    const report: NSIL_Report = {
+      mode,
+      executive_summary: await this.generateExecutiveSummary(ctx, sections),
+      ...sections,
+      source_attribution: this.generateSourceAttribution(ctx),
+    };
+    if (ctx.fallbacks.length) report.fallback_sections = (Object.keys(SECTION_BRIEFS) as NSILSection[]).filter(s => ctx.fallbacks.includes(s));
     return report;
   }
 
-  private static async generateExecutiveSummary(params: ReportParameters, mode: AnalysisMode): Promise<NSIL_ExecutiveSummary> {
-    // AI-powered executive summary generation
-    const overallScore = mode === 'g2g_alignment' ? 82 :
-                        params.tier.includes('Global') ? 85 :
-                        params.tier.includes('Regional') ? 78 : 75;
+  static clearSectionCache(reportId?: string) {
+    if (!reportId) return sectionCache.clear();
+    [...sectionCache.keys()].filter(k => k.startsWith(`${reportId}:`)).forEach(k => sectionCache.delete(k));
+  }
+
+  // Engagement context, deterministic engine figures, module findings and retrieved passages every section is grounded in
+  private static async buildContext(params: ReportParameters, mode: AnalysisMode, findings: ModuleFindings, signal?: AbortSignal): Promise<SectionContext> {
+    const urp = computeURPIndex(params);
+    const place = params.country || params.region;
+    let scfLine = 'SCF: unavailable for this region.';
+    try {
+      const scf = runSCF({ capitalInvestmentUSD: REFERENCE_INVESTMENT_USD, region: place });
+      const jobs = scf.directJobs + scf.indirectJobs + scf.inducedJobs;
+      scfLine = `SCF (IO table ${scf.ioTable.id} v${scf.ioTable.version}, $${REFERENCE_INVESTMENT_USD / 1e6}M over 5 years): Type II output multiplier ${scf.multipliers.typeII.output}, GDP multiplier ${scf.multipliers.typeII.gdp}, ${jobs} jobs sustained per year, total output $${Math.round(scf.totalEconomicImpactUSD / 1e6)}M, tax revenue $${Math.round(scf.taxRevenueUSD / 1e6)}M.`;
+    } catch (e) {
+      console.error("NSIL SCF grounding error", e);
+    }
+
+    const brief = `
+Engagement:
+- Organisation: ${params.organizationType}${params.organizationSubType ? ` (${params.organizationSubType})` : ''}, based in ${params.userCountry || 'not specified'}
+${params.governmentLevel ? `- Government level: ${params.governmentLevel}\n` : ''}- Target: ${params.region}${params.country ? `, ${params.country}` : ''}
+- Industries: ${list([...params.industry, params.customIndustry])}
+- Analysis mode: ${mode}; tier: ${list(params.tier)}
+- Problem statement: ${params.refinedProblemStatement || params.problemStatement || 'not specified'}
+- Strategic objectives: ${list(params.strategicObjectives)}
+- Ideal partner: ${params.idealPartnerProfile || 'not specified'}
+- Timeframe: ${params.analysisTimeframe || 'not specified'}; expansion timeline: ${params.expansionTimeline || 'not specified'}
+- Risk tolerance: ${params.riskTolerance || 'not specified'}
+${params.additionalContext ? `- Additional context: ${params.additionalContext}\n` : ''}
+Engine figures (authoritative; use them as given, do not contradict them):
+- URP Index ${urp.urpIndex}/10. ${urp.breakdown}
+- ${scfLine}`;
+    const findingLines = describeFindings(findings);
+    const moduleBrief = findingLines.length ? `
+
+Module findings from this mission (keep the report consistent with them):
+${findingLines.map(l => `- ${l}`).join('\n')}` : '';
+
+    const sources = await retrieveSources(params, `${place} ${list([...params.industry, params.customIndustry])} ${params.refinedProblemStatement || params.problemStatement} ${list(params.strategicObjectives)}`);
+    return { params, mode, brief: brief + moduleBrief + documentContext(sources), sources, urpScore: Math.round(urp.urpIndex * 10), fallbacks: [], signal };
+  }
+
+  /**
+   * One structured model call per section, validated against the NSIL spec.
+   * Failures return the placeholder and mark the section on the report.
+   */
+  private static async generateSection<K extends NSILSection>(
+    ctx: SectionContext,
+    section: K,
+    fallback: () => NonNullable<NSIL_Report[K]>,
+    extra = ''
+  ): Promise<NonNullable<NSIL_Report[K]>> {
+    const prompt = `You are writing the "${section}" section of an NSIL 6.0 strategic intelligence report.
+${SECTION_BRIEFS[section]}
+Be specific to the engagement below; avoid generic statements that would fit any region or client.
+${ctx.brief}${extra}
 
-    return {
-      overall_score: overallScore,
+Return only JSON for this section.`;
+
+    const key = `${ctx.params.reportId}:${section}:${fingerprintPrompt(prompt)}`;
+    if (sectionCache.has(key)) return sectionCache.get(key) as NonNullable<NSIL_Report[K]>;
+
+    try {
+      const result = await generateStructured<NonNullable<NSIL_Report[K]>>({
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        config: {
+          abortSignal: ctx.signal,
+          responseMimeType: 'application/json',
+          responseSchema: nsilSectionResponseSchema(section)
+        }
+      }, { module: `nsil-${section}`, reportId: ctx.params.reportId, capability: 'structured', validate: nsilSectionValidator(section) });
+      sectionCache.set(key, result);
+      return result;
+    } catch (e) {
+      if (ctx.signal?.aborted) throw e;
+      console.error(`NSIL ${section} generation error`, e);
+      ctx.fallbacks.push(section);
+      return fallback();
+    }
+  }
+
+  private static async generateExecutiveSummary(ctx: SectionContext, sections: Partial<NSIL_Report>): Promise<NSIL_ExecutiveSummary> {
+    const generated = JSON.stringify(Object.fromEntries(Object.entries(sections).filter(([k]) => !ctx.fallbacks.includes(k as NSILSection))));
+    const summary = await this.generateSection(ctx, 'executive_summary', () => ({
+      overall_score: ctx.urpScore,
       key_findings: [
-        `Strong ${mode === 'matchmaking' ? 'strategic alignment' : 'market potential'} identified`,
+        `Strong ${ctx.mode === 'matchmaking' ? 'strategic alignment' : ctx.mode === 'g2g_alignment' ? 'bilateral alignment' : 'market potential'} identified`,
         'Regional competitive advantages confirmed',
         'Clear implementation roadmap established'
       ],
-      strategic_outlook: `The analysis indicates ${overallScore > 80 ? 'excellent' : 'good'} potential for strategic ${mode} initiatives in the target region.`
-    };
+      strategic_outlook: `The analysis indicates ${ctx.urpScore > 80 ? 'excellent' : 'good'} potential for strategic ${ctx.mode} initiatives in the target region.`
+    }), `\n\nReport sections to summarise:\n${generated.slice(0, 8000)}`);
+    // The headline score always comes from the URP Index, never the model
+    return { ...summary, overall_score: ctx.urpScore };
   }
 
-  private static async generateMatchScore(params: ReportParameters): Promise<NSIL_MatchScore> {
-    return {
+  private static async generateMatchScore(ctx: SectionContext): Promise<NSIL_MatchScore> {
+    return this.generateSection(ctx, 'match_score', () => ({
       value: 89,
       confidence: 'High',
       rationale: 'Based on comprehensive analysis of strategic objectives, regional capabilities, and partner requirements.'
-    };
+    }));
   }
 
-  private static async generateMatchAnalysis(params: ReportParameters): Promise<NSIL_Match> {
-    return {
+  private static async generateMatchAnalysis(ctx: SectionContext): Promise<NSIL_Match> {
+    return this.generateSection(ctx, 'match', () => ({
       company_profile: {
-        name: 'TechCorp Global', // This would be dynamic
+        name: 'TechCorp Global',
         origin: 'United States',
         size: 'Fortune 500',
         key_technologies: ['AI/ML', 'IoT', 'Advanced Analytics'],
@@ -106,12 +263,12 @@ export class NSILProcessor {
         },
         contingency_plans: ['Alternative market entry', 'Risk-sharing agreements', 'Flexible timelines']
       }
-    };
+    }));
   }
 
-  private static async generateLQAnalysis(params: ReportParameters): Promise<NSIL_LQ_Analysis[]> {
-    return [{
-      industry: params.industry[0] || 'Advanced Manufacturing',
+  private static async generateLQAnalysis(ctx: SectionContext): Promise<NSIL_LQ_Analysis[]> {
+    return this.generateSection(ctx, 'lq_analysis', () => [{
+      industry: ctx.params.industry[0] || 'Advanced Manufacturing',
       value: 1.8,
       interpretation: 'High Specialization',
       benchmark_regions: ['Germany (2.1)', 'Japan (1.9)', 'South Korea (1.7)'],
@@ -120,11 +277,11 @@ export class NSILProcessor {
         'Potential for export-led growth',
         'Opportunities for technology transfer'
       ]
-    }];
+    }]);
   }
 
-  private static async generateClusterAnalysis(params: ReportParameters): Promise<NSIL_ClusterAnalysis[]> {
-    return [{
+  private static async generateClusterAnalysis(ctx: SectionContext): Promise<NSIL_ClusterAnalysis[]> {
+    return this.generateSection(ctx, 'cluster_analysis', () => [{
       anchor_industry: 'Automotive Manufacturing',
       supporting_sectors: ['Metalworking', 'Electronics', 'Logistics'],
       supply_chain_gaps: ['Advanced robotics', 'Battery technology'],
@@ -134,11 +291,46 @@ export class NSILProcessor {
         'Strategic location',
         'Government support'
       ]
-    }];
+    }]);
+  }
+
+  private static async generateG2GAlignment(ctx: SectionContext): Promise<NSIL_G2GAlignment> {
+    const { params } = ctx;
+    return this.generateSection(ctx, 'g2g_alignment', () => ({
+      home_government: params.userCountry || 'Home government',
+      partner_government: params.country || params.region,
+      alignment_score: ctx.urpScore,
+      treaty_overlap: [{
+        name: 'WTO Agreements',
+        type: 'Multilateral',
+        status: 'in_force',
+        relevance: 'Baseline tariff and trade-remedy commitments'
+      }],
+      policy_alignment: [{
+        priority: 'Investment promotion',
+        home_position: 'Outbound investment support for priority sectors',
+        partner_position: 'Incentives for inbound FDI',
+        alignment: 70
+      }],
+      diplomatic_signals: [{
+        signal: 'Regular bilateral consultations',
+        direction: 'neutral',
+        strength: 'Medium',
+        observed: 'Ongoing'
+      }],
+      joint_programs: [{
+        program: 'Bilateral investment facilitation desk',
+        lead_agencies: ['Investment promotion agencies'],
+        funding_sources: ['Government budgets'],
+        timeline: '12-18 months',
+        feasibility: 65,
+        expected_outcomes: ['Shorter approval times', 'Pipeline of bilateral projects']
+      }]
+    }));
   }
 
-  private static async generateFutureCast(params: ReportParameters): Promise<NSIL_FutureCast> {
-    return {
+  private static async generateFutureCast(ctx: SectionContext): Promise<NSIL_FutureCast> {
+    return this.generateSection(ctx, 'future_cast', () => ({
       scenarios: [
         {
           name: 'Accelerated Green Transition',
@@ -171,11 +363,11 @@ export class NSILProcessor {
         'Develop flexible partnership models',
         'Invest in technology diversification'
       ]
-    };
+    }));
   }
 
-  private static async generateFinancialAnalysis(params: ReportParameters): Promise<FinancialFeasibility> {
-    return {
+  private static async generateFinancialAnalysis(ctx: SectionContext): Promise<FinancialFeasibility> {
+    return this.generateSection(ctx, 'financial_feasibility', () => ({
       irr: 18.5,
       npv: 45000000,
       payback_period: 7.2,
@@ -188,21 +380,21 @@ export class NSILProcessor {
         { year: 4, value: 25000000 },
         { year: 5, value: 35000000 }
       ]
-    };
+    }));
   }
 
-  private static async generateBankAlignment(params: ReportParameters): Promise<DevelopmentBankAlignment[]> {
-    return [{
+  private static async generateBankAlignment(ctx: SectionContext): Promise<DevelopmentBankAlignment[]> {
+    return this.generateSection(ctx, 'development_bank_alignment', () => [{
       bank_name: 'Asian Development Bank',
       mandate_match: 85,
       eligible_programs: ['Green Growth Initiative', 'Infrastructure Development Fund'],
       application_requirements: ['Environmental Impact Assessment', 'Local Partnership Agreement'],
       success_probability: 78
-    }];
+    }]);
   }
 
-  private static async generateClimateImpact(params: ReportParameters): Promise<ClimateImpactProjection> {
-    return {
+  private static async generateClimateImpact(ctx: SectionContext): Promise<ClimateImpactProjection> {
+    return this.generateSection(ctx, 'climate_impact', () => ({
       timeframe: '2030',
       physical_risks: {
         flooding_days_increase: 25,
@@ -219,11 +411,11 @@ export class NSILProcessor {
         'Diversified water sources',
         'Climate-resilient agriculture'
       ]
-    };
+    }));
   }
 
-  private static async generateGeopoliticalForecast(params: ReportParameters): Promise<GeopoliticalInstabilityForecast> {
-    return {
+  private static async generateGeopoliticalForecast(ctx: SectionContext): Promise<GeopoliticalInstabilityForecast> {
+    return this.generateSection(ctx, 'geopolitical_forecast', () => ({
       current_stability: 78,
       emerging_risks: [{
         risk: 'Trade route disruption',
@@ -241,11 +433,11 @@ export class NSILProcessor {
         'Local manufacturing capacity',
         'Regional trade agreements'
       ]
-    };
+    }));
   }
 
-  private static async generatePolicyRecommendations(params: ReportParameters): Promise<PolicyRecommendation[]> {
-    return [{
+  private static async generatePolicyRecommendations(ctx: SectionContext): Promise<PolicyRecommendation[]> {
+    return this.generateSection(ctx, 'policy_recommendations', () => [{
       policy_area: 'Digital Infrastructure',
       current_gap: 'Limited broadband coverage in rural areas',
       recommended_actions: [
@@ -260,11 +452,11 @@ export class NSILProcessor {
       }],
       implementation_timeline: '24-36 months',
       expected_impact: '25% increase in digital economy contribution'
-    }];
+    }]);
   }
 
-  private static async generateESGFramework(params: ReportParameters): Promise<ESG_Framework> {
-    return {
+  private static async generateESGFramework(ctx: SectionContext): Promise<ESG_Framework> {
+    return this.generateSection(ctx, 'esg_framework', () => ({
       environmental_score: 72,
       social_score: 85,
       governance_score: 78,
@@ -281,73 +473,28 @@ export class NSILProcessor {
         gaps: ['Detailed emissions reporting'],
         required_actions: ['Implement comprehensive monitoring system']
       }]
-    };
+    }));
   }
 
-  private static generateSourceAttribution(params: ReportParameters): string[] {
+  // Reference sources, then every passage retrieved into the section prompts
+  private static generateSourceAttribution(ctx: SectionContext): string[] {
     return [
       'World Bank Development Indicators',
       'IMF Economic Outlook Database',
       'UN Comtrade Statistics',
       'Regional Government Economic Reports',
-      'Private Sector Intelligence Networks'
+      'Private Sector Intelligence Networks',
+      ...sourceAttribution(ctx.sources)
     ];
   }
 
   // XML Serialization
   static serializeToXML(report: NSIL_Report): string {
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<nsil:analysis_report mode="${report.mode}" xmlns:nsil="http://nexus.ai/nsil/6.0">
-  <nsil:executive_summary>
-    <nsil:overall_score>${report.executive_summary.overall_score}</nsil:overall_score>
-    <nsil:key_findings>${report.executive_summary.key_findings.join(', ')}</nsil:key_findings>
-    <nsil:strategic_outlook>${report.executive_summary.strategic_outlook}</nsil:strategic_outlook>
-  </nsil:executive_summary>
-
-  ${report.match_score ? `
-  <nsil:match_score value="${report.match_score.value}" confidence="${report.match_score.confidence}">
-    <nsil:rationale>${report.match_score.rationale}</nsil:rationale>
-  </nsil:match_score>` : ''}
-
-  ${report.match ? `
-  <nsil:match>
-    <nsil:company_profile name="${report.match.company_profile.name}" origin="${report.match.company_profile.origin}" size="${report.match.company_profile.size}" key_technologies="${report.match.company_profile.key_technologies.join(', ')}" target_markets="${report.match.company_profile.target_markets.join(', ')}" strategic_focus="${report.match.company_profile.strategic_focus}"/>
-    <nsil:synergy_analysis strategic_alignment="${report.match.synergy_analysis.strategic_alignment}" complementary_strengths="${report.match.synergy_analysis.complementary_strengths.join(', ')}" competitive_advantages="${report.match.synergy_analysis.competitive_advantages.join(', ')}" risk_factors="${report.match.synergy_analysis.risk_factors.join(', ')}" mitigation_strategies="${report.match.synergy_analysis.mitigation_strategies.join(', ')}"/>
-    <nsil:risk_map overall_risk="${report.match.risk_map.overall_risk}" contingency_plans="${report.match.risk_map.contingency_plans.join(', ')}">
-      <nsil:risk_categories>
-        <nsil:geopolitical level="${report.match.risk_map.risk_categories.geopolitical.level}"/>
-        <nsil:market level="${report.match.risk_map.risk_categories.market.level}"/>
-        <nsil:operational level="${report.match.risk_map.risk_categories.operational.level}"/>
-        <nsil:regulatory level="${report.match.risk_map.risk_categories.regulatory.level}"/>
-      </nsil:risk_categories>
-    </nsil:risk_map>
-  </nsil:match>` : ''}
-
-  ${report.lq_analysis ? report.lq_analysis.map(lq => `
-  <nsil:lq_analysis industry="${lq.industry}" value="${lq.value}" interpretation="${lq.interpretation}">
-    <nsil:benchmark_regions>${lq.benchmark_regions.join(', ')}</nsil:benchmark_regions>
-    <nsil:implications>${lq.implications.join(', ')}</nsil:implications>
-  </nsil:lq_analysis>`).join('') : ''}
-
-  ${report.cluster_analysis ? report.cluster_analysis.map(cluster => `
-  <nsil:cluster_analysis anchor_industry="${cluster.anchor_industry}" supporting_sectors="${cluster.supporting_sectors.join(', ')}" growth_potential="${cluster.growth_potential}" regional_advantages="${cluster.regional_advantages.join(', ')}">
-    <nsil:supply_chain_gaps>${cluster.supply_chain_gaps.join(', ')}</nsil:supply_chain_gaps>
-  </nsil:cluster_analysis>`).join('') : ''}
-
-  ${report.future_cast ? `
-  <nsil:future_cast>
-    <nsil:scenarios>
-      ${report.future_cast.scenarios.map(scenario => `
-      <nsil:scenario name="${scenario.name}" drivers="${scenario.drivers.join(', ')}" probability="${scenario.probability}">
-        <nsil:regional_impact effect="${scenario.regional_impact.effect}">${scenario.regional_impact.description}</nsil:regional_impact>
-        <nsil:recommendation>${scenario.recommendation}</nsil:recommendation>
-      </nsil:scenario>`).join('')}
-    </nsil:scenarios>
-    <nsil:key_uncertainties>${report.future_cast.key_uncertainties.join(', ')}</nsil:key_uncertainties>
-    <nsil:recommended_actions>${report.future_cast.recommended_actions.join(', ')}</nsil:recommended_actions>
-  </nsil:future_cast>` : ''}
-
-  <nsil:source_attribution>${report.source_attribution.join(', ')}</nsil:source_attribution>
-</nsil:analysis_report>`;
+    return serializeNSIL(report);
+  }
+
+  // Any format in the renderer registry: xml, json, markdown, docx
+  static render(report: NSIL_Report, format: string) {
+    return renderNSIL(report, format);
   }
 }
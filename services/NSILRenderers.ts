@@ -0,0 +1,375 @@
+import type { NSIL_Report } from '../types';
+import { NSIL_NAMESPACE, NSIL_VERSION, escapeXml, serializeNSIL, validateNSILReport } from './NSILXml';
+import { SchemaValidationError } from './SchemaValidation';
+import { createZip } from './ZipArchive';
+import { composePdf } from './PdfComposer';
+
+export interface NSILRenderer {
+  id: string;
+  label: string;
+  mimeType: string;
+  extension: string;
+  render(report: NSIL_Report): string | Uint8Array;
+}
+
+const renderers = new Map<string, NSILRenderer>();
+
+export function registerNSILRenderer(renderer: NSILRenderer): void {
+  renderers.set(renderer.id, renderer);
+}
+
+export const listNSILRenderers = (): NSILRenderer[] => [...renderers.values()];
+
+export function renderNSIL(report: NSIL_Report, format: string): { content: string | Uint8Array; mimeType: string; extension: string } {
+  const renderer = renderers.get(format);
+  if (!renderer) throw new Error(`Unknown NSIL renderer "${format}" (available: ${[...renderers.keys()].join(', ')})`);
+  return { content: renderer.render(report), mimeType: renderer.mimeType, extension: renderer.extension };
+}
+
+/** Browser helper: save rendered content as a file download. */
+export function downloadContent(content: string | Uint8Array, mimeType: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Browser helper: render and save the report in the given format. */
+export function downloadNSIL(report: NSIL_Report, format: string, basename = 'nsil-report'): void {
+  const { content, mimeType, extension } = renderNSIL(report, format);
+  downloadContent(content, mimeType, `${basename}.${extension}`);
+}
+
+// --- JSON ---
+
+export const NSIL_JSON_SCHEMA = `${NSIL_NAMESPACE}/report`;
+
+export type NSILJsonEnvelope = { schema: string; schemaVersion: string; report: NSIL_Report };
+
+export const toNSILJson = (report: NSIL_Report): NSILJsonEnvelope => ({ schema: NSIL_JSON_SCHEMA, schemaVersion: NSIL_VERSION, report });
+
+/** Read an envelope produced by the JSON renderer; rejects other major versions. */
+export function readNSILJson(input: string | unknown): NSIL_Report {
+  const envelope = (typeof input === 'string' ? JSON.parse(input) : input) as Partial<NSILJsonEnvelope>;
+  if (envelope?.schema !== NSIL_JSON_SCHEMA) throw new SchemaValidationError('nsil-json', [`$.schema: expected ${NSIL_JSON_SCHEMA}`]);
+  if (String(envelope.schemaVersion).split('.')[0] !== NSIL_VERSION.split('.')[0]) {
+    throw new SchemaValidationError('nsil-json', [`$.schemaVersion: ${envelope.schemaVersion} is not compatible with ${NSIL_VERSION}`]);
+  }
+  const errors = validateNSILReport(envelope.report).map(e => e.replace(/^\$/, '$.report'));
+  if (errors.length) throw new SchemaValidationError('nsil-json', errors);
+  return envelope.report as NSIL_Report;
+}
+
+// --- Document Model ---
+// Markdown, DOCX and PDF render the same blocks, so every figure is formatted
+// once. Charts repeat figures already given in text, so text formats skip them.
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'chart'; title: string; labels: string[]; values: number[]; valueLabels: string[] };
+
+const MODE_LABELS: Record<NSIL_Report['mode'], string> = {
+  matchmaking: 'Partner Matchmaking',
+  market_analysis: 'Market Analysis',
+  g2g_alignment: 'Government-to-Government Alignment'
+};
+
+const num = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+const usd = (n: number) => `${n < 0 ? '-' : ''}$${num(Math.abs(n))}`;
+const pct = (n: number) => `${num(n)}%`;
+const score = (n: number) => `${num(n)}/100`;
+
+const reportTitle = (report: NSIL_Report) => `NSIL Report: ${MODE_LABELS[report.mode]}`;
+
+export function buildReportDocument(report: NSIL_Report): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  const h = (level: 1 | 2 | 3, text: string) => blocks.push({ type: 'heading', level, text });
+  const p = (text: string) => blocks.push({ type: 'paragraph', text });
+  const list = (items: string[], title?: string) => {
+    if (title) p(title);
+    blocks.push({ type: 'bullets', items: items.length ? items : ['None reported'] });
+  };
+  const table = (header: string[], rows: string[][]) => blocks.push({ type: 'table', header, rows });
+  const chart = (title: string, points: { label: string; value: number; text: string }[]) => blocks.push({
+    type: 'chart', title, labels: points.map(pt => pt.label), values: points.map(pt => pt.value), valueLabels: points.map(pt => pt.text)
+  });
+
+  h(1, reportTitle(report));
+  p(`NSIL ${NSIL_VERSION} · Mode: ${report.mode}`);
+  if (report.fallback_sections?.length) {
+    p(`Notice: model generation failed for ${report.fallback_sections.join(', ')}. Those sections contain illustrative placeholder content, not analysis of this engagement.`);
+  }
+
+  h(2, 'Executive Summary');
+  p(`Overall score: ${score(report.executive_summary.overall_score)}`);
+  p(report.executive_summary.strategic_outlook);
+  list(report.executive_summary.key_findings, 'Key findings:');
+
+  if (report.match_score) {
+    h(2, 'Match Score');
+    p(`${score(report.match_score.value)} (${report.match_score.confidence} confidence)`);
+    p(report.match_score.rationale);
+  }
+
+  if (report.match) {
+    const { company_profile: cp, synergy_analysis: sa, risk_map: rm } = report.match;
+    h(2, 'Partner Match');
+    h(3, 'Company Profile');
+    table(['Field', 'Value'], [
+      ['Name', cp.name], ['Origin', cp.origin], ['Size', cp.size], ['Strategic focus', cp.strategic_focus],
+      ['Key technologies', cp.key_technologies.join('; ')], ['Target markets', cp.target_markets.join('; ')]
+    ]);
+    h(3, 'Synergy Analysis');
+    p(`Strategic alignment: ${score(sa.strategic_alignment)}`);
+    list(sa.complementary_strengths, 'Complementary strengths:');
+    list(sa.competitive_advantages, 'Competitive advantages:');
+    list(sa.risk_factors, 'Risk factors:');
+    list(sa.mitigation_strategies, 'Mitigation strategies:');
+    h(3, 'Risk Map');
+    p(`Overall risk: ${rm.overall_risk}`);
+    table(['Category', 'Level', 'Factors'], (Object.entries(rm.risk_categories)).map(([name, c]) => [name, num(c.level), c.factors.join('; ')]));
+    list(rm.contingency_plans, 'Contingency plans:');
+  }
+
+  if (report.lq_analysis) {
+    h(2, 'Location Quotient Analysis');
+    table(['Industry', 'LQ', 'Interpretation', 'Benchmarks'], report.lq_analysis.map(lq => [lq.industry, num(lq.value), lq.interpretation, lq.benchmark_regions.join('; ')]));
+    report.lq_analysis.forEach(lq => list(lq.implications, `Implications for ${lq.industry}:`));
+  }
+
+  if (report.cluster_analysis) {
+    h(2, 'Cluster Analysis');
+    report.cluster_analysis.forEach(c => {
+      h(3, c.anchor_industry);
+      p(`Growth potential: ${score(c.growth_potential)}`);
+      list(c.supporting_sectors, 'Supporting sectors:');
+      list(c.supply_chain_gaps, 'Supply chain gaps:');
+      list(c.regional_advantages, 'Regional advantages:');
+    });
+  }
+
+  if (report.g2g_alignment) {
+    const g = report.g2g_alignment;
+    h(2, 'Government-to-Government Alignment');
+    p(`${g.home_government} and ${g.partner_government}: alignment ${score(g.alignment_score)}`);
+    h(3, 'Treaty and FTA Overlap');
+    table(['Agreement', 'Type', 'Status', 'Relevance'], g.treaty_overlap.map(t => [t.name, t.type, t.status.replace('_', ' '), t.relevance]));
+    h(3, 'Policy Priority Alignment');
+    table(['Priority', g.home_government, g.partner_government, 'Alignment'], g.policy_alignment.map(a => [a.priority, a.home_position, a.partner_position, score(a.alignment)]));
+    h(3, 'Diplomatic Signals');
+    table(['Signal', 'Direction', 'Strength', 'Observed'], g.diplomatic_signals.map(d => [d.signal, d.direction, d.strength, d.observed]));
+    h(3, 'Joint Program Opportunities');
+    g.joint_programs.forEach(j => {
+      p(`${j.program} (feasibility ${score(j.feasibility)}, ${j.timeline})`);
+      list(j.lead_agencies, 'Lead agencies:');
+      list(j.funding_sources, 'Funding sources:');
+      list(j.expected_outcomes, 'Expected outcomes:');
+    });
+  }
+
+  if (report.future_cast) {
+    h(2, 'Future Cast');
+    chart('Scenario probability', report.future_cast.scenarios.map(s => ({ label: s.name, value: s.probability, text: pct(s.probability) })));
+    report.future_cast.scenarios.forEach(s => {
+      h(3, `${s.name} (${pct(s.probability)} probability)`);
+      list(s.drivers, 'Drivers:');
+      p(`Regional impact (${s.regional_impact.effect}): ${s.regional_impact.description}`);
+      p(`Recommendation: ${s.recommendation}`);
+    });
+    list(report.future_cast.key_uncertainties, 'Key uncertainties:');
+    list(report.future_cast.recommended_actions, 'Recommended actions:');
+  }
+
+  if (report.financial_feasibility) {
+    const f = report.financial_feasibility;
+    h(2, 'Financial Feasibility');
+    table(['Metric', 'Value'], [
+      ['IRR', pct(f.irr)], ['NPV', usd(f.npv)], ['Payback period', `${num(f.payback_period)} years`],
+      ['Risk-adjusted return', pct(f.risk_adjusted_return)], ['Funding requirements', usd(f.funding_requirements)]
+    ]);
+    table(['Year', 'Projected return'], f.roi_projections.map(r => [num(r.year), usd(r.value)]));
+    chart('Projected return by year', f.roi_projections.map(r => ({ label: `Year ${num(r.year)}`, value: r.value, text: usd(r.value) })));
+  }
+
+  if (report.development_bank_alignment) {
+    h(2, 'Development Bank Alignment');
+    table(['Bank', 'Mandate match', 'Success probability', 'Eligible programs', 'Requirements'],
+      report.development_bank_alignment.map(b => [b.bank_name, pct(b.mandate_match), pct(b.success_probability), b.eligible_programs.join('; '), b.application_requirements.join('; ')]));
+  }
+
+  if (report.climate_impact) {
+    const c = report.climate_impact;
+    h(2, `Climate Impact (${c.timeframe})`);
+    table(['Indicator', 'Value'], [
+      ['Additional flooding days', num(c.physical_risks.flooding_days_increase)],
+      ['Temperature rise', `${num(c.physical_risks.temperature_rise)} °C`],
+      ['Asset damage', usd(c.economic_impacts.asset_damage)],
+      ['Productivity loss', usd(c.economic_impacts.productivity_loss)],
+      ['Adaptation costs', usd(c.economic_impacts.adaptation_costs)]
+    ]);
+    list(c.physical_risks.extreme_weather_events, 'Extreme weather events:');
+    list(c.mitigation_strategies, 'Mitigation strategies:');
+  }
+
+  if (report.geopolitical_forecast) {
+    const g = report.geopolitical_forecast;
+    h(2, 'Geopolitical Forecast');
+    p(`Current stability: ${score(g.current_stability)}`);
+    table(['Risk', 'Probability', 'Timeline', 'Potential impact'], g.emerging_risks.map(r => [r.risk, pct(r.probability), r.timeline, r.potential_impact]));
+    list(g.early_warning_indicators, 'Early warning indicators:');
+    list(g.contingency_planning, 'Contingency planning:');
+  }
+
+  if (report.policy_recommendations) {
+    h(2, 'Policy Recommendations');
+    report.policy_recommendations.forEach(r => {
+      h(3, r.policy_area);
+      p(`Current gap: ${r.current_gap}`);
+      list(r.recommended_actions, 'Recommended actions:');
+      list(r.successful_examples.map(e => `${e.region}: ${e.policy} (${e.outcomes.join('; ')})`), 'Successful examples:');
+      p(`Implementation timeline: ${r.implementation_timeline}`);
+      p(`Expected impact: ${r.expected_impact}`);
+    });
+  }
+
+  if (report.esg_framework) {
+    const e = report.esg_framework;
+    h(2, 'ESG Framework');
+    table(['Pillar', 'Score'], [['Environmental', score(e.environmental_score)], ['Social', score(e.social_score)], ['Governance', score(e.governance_score)]]);
+    chart('ESG pillar scores', [
+      { label: 'Environmental', value: e.environmental_score, text: score(e.environmental_score) },
+      { label: 'Social', value: e.social_score, text: score(e.social_score) },
+      { label: 'Governance', value: e.governance_score, text: score(e.governance_score) }
+    ]);
+    table(['Category', 'Metric', 'Current', 'Target', 'Action plan'], e.key_indicators.map(k => [k.category, k.metric, num(k.current_value), num(k.target_value), k.action_plan]));
+    table(['Standard', 'Compliance', 'Gaps', 'Required actions'], e.compliance_status.map(c => [c.standard, pct(c.compliance_level), c.gaps.join('; '), c.required_actions.join('; ')]));
+  }
+
+  h(2, 'Sources');
+  list(report.source_attribution);
+  return blocks;
+}
+
+// --- Markdown ---
+
+const mdInline = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1').replace(/\r?\n/g, '  \n');
+const mdCell = (text: string) => mdInline(text).replace(/\|/g, '\\|').replace(/ {2}\n/g, '<br>');
+
+export function blocksToMarkdown(blocks: ReportBlock[]): string {
+  return blocks.filter(b => b.type !== 'chart').map(b => {
+    switch (b.type) {
+      case 'heading': return `${'#'.repeat(b.level)} ${mdInline(b.text)}`;
+      case 'paragraph': return mdInline(b.text);
+      case 'bullets': return b.items.map(i => `- ${mdInline(i)}`).join('\n');
+      case 'table': return [
+        `| ${b.header.map(mdCell).join(' | ')} |`,
+        `| ${b.header.map(() => '---').join(' | ')} |`,
+        ...b.rows.map(r => `| ${r.map(mdCell).join(' | ')} |`)
+      ].join('\n');
+    }
+  }).join('\n\n') + '\n';
+}
+
+export const renderMarkdown = (report: NSIL_Report): string => blocksToMarkdown(buildReportDocument(report));
+
+// --- DOCX ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const run = (text: string, bold = false) => {
+  // Line breaks inside a run become <w:br/>
+  const parts = text.split(/\r?\n/).map(t => `<w:t xml:space="preserve">${escapeXml(t)}</w:t>`).join('<w:br/>');
+  return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}${parts}</w:r>`;
+};
+const para = (text: string, style?: string, bold = false) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${run(text, bold)}</w:p>`;
+
+const docxTable = (header: string[], rows: string[][]) => {
+  const cell = (text: string, bold: boolean) => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${para(text, undefined, bold)}</w:tc>`;
+  const row = (cells: string[], bold = false) => `<w:tr>${cells.map(c => cell(c, bold)).join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+    `<w:tblGrid>${header.map(() => '<w:gridCol/>').join('')}</w:tblGrid>${row(header, true)}${rows.map(r => row(r)).join('')}</w:tbl><w:p/>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="120"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="240"/></w:pPr></w:style>
+  <w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(s => `<w:${s} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`).join('')}</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+export function renderDocx(report: NSIL_Report): Uint8Array {
+  const body = buildReportDocument(report).filter(b => b.type !== 'chart').map(b => {
+    switch (b.type) {
+      case 'heading': return para(b.text, `Heading${b.level}`);
+      case 'paragraph': return para(b.text);
+      case 'bullets': return b.items.map(i => para(`• ${i}`, 'ListBullet')).join('');
+      case 'table': return docxTable(b.header, b.rows);
+    }
+  }).join('');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+    },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    {
+      name: 'word/document.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`
+    }
+  ]);
+}
+
+// --- PDF ---
+
+export function renderPdf(report: NSIL_Report): Uint8Array {
+  // The cover page carries the title heading
+  const blocks = buildReportDocument(report).slice(1);
+  const doc = composePdf({ title: reportTitle(report), subtitle: `Nexus Symbiotic Intelligence Language ${NSIL_VERSION}`, blocks });
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+// --- Built-in Renderers ---
+
+registerNSILRenderer({ id: 'xml', label: 'NSIL XML', mimeType: 'application/xml', extension: 'xml', render: serializeNSIL });
+registerNSILRenderer({ id: 'json', label: 'JSON', mimeType: 'application/json', extension: 'json', render: report => JSON.stringify(toNSILJson(report), null, 2) });
+registerNSILRenderer({ id: 'markdown', label: 'Markdown', mimeType: 'text/markdown', extension: 'md', render: renderMarkdown });
+registerNSILRenderer({
+  id: 'docx',
+  label: 'Word (DOCX)',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extension: 'docx',
+  render: renderDocx
+});
+registerNSILRenderer({ id: 'pdf', label: 'PDF', mimeType: 'application/pdf', extension: 'pdf', render: renderPdf });
@@ -0,0 +1,519 @@
+import type {
+  NSIL_Report,
+  NSIL_ExecutiveSummary,
+  NSIL_MatchScore,
+  NSIL_Match,
+  NSIL_CompanyProfile,
+  NSIL_SynergyAnalysis,
+  NSIL_RiskMap,
+  NSIL_RiskCategory,
+  NSIL_LQ_Analysis,
+  NSIL_ClusterAnalysis,
+  NSIL_G2GAlignment,
+  NSIL_TreatyOverlap,
+  NSIL_PolicyAlignment,
+  NSIL_DiplomaticSignal,
+  NSIL_JointProgram,
+  NSIL_FutureCast,
+  NSIL_Scenario,
+  NSIL_RegionalImpact,
+  FinancialFeasibility,
+  DevelopmentBankAlignment,
+  ClimateImpactProjection,
+  GeopoliticalInstabilityForecast,
+  PolicyRecommendation,
+  ESG_Framework
+} from '../types';
+import { Type, type Schema } from '@google/genai';
+import { SchemaValidationError, type Validator } from './SchemaValidation';
+
+export const NSIL_NAMESPACE = 'http://nexus.ai/nsil/6.0';
+export const NSIL_VERSION = '6.0';
+
+// --- Field Specs ---
+// One description of NSIL_Report drives the serializer, the parser, the XSD
+// and the model response schemas, so they cannot drift apart.
+
+type Spec =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'list'; item: Spec; itemName: string }
+  | { kind: 'object'; fields: Record<string, Field> };
+
+type Field = { spec: Spec; as: 'element' | 'attribute' | 'text'; optional: boolean };
+
+const str: Spec = { kind: 'string' };
+const num: Spec = { kind: 'number' };
+const oneOf = (...values: string[]): Spec => ({ kind: 'enum', values });
+const listOf = (itemName: string, item: Spec): Spec => ({ kind: 'list', item, itemName });
+
+const el = (spec: Spec): Field => ({ spec, as: 'element', optional: false });
+const attr = (spec: Spec): Field => ({ spec, as: 'attribute', optional: false });
+const text = (spec: Spec): Field => ({ spec, as: 'text', optional: false });
+const opt = (field: Field): Field => ({ ...field, optional: true });
+
+// Every key of T must be described, so new report fields fail to compile here first
+const obj = <T>(fields: { [K in keyof T]-?: Field }): Spec => ({ kind: 'object', fields: fields as Record<string, Field> });
+
+const riskCategory = obj<NSIL_RiskCategory>({ level: attr(num), factors: el(listOf('factor', str)) });
+
+const matchSpec = obj<NSIL_Match>({
+  company_profile: el(obj<NSIL_CompanyProfile>({
+    name: attr(str),
+    origin: attr(str),
+    size: attr(str),
+    strategic_focus: attr(str),
+    key_technologies: el(listOf('technology', str)),
+    target_markets: el(listOf('market', str))
+  })),
+  synergy_analysis: el(obj<NSIL_SynergyAnalysis>({
+    strategic_alignment: attr(num),
+    complementary_strengths: el(listOf('strength', str)),
+    competitive_advantages: el(listOf('advantage', str)),
+    risk_factors: el(listOf('factor', str)),
+    mitigation_strategies: el(listOf('strategy', str))
+  })),
+  risk_map: el(obj<NSIL_RiskMap>({
+    overall_risk: attr(oneOf('Low', 'Medium', 'High')),
+    risk_categories: el(obj<NSIL_RiskMap['risk_categories']>({
+      geopolitical: el(riskCategory),
+      market: el(riskCategory),
+      operational: el(riskCategory),
+      regulatory: el(riskCategory)
+    })),
+    contingency_plans: el(listOf('plan', str))
+  }))
+});
+
+const futureCastSpec = obj<NSIL_FutureCast>({
+  scenarios: el(listOf('scenario', obj<NSIL_Scenario>({
+    name: attr(str),
+    probability: attr(num),
+    drivers: el(listOf('driver', str)),
+    regional_impact: el(obj<NSIL_RegionalImpact>({ effect: attr(oneOf('positive', 'negative', 'mixed')), description: text(str) })),
+    recommendation: el(str)
+  }))),
+  key_uncertainties: el(listOf('uncertainty', str)),
+  recommended_actions: el(listOf('action', str))
+});
+
+const g2gSpec = obj<NSIL_G2GAlignment>({
+  home_government: attr(str),
+  partner_government: attr(str),
+  alignment_score: attr(num),
+  treaty_overlap: el(listOf('treaty', obj<NSIL_TreatyOverlap>({
+    name: attr(str),
+    type: attr(oneOf('FTA', 'BIT', 'DTA', 'Multilateral', 'MoU')),
+    status: attr(oneOf('in_force', 'signed', 'negotiating', 'proposed')),
+    relevance: text(str)
+  }))),
+  policy_alignment: el(listOf('priority', obj<NSIL_PolicyAlignment>({
+    priority: attr(str),
+    alignment: attr(num),
+    home_position: el(str),
+    partner_position: el(str)
+  }))),
+  diplomatic_signals: el(listOf('signal', obj<NSIL_DiplomaticSignal>({
+    direction: attr(oneOf('positive', 'negative', 'neutral')),
+    strength: attr(oneOf('High', 'Medium', 'Low')),
+    observed: attr(str),
+    signal: text(str)
+  }))),
+  joint_programs: el(listOf('program', obj<NSIL_JointProgram>({
+    program: attr(str),
+    feasibility: attr(num),
+    timeline: attr(str),
+    lead_agencies: el(listOf('agency', str)),
+    funding_sources: el(listOf('source', str)),
+    expected_outcomes: el(listOf('outcome', str))
+  })))
+});
+
+const REPORT_SPEC = obj<NSIL_Report>({
+  mode: attr(oneOf('matchmaking', 'market_analysis', 'g2g_alignment')),
+  executive_summary: el(obj<NSIL_ExecutiveSummary>({
+    overall_score: el(num),
+    key_findings: el(listOf('finding', str)),
+    strategic_outlook: el(str)
+  })),
+  match_score: opt(el(obj<NSIL_MatchScore>({
+    value: attr(num),
+    confidence: attr(oneOf('High', 'Medium', 'Low')),
+    rationale: el(str)
+  }))),
+  match: opt(el(matchSpec)),
+  lq_analysis: opt(el(listOf('lq', obj<NSIL_LQ_Analysis>({
+    industry: attr(str),
+    value: attr(num),
+    interpretation: attr(str),
+    benchmark_regions: el(listOf('region', str)),
+    implications: el(listOf('implication', str))
+  })))),
+  cluster_analysis: opt(el(listOf('cluster', obj<NSIL_ClusterAnalysis>({
+    anchor_industry: attr(str),
+    growth_potential: attr(num),
+    supporting_sectors: el(listOf('sector', str)),
+    supply_chain_gaps: el(listOf('gap', str)),
+    regional_advantages: el(listOf('advantage', str))
+  })))),
+  g2g_alignment: opt(el(g2gSpec)),
+  future_cast: opt(el(futureCastSpec)),
+  financial_feasibility: opt(el(obj<FinancialFeasibility>({
+    irr: el(num),
+    npv: el(num),
+    payback_period: el(num),
+    risk_adjusted_return: el(num),
+    funding_requirements: el(num),
+    roi_projections: el(listOf('projection', obj<FinancialFeasibility['roi_projections'][number]>({ year: attr(num), value: attr(num) })))
+  }))),
+  development_bank_alignment: opt(el(listOf('bank', obj<DevelopmentBankAlignment>({
+    bank_name: attr(str),
+    mandate_match: attr(num),
+    success_probability: attr(num),
+    eligible_programs: el(listOf('program', str)),
+    application_requirements: el(listOf('requirement', str))
+  })))),
+  climate_impact: opt(el(obj<ClimateImpactProjection>({
+    timeframe: attr(str),
+    physical_risks: el(obj<ClimateImpactProjection['physical_risks']>({
+      flooding_days_increase: el(num),
+      temperature_rise: el(num),
+      extreme_weather_events: el(listOf('event', str))
+    })),
+    economic_impacts: el(obj<ClimateImpactProjection['economic_impacts']>({
+      asset_damage: el(num),
+      productivity_loss: el(num),
+      adaptation_costs: el(num)
+    })),
+    mitigation_strategies: el(listOf('strategy', str))
+  }))),
+  geopolitical_forecast: opt(el(obj<GeopoliticalInstabilityForecast>({
+    current_stability: el(num),
+    emerging_risks: el(listOf('emerging_risk', obj<GeopoliticalInstabilityForecast['emerging_risks'][number]>({
+      risk: el(str),
+      probability: el(num),
+      timeline: el(str),
+      potential_impact: el(str)
+    }))),
+    early_warning_indicators: el(listOf('indicator', str)),
+    contingency_planning: el(listOf('plan', str))
+  }))),
+  policy_recommendations: opt(el(listOf('policy_recommendation', obj<PolicyRecommendation>({
+    policy_area: attr(str),
+    current_gap: el(str),
+    recommended_actions: el(listOf('action', str)),
+    successful_examples: el(listOf('example', obj<PolicyRecommendation['successful_examples'][number]>({
+      region: attr(str),
+      policy: attr(str),
+      outcomes: el(listOf('outcome', str))
+    }))),
+    implementation_timeline: el(str),
+    expected_impact: el(str)
+  })))),
+  esg_framework: opt(el(obj<ESG_Framework>({
+    environmental_score: el(num),
+    social_score: el(num),
+    governance_score: el(num),
+    key_indicators: el(listOf('indicator', obj<ESG_Framework['key_indicators'][number]>({
+      category: attr(str),
+      metric: attr(str),
+      current_value: el(num),
+      target_value: el(num),
+      action_plan: el(str)
+    }))),
+    compliance_status: el(listOf('standard', obj<ESG_Framework['compliance_status'][number]>({
+      standard: attr(str),
+      compliance_level: attr(num),
+      gaps: el(listOf('gap', str)),
+      required_actions: el(listOf('action', str))
+    })))
+  }))),
+  source_attribution: el(listOf('source', str)),
+  fallback_sections: opt(el(listOf('section', str)))
+});
+
+// --- Serialization ---
+
+// XML 1.0 cannot carry most control characters at all, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export const escapeXml = (value: string) => value
+  .replace(INVALID_XML_CHARS, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+  // Parsers fold a raw CR into LF, so keep it as a character reference
+  .replace(/\r/g, '&#13;');
+
+// Parsers normalise whitespace in attribute values, so encode it to survive the round trip
+const escapeAttr = (value: string) => escapeXml(value).replace(/\t/g, '&#9;').replace(/\n/g, '&#10;');
+
+const formatNumber = (n: number) => Number.isNaN(n) ? 'NaN' : n === Infinity ? 'INF' : n === -Infinity ? '-INF' : String(n);
+
+const scalarText = (spec: Spec, value: unknown) => spec.kind === 'number' ? formatNumber(value as number) : String(value);
+
+function writeElement(name: string, spec: Spec, value: unknown, indent: string, rootAttrs = ''): string {
+  const tag = `nsil:${name}`;
+  if (spec.kind === 'list') {
+    const items = value as unknown[];
+    if (!items.length) return `${indent}<${tag}${rootAttrs}/>`;
+    return `${indent}<${tag}${rootAttrs}>\n${items.map(v => writeElement(spec.itemName, spec.item, v, indent + '  ')).join('\n')}\n${indent}</${tag}>`;
+  }
+  if (spec.kind !== 'object') return `${indent}<${tag}${rootAttrs}>${escapeXml(scalarText(spec, value))}</${tag}>`;
+
+  const record = value as Record<string, unknown>;
+  const present = Object.entries(spec.fields).filter(([key]) => record[key] !== undefined);
+  const attrs = present.filter(([, f]) => f.as === 'attribute').map(([key, f]) => ` ${key}="${escapeAttr(scalarText(f.spec, record[key]))}"`).join('');
+  const textField = present.find(([, f]) => f.as === 'text');
+  const children = present.filter(([, f]) => f.as === 'element').map(([key, f]) => writeElement(key, f.spec, record[key], indent + '  '));
+
+  const open = `${indent}<${tag}${rootAttrs}${attrs}`;
+  if (textField) return `${open}>${escapeXml(scalarText(textField[1].spec, record[textField[0]]))}</${tag}>`;
+  if (!children.length) return `${open}/>`;
+  return `${open}>\n${children.join('\n')}\n${indent}</${tag}>`;
+}
+
+/** Lossless, escaped NSIL 6.0 XML for every field of the report. */
+export function serializeNSIL(report: NSIL_Report): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${writeElement('analysis_report', REPORT_SPEC, report, '', ` xmlns:nsil="${NSIL_NAMESPACE}" version="${NSIL_VERSION}"`)}\n`;
+}
+
+// --- Parsing ---
+
+type XmlNode = { name: string; attrs: Record<string, string>; children: XmlNode[]; text: string };
+
+const decodeEntities = (value: string) => value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+  switch (entity) {
+    case 'amp': return '&';
+    case 'lt': return '<';
+    case 'gt': return '>';
+    case 'quot': return '"';
+    case 'apos': return "'";
+    default: return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  }
+});
+
+/**
+ * Minimal XML reader: elements, attributes, text, CDATA, comments and
+ * processing instructions. Enough for NSIL documents in any environment,
+ * without relying on DOMParser.
+ */
+function readXml(xml: string): XmlNode {
+  const stack: XmlNode[] = [{ name: '#document', attrs: {}, children: [], text: '' }];
+  let pos = 0;
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const textEnd = lt === -1 ? xml.length : lt;
+    if (textEnd > pos) stack[stack.length - 1].text += decodeEntities(xml.slice(pos, textEnd));
+    if (lt === -1) break;
+
+    // A missing terminator would send pos back near the start and loop forever
+    const skipPast = (terminator: string, what: string) => {
+      const end = xml.indexOf(terminator, lt);
+      if (end === -1) throw new Error(`Unterminated ${what} at offset ${lt}`);
+      return end;
+    };
+
+    if (xml.startsWith('<?', lt)) { pos = skipPast('?>', 'processing instruction') + 2; continue; }
+    if (xml.startsWith('<!--', lt)) { pos = skipPast('-->', 'comment') + 3; continue; }
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = skipPast(']]>', 'CDATA section');
+      stack[stack.length - 1].text += xml.slice(lt + 9, end);
+      pos = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<!', lt)) { pos = skipPast('>', 'declaration') + 1; continue; }
+
+    const gt = xml.indexOf('>', lt);
+    if (gt === -1) throw new Error(`Unterminated tag at offset ${lt}`);
+    const raw = xml.slice(lt + 1, gt);
+    pos = gt + 1;
+
+    if (raw.startsWith('/')) {
+      const closed = stack.pop();
+      if (!closed || closed.name !== raw.slice(1).trim()) throw new Error(`Mismatched closing tag </${raw.slice(1).trim()}> at offset ${lt}`);
+      continue;
+    }
+
+    const selfClosing = raw.endsWith('/');
+    const body = selfClosing ? raw.slice(0, -1) : raw;
+    const name = body.match(/^[^\s/>]+/)?.[0];
+    if (!name) throw new Error(`Malformed tag at offset ${lt}`);
+    const node: XmlNode = { name, attrs: {}, children: [], text: '' };
+    for (const m of body.slice(name.length).matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      node.attrs[m[1]] = decodeEntities(m[3] ?? m[4]);
+    }
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+  if (stack.length !== 1) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  return stack[0];
+}
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+function readScalar(spec: Spec, raw: string, path: string, errors: string[]): unknown {
+  if (spec.kind === 'number') {
+    const trimmed = raw.trim();
+    const n = trimmed === 'INF' ? Infinity : trimmed === '-INF' ? -Infinity : trimmed === 'NaN' ? NaN : trimmed === '' ? NaN : Number(trimmed);
+    if (Number.isNaN(n) && trimmed !== 'NaN') errors.push(`${path}: expected number, got "${raw}"`);
+    return n;
+  }
+  if (spec.kind === 'enum' && !spec.values.includes(raw)) errors.push(`${path}: expected one of ${spec.values.join(', ')}, got "${raw}"`);
+  return raw;
+}
+
+function readElement(node: XmlNode, spec: Spec, path: string, errors: string[]): unknown {
+  if (spec.kind === 'list') {
+    return node.children
+      .filter(c => localName(c.name) === spec.itemName)
+      .map((c, i) => readElement(c, spec.item, `${path}[${i}]`, errors));
+  }
+  if (spec.kind !== 'object') return readScalar(spec, node.text, path, errors);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(spec.fields)) {
+    const fieldPath = `${path}.${key}`;
+    if (field.as === 'attribute') {
+      if (key in node.attrs) result[key] = readScalar(field.spec, node.attrs[key], fieldPath, errors);
+      else if (!field.optional) errors.push(`${fieldPath}: missing attribute`);
+    } else if (field.as === 'text') {
+      result[key] = readScalar(field.spec, node.text, fieldPath, errors);
+    } else {
+      const child = node.children.find(c => localName(c.name) === key);
+      if (child) result[key] = readElement(child, field.spec, fieldPath, errors);
+      else if (!field.optional) errors.push(`${fieldPath}: missing element`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse NSIL 6.0 XML back into a typed report. Throws SchemaValidationError
+ * listing every missing or malformed field.
+ */
+export function parseNSIL(xml: string): NSIL_Report {
+  const root = readXml(xml).children[0];
+  if (!root || localName(root.name) !== 'analysis_report') throw new SchemaValidationError('nsil-xml', ['$: expected nsil:analysis_report root element']);
+
+  const prefix = root.name.includes(':') ? root.name.slice(0, root.name.indexOf(':')) : '';
+  const namespace = root.attrs[prefix ? `xmlns:${prefix}` : 'xmlns'];
+  if (namespace !== NSIL_NAMESPACE) throw new SchemaValidationError('nsil-xml', [`$: expected namespace ${NSIL_NAMESPACE}, got ${namespace ?? 'none'}`]);
+
+  const errors: string[] = [];
+  const report = readElement(root, REPORT_SPEC, '$', errors) as NSIL_Report;
+  if (errors.length) throw new SchemaValidationError('nsil-xml', errors);
+  return report;
+}
+
+// --- Object Validation ---
+
+function checkValue(spec: Spec, value: unknown, path: string, errors: string[]) {
+  if (spec.kind === 'number') {
+    if (typeof value !== 'number') errors.push(`${path}: expected number`);
+  } else if (spec.kind === 'string') {
+    if (typeof value !== 'string') errors.push(`${path}: expected string`);
+  } else if (spec.kind === 'enum') {
+    if (!spec.values.includes(value as string)) errors.push(`${path}: expected one of ${spec.values.join(', ')}`);
+  } else if (spec.kind === 'list') {
+    if (!Array.isArray(value)) errors.push(`${path}: expected array`);
+    else value.forEach((v, i) => checkValue(spec.item, v, `${path}[${i}]`, errors));
+  } else if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected object`);
+  } else {
+    for (const [key, field] of Object.entries(spec.fields)) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v === undefined) { if (!field.optional) errors.push(`${path}.${key}: missing`); }
+      else checkValue(field.spec, v, `${path}.${key}`, errors);
+    }
+  }
+}
+
+/** Check a plain object (e.g. decoded JSON) against the NSIL 6.0 report shape. */
+export function validateNSILReport(value: unknown): string[] {
+  const errors: string[] = [];
+  checkValue(REPORT_SPEC, value, '$', errors);
+  return errors;
+}
+
+export type NSILSection = Exclude<keyof NSIL_Report, 'mode' | 'source_attribution' | 'fallback_sections'>;
+
+/** Validator for a single report section, e.g. one generated on its own. */
+export function nsilSectionValidator<K extends NSILSection>(section: K): Validator<NonNullable<NSIL_Report[K]>> {
+  const { spec } = (REPORT_SPEC as Extract<Spec, { kind: 'object' }>).fields[section];
+  return (value, path = '$') => {
+    const errors: string[] = [];
+    checkValue(spec, value, path, errors);
+    return errors;
+  };
+}
+
+function responseSchema(spec: Spec): Schema {
+  if (spec.kind === 'number') return { type: Type.NUMBER };
+  if (spec.kind === 'string') return { type: Type.STRING };
+  if (spec.kind === 'enum') return { type: Type.STRING, enum: [...spec.values] };
+  if (spec.kind === 'list') return { type: Type.ARRAY, items: responseSchema(spec.item) };
+  const fields = Object.entries(spec.fields);
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(([key, f]) => [key, responseSchema(f.spec)])),
+    required: fields.filter(([, f]) => !f.optional).map(([key]) => key)
+  };
+}
+
+/** Gemini responseSchema for a single report section. */
+export function nsilSectionResponseSchema(section: NSILSection): Schema {
+  return responseSchema((REPORT_SPEC as Extract<Spec, { kind: 'object' }>).fields[section].spec);
+}
+
+// --- XSD ---
+
+function xsdType(spec: Spec, indent: string, extraAttributes: string[] = []): string {
+  if (spec.kind === 'number') return `${indent}<xs:simpleType><xs:restriction base="xs:double"/></xs:simpleType>`;
+  if (spec.kind === 'string') return `${indent}<xs:simpleType><xs:restriction base="xs:string"/></xs:simpleType>`;
+  if (spec.kind === 'enum') {
+    return `${indent}<xs:simpleType>\n${indent}  <xs:restriction base="xs:string">\n${spec.values.map(v => `${indent}    <xs:enumeration value="${escapeXml(v)}"/>`).join('\n')}\n${indent}  </xs:restriction>\n${indent}</xs:simpleType>`;
+  }
+  if (spec.kind === 'list') {
+    return `${indent}<xs:complexType>\n${indent}  <xs:sequence>\n${xsdElement(spec.itemName, spec.item, indent + '    ', ' minOccurs="0" maxOccurs="unbounded"')}\n${indent}  </xs:sequence>\n${indent}</xs:complexType>`;
+  }
+
+  const fields = Object.entries(spec.fields);
+  const attributes = fields.filter(([, f]) => f.as === 'attribute').map(([key, f]) => {
+    const use = f.optional ? 'optional' : 'required';
+    if (f.spec.kind === 'enum') return `${indent}  <xs:attribute name="${key}" use="${use}">\n${xsdType(f.spec, indent + '    ')}\n${indent}  </xs:attribute>`;
+    return `${indent}  <xs:attribute name="${key}" type="${f.spec.kind === 'number' ? 'xs:double' : 'xs:string'}" use="${use}"/>`;
+  }).concat(extraAttributes.map(a => `${indent}  ${a}`));
+  const textField = fields.find(([, f]) => f.as === 'text');
+  if (textField) {
+    return `${indent}<xs:complexType>\n${indent}  <xs:simpleContent>\n${indent}    <xs:extension base="${textField[1].spec.kind === 'number' ? 'xs:double' : 'xs:string'}">\n${attributes.map(a => a.replace(/^/gm, '    ')).join('\n')}\n${indent}    </xs:extension>\n${indent}  </xs:simpleContent>\n${indent}</xs:complexType>`;
+  }
+  const elements = fields.filter(([, f]) => f.as === 'element').map(([key, f]) => xsdElement(key, f.spec, indent + '    ', f.optional ? ' minOccurs="0"' : ''));
+  return `${indent}<xs:complexType>\n${indent}  <xs:sequence>\n${elements.join('\n')}\n${indent}  </xs:sequence>\n${attributes.join('\n')}${attributes.length ? '\n' : ''}${indent}</xs:complexType>`;
+}
+
+function xsdElement(name: string, spec: Spec, indent: string, occurs = '', extraAttributes: string[] = []): string {
+  if (spec.kind === 'number' || spec.kind === 'string') {
+    return `${indent}<xs:element name="${name}" type="${spec.kind === 'number' ? 'xs:double' : 'xs:string'}"${occurs}/>`;
+  }
+  return `${indent}<xs:element name="${name}"${occurs}>\n${xsdType(spec, indent + '  ', extraAttributes)}\n${indent}</xs:element>`;
+}
+
+/** XSD for the nsil 6.0 namespace, generated from the same spec the serializer uses. */
+export function buildNSILSchema(): string {
+  // The root also carries the format version
+  const root = xsdElement('analysis_report', REPORT_SPEC, '  ', '', [`<xs:attribute name="version" type="xs:string" fixed="${NSIL_VERSION}"/>`]);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:nsil="${NSIL_NAMESPACE}"
+           targetNamespace="${NSIL_NAMESPACE}"
+           elementFormDefault="qualified"
+           attributeFormDefault="unqualified"
+           version="${NSIL_VERSION}">
+${root}
+</xs:schema>
+`;
+}
@@ -0,0 +1,145 @@
+import type { FeatureCategory, LatentAsset } from '../types';
+import { computeIVAS, ivasSensitivity, type IVASContext, type IVASProfile, type IVASResult, type IVASSensitivity } from './IVAS';
+import { runSCF, type SCFInput, type SCFOutput } from './SCFEngine';
+
+export type PortfolioOptions = {
+  ivasProfile?: string | IVASProfile;
+  ivasContext?: IVASContext;
+  capitalInvestmentUSD?: number; // applied to every candidate; otherwise a capex proxy from its market estimate
+  scf?: Omit<SCFInput, 'capitalInvestmentUSD'>;
+};
+
+export type PortfolioEntry = {
+  rank: number;
+  asset: LatentAsset;
+  ivas: IVASResult;
+  sensitivity: IVASSensitivity;
+  scf: SCFOutput;
+  capitalUSD: number;
+  impactPerDollar: number;
+  frontierLayer: number; // 1 = efficient frontier, 2 = frontier once layer 1 is removed, ...
+  dominatedBy: string[]; // asset ids at least as good on every axis and better on one
+};
+
+export type OpportunityPortfolio = {
+  entries: PortfolioEntry[]; // ranked
+  frontier: string[]; // asset ids on the efficient frontier
+  capitalSource: 'user' | 'capex-proxy';
+};
+
+// Where capex lands for each feature category; an asset averages its categories
+const CATEGORY_ALLOCATION: Record<FeatureCategory, Record<string, number>> = {
+  infrastructure: { 'Construction': 0.6, 'Manufacturing': 0.25, 'Services': 0.1, 'Trade & Transport': 0.05 },
+  talent: { 'Services': 0.6, 'Construction': 0.2, 'Manufacturing': 0.1, 'Trade & Transport': 0.1 },
+  resource: { 'Mining & Energy': 0.45, 'Construction': 0.35, 'Manufacturing': 0.15, 'Trade & Transport': 0.05 },
+  policy: { 'Construction': 0.4, 'Services': 0.35, 'Trade & Transport': 0.15, 'Manufacturing': 0.1 },
+  market: { 'Trade & Transport': 0.4, 'Services': 0.3, 'Manufacturing': 0.2, 'Construction': 0.1 }
+};
+
+export function sectorAllocationFor(asset: LatentAsset): Record<string, number> | undefined {
+  const categories = [...new Set((asset.synergyRules || []).flatMap(r => r.categories).filter((c): c is FeatureCategory => !!c))];
+  if (!categories.length) return undefined;
+  const allocation: Record<string, number> = {};
+  for (const c of categories) {
+    for (const [sector, share] of Object.entries(CATEGORY_ALLOCATION[c])) {
+      allocation[sector] = (allocation[sector] || 0) + share / categories.length;
+    }
+  }
+  return allocation;
+}
+
+// Up-front capex as a share of the addressable market; an asset averages its categories
+const CATEGORY_CAPEX_RATIO: Record<FeatureCategory, number> = {
+  infrastructure: 0.35,
+  resource: 0.3,
+  policy: 0.1,
+  market: 0.08,
+  talent: 0.05
+};
+const DEFAULT_CAPEX_RATIO = 0.15;
+
+// Market estimates compound feature proxies and run to trillions for rich
+// combinations, so the proxy is held to a single-programme scale
+export const MIN_PROXY_CAPITAL_USD = 1000000;
+export const MAX_PROXY_CAPITAL_USD = 250000000;
+
+export function capexProxyFor(asset: LatentAsset): number {
+  const categories = [...new Set((asset.synergyRules || []).flatMap(r => r.categories).filter((c): c is FeatureCategory => !!c))];
+  const ratio = categories.length
+    ? categories.reduce((s, c) => s + CATEGORY_CAPEX_RATIO[c], 0) / categories.length
+    : DEFAULT_CAPEX_RATIO;
+  const capital = Math.round(ratio * (asset.marketEstimateUSD || 0));
+  return Math.min(MAX_PROXY_CAPITAL_USD, Math.max(MIN_PROXY_CAPITAL_USD, capital));
+}
+
+type Axes = { id: string; impact: number; months: number; capital: number };
+
+// Higher impact, fewer activation months and less capital are all better
+const dominates = (a: Axes, b: Axes) =>
+  a.impact >= b.impact && a.months <= b.months && a.capital <= b.capital &&
+  (a.impact > b.impact || a.months < b.months || a.capital < b.capital);
+
+/** Non-dominated sorting: peel off the efficient frontier layer by layer. */
+export function paretoLayers(points: Axes[]): Map<string, number> {
+  const layers = new Map<string, number>();
+  let remaining = [...points];
+  for (let layer = 1; remaining.length; layer++) {
+    const front = remaining.filter(p => !remaining.some(q => q !== p && dominates(q, p)));
+    front.forEach(p => layers.set(p.id, layer));
+    remaining = remaining.filter(p => !front.includes(p));
+  }
+  return layers;
+}
+
+/**
+ * Run IVAS and SCF for every candidate and rank them: frontier layer first,
+ * then IVAS score, then total impact.
+ */
+export function buildPortfolio(assets: LatentAsset[], options: PortfolioOptions = {}): OpportunityPortfolio {
+  const context = options.ivasContext ?? { regionAmbition: 60, regulatoryFriction: 40 };
+  const userCapital = options.capitalInvestmentUSD && options.capitalInvestmentUSD > 0 ? options.capitalInvestmentUSD : undefined;
+
+  const scored = assets.map(asset => {
+    const capitalUSD = userCapital ?? capexProxyFor(asset);
+    const ivas = computeIVAS(asset, context, options.ivasProfile);
+    const scf = runSCF({
+      years: 5,
+      sectorAllocation: sectorAllocationFor(asset),
+      ...options.scf,
+      capitalInvestmentUSD: capitalUSD
+    });
+    return {
+      asset,
+      ivas,
+      sensitivity: ivasSensitivity(asset, context, options.ivasProfile),
+      scf,
+      capitalUSD,
+      impactPerDollar: Math.round(scf.totalEconomicImpactUSD / capitalUSD * 100) / 100
+    };
+  });
+
+  const axes: Axes[] = scored.map(s => ({ id: s.asset.id, impact: s.scf.totalEconomicImpactUSD, months: s.ivas.activationMonths, capital: s.capitalUSD }));
+  const layers = paretoLayers(axes);
+
+  const entries: PortfolioEntry[] = scored
+    .map(s => {
+      const self = axes.find(a => a.id === s.asset.id)!;
+      return {
+        ...s,
+        rank: 0,
+        frontierLayer: layers.get(s.asset.id) ?? 1,
+        dominatedBy: axes.filter(a => dominates(a, self)).map(a => a.id)
+      };
+    })
+    .sort((a, b) =>
+      a.frontierLayer - b.frontierLayer ||
+      b.ivas.ivasScore - a.ivas.ivasScore ||
+      b.scf.totalEconomicImpactUSD - a.scf.totalEconomicImpactUSD)
+    .map((e, i) => ({ ...e, rank: i + 1 }));
+
+  return {
+    entries,
+    frontier: entries.filter(e => e.frontierLayer === 1).map(e => e.asset.id),
+    capitalSource: userCapital ? 'user' : 'capex-proxy'
+  };
+}
@@ -0,0 +1,342 @@
+import { jsPDF } from 'jspdf';
+import type { ReportBlock } from './NSILRenderers';
+
+// Text-native PDF layout for report blocks: real text, vector charts, a linked
+// table of contents, bookmarks and page numbering. Units are millimetres.
+
+type RGB = [number, number, number];
+
+export type PdfBranding = {
+  organisation: string;
+  accent: RGB;
+  footer: string;
+};
+
+export const DEFAULT_PDF_BRANDING: PdfBranding = {
+  organisation: 'BW Nexus AI',
+  accent: [234, 88, 12],
+  footer: 'Confidential Analysis Document'
+};
+
+export type PdfDocumentSpec = {
+  title: string;
+  subtitle?: string;
+  date?: Date;
+  blocks: ReportBlock[];
+  branding?: Partial<PdfBranding>;
+};
+
+const PAGE = { width: 210, height: 297, margin: 20, top: 24, bottom: 22 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+const INK: RGB = [31, 41, 55];
+const MUTED: RGB = [107, 114, 128];
+const RULE: RGB = [209, 213, 219];
+const HEADER_FILL: RGB = [243, 244, 246];
+const NEGATIVE: RGB = [185, 28, 28];
+
+const PT = 0.3528; // mm per point
+const lineHeight = (size: number, spacing = 1.35) => size * PT * spacing;
+
+// Standard PDF fonts only cover WinAnsi; anything else would print as garbage
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const pdfText = (text: string) => text.replace(/\t/g, ' ').replace(/[^\n\u0020-\u00FF]/g, c => WIN_ANSI_EXTRAS.includes(c) ? c : '?');
+
+type Heading = { level: 2 | 3; text: string; page: number; y: number };
+
+type Layout = {
+  doc: jsPDF;
+  branding: PdfBranding;
+  y: number;
+  headings: Heading[];
+};
+
+// --- Primitives ---
+
+const setFont = (layout: Layout, size: number, style: 'normal' | 'bold' = 'normal', color: RGB = INK) => {
+  layout.doc.setFont('helvetica', style);
+  layout.doc.setFontSize(size);
+  layout.doc.setTextColor(...color);
+};
+
+const newPage = (layout: Layout) => {
+  layout.doc.addPage();
+  layout.y = PAGE.top;
+};
+
+/** Start a new page unless `height` still fits on this one. */
+const ensure = (layout: Layout, height: number) => {
+  if (layout.y + height > PAGE.height - PAGE.bottom) newPage(layout);
+};
+
+const wrap = (layout: Layout, text: string, width: number): string[] => layout.doc.splitTextToSize(pdfText(text), width);
+
+function writeLines(layout: Layout, lines: string[], x: number, size: number) {
+  const lh = lineHeight(size);
+  for (const line of lines) {
+    ensure(layout, lh);
+    layout.doc.text(line, x, layout.y + size * PT);
+    layout.y += lh;
+  }
+}
+
+// --- Blocks ---
+
+function heading(layout: Layout, level: 1 | 2 | 3, text: string) {
+  const size = level === 1 ? 18 : level === 2 ? 14 : 11.5;
+  setFont(layout, size, 'bold', level === 2 ? layout.branding.accent : INK);
+  const lines = wrap(layout, text, CONTENT_WIDTH);
+  // Keep the heading with at least a few lines of what follows
+  ensure(layout, (level === 3 ? 3 : 6) + lines.length * lineHeight(size) + 15);
+  layout.y += level === 3 ? 3 : 6;
+  if (level !== 1) layout.headings.push({ level, text, page: layout.doc.getNumberOfPages(), y: layout.y });
+  writeLines(layout, lines, PAGE.margin, size);
+  if (level !== 3) {
+    layout.doc.setDrawColor(...RULE);
+    layout.doc.setLineWidth(0.3);
+    layout.doc.line(PAGE.margin, layout.y + 0.5, PAGE.width - PAGE.margin, layout.y + 0.5);
+    layout.y += 2;
+  }
+  layout.y += 2;
+}
+
+function paragraph(layout: Layout, text: string) {
+  setFont(layout, 10.5);
+  writeLines(layout, wrap(layout, text, CONTENT_WIDTH), PAGE.margin, 10.5);
+  layout.y += 2.5;
+}
+
+function bullets(layout: Layout, items: string[]) {
+  const indent = 5;
+  for (const item of items) {
+    setFont(layout, 10.5);
+    const lines = wrap(layout, item, CONTENT_WIDTH - indent);
+    ensure(layout, lineHeight(10.5));
+    layout.doc.text('•', PAGE.margin + 1, layout.y + 10.5 * PT);
+    writeLines(layout, lines, PAGE.margin + indent, 10.5);
+    layout.y += 1;
+  }
+  layout.y += 2;
+}
+
+/**
+ * Columns get their natural width when everything fits, otherwise at least
+ * their longest word and a share of the rest in proportion to their content.
+ */
+function columnWidths(layout: Layout, header: string[], rows: string[][], padding: number): number[] {
+  const doc = layout.doc;
+  const cells = (i: number) => [header[i], ...rows.map(r => r[i] ?? '')].map(pdfText);
+  const natural = header.map((_, i) => Math.max(...cells(i).map(c => doc.getTextWidth(c))) + padding);
+  const minimum = header.map((_, i) => Math.max(...cells(i).flatMap(c => c.split(/\s+/)).map(w => doc.getTextWidth(w))) + padding);
+  const total = natural.reduce((a, b) => a + b, 0);
+  if (total <= CONTENT_WIDTH) return natural.map(w => w * CONTENT_WIDTH / total);
+
+  const minTotal = minimum.reduce((a, b) => a + b, 0);
+  if (minTotal >= CONTENT_WIDTH) return minimum.map(w => w * CONTENT_WIDTH / minTotal);
+  const slack = natural.map((w, i) => w - minimum[i]);
+  const slackTotal = slack.reduce((a, b) => a + b, 0) || 1;
+  return minimum.map((w, i) => w + slack[i] * (CONTENT_WIDTH - minTotal) / slackTotal);
+}
+
+function table(layout: Layout, header: string[], rows: string[][]) {
+  const size = 9;
+  const pad = 1.8;
+  const lh = lineHeight(size, 1.25);
+  const doc = layout.doc;
+  setFont(layout, size, 'bold');
+  const widths = columnWidths(layout, header, rows, 2 * pad);
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    setFont(layout, size, bold ? 'bold' : 'normal');
+    const wrapped = widths.map((w, i) => wrap(layout, cells[i] ?? '', w - 2 * pad));
+    const height = Math.max(...wrapped.map(l => l.length)) * lh + 2 * pad;
+    return { wrapped, height };
+  };
+  const paint = (row: { wrapped: string[][]; height: number }, bold: boolean) => {
+    if (bold) {
+      doc.setFillColor(...HEADER_FILL);
+      doc.rect(PAGE.margin, layout.y, CONTENT_WIDTH, row.height, 'F');
+    }
+    setFont(layout, size, bold ? 'bold' : 'normal');
+    let x = PAGE.margin;
+    row.wrapped.forEach((lines, i) => {
+      lines.forEach((line, j) => doc.text(line, x + pad, layout.y + pad + size * PT + j * lh));
+      x += widths[i];
+    });
+    layout.y += row.height;
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.2);
+    doc.line(PAGE.margin, layout.y, PAGE.width - PAGE.margin, layout.y);
+  };
+
+  const head = drawRow(header, true);
+  const body = rows.map(r => drawRow(r, false));
+  // Never leave a header alone at the bottom of a page
+  ensure(layout, head.height + (body[0]?.height ?? 0));
+  paint(head, true);
+  for (const row of body) {
+    if (layout.y + row.height > PAGE.height - PAGE.bottom) {
+      newPage(layout);
+      paint(head, true);
+    }
+    paint(row, false);
+  }
+  layout.y += 4;
+}
+
+/** Horizontal bar chart drawn with vector primitives; handles negative values. */
+function chart(layout: Layout, block: Extract<ReportBlock, { type: 'chart' }>) {
+  const doc = layout.doc;
+  const barHeight = 5;
+  const rowHeight = 8;
+  const labelWidth = 50;
+  const valueWidth = 24;
+  const plotX = PAGE.margin + labelWidth + 2;
+  const plotWidth = CONTENT_WIDTH - labelWidth - 2 - valueWidth;
+
+  ensure(layout, 10 + block.values.length * rowHeight + 4);
+  setFont(layout, 10, 'bold');
+  doc.text(pdfText(block.title), PAGE.margin, layout.y + 10 * PT);
+  layout.y += 6;
+
+  const min = Math.min(0, ...block.values);
+  const max = Math.max(0, ...block.values);
+  const span = max - min || 1;
+  const xOf = (v: number) => plotX + (v - min) / span * plotWidth;
+  const top = layout.y;
+
+  block.values.forEach((value, i) => {
+    const y = top + i * rowHeight;
+    setFont(layout, 8.5, 'normal', MUTED);
+    const label = wrap(layout, block.labels[i], labelWidth)[0] ?? '';
+    doc.text(label, PAGE.margin, y + rowHeight / 2 + 1);
+
+    const x0 = xOf(Math.min(0, value));
+    const x1 = xOf(Math.max(0, value));
+    doc.setFillColor(...(value < 0 ? NEGATIVE : layout.branding.accent));
+    doc.rect(x0, y + (rowHeight - barHeight) / 2, Math.max(x1 - x0, 0.3), barHeight, 'F');
+
+    setFont(layout, 8.5, 'bold');
+    doc.text(pdfText(block.valueLabels[i]), (value < 0 ? xOf(0) : x1) + 1.5, y + rowHeight / 2 + 1);
+  });
+
+  const bottom = top + block.values.length * rowHeight;
+  doc.setDrawColor(...MUTED);
+  doc.setLineWidth(0.3);
+  doc.line(xOf(0), top, xOf(0), bottom);
+  layout.y = bottom + 6;
+}
+
+// --- Front Matter & Page Furniture ---
+
+function coverPage(layout: Layout, spec: PdfDocumentSpec) {
+  const { doc, branding } = layout;
+  doc.setFillColor(...branding.accent);
+  doc.rect(0, 0, PAGE.width, 90, 'F');
+
+  setFont(layout, 12, 'bold', [255, 255, 255]);
+  doc.text(pdfText(branding.organisation.toUpperCase()), PAGE.margin, 28);
+  setFont(layout, 26, 'bold', [255, 255, 255]);
+  layout.y = 42;
+  writeLines(layout, wrap(layout, spec.title, CONTENT_WIDTH), PAGE.margin, 26);
+
+  layout.y = 104;
+  if (spec.subtitle) {
+    setFont(layout, 14, 'normal', INK);
+    writeLines(layout, wrap(layout, spec.subtitle, CONTENT_WIDTH), PAGE.margin, 14);
+    layout.y += 4;
+  }
+  setFont(layout, 11, 'normal', MUTED);
+  const date = spec.date ?? new Date();
+  doc.text(date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }), PAGE.margin, layout.y + 4);
+
+  setFont(layout, 9, 'normal', MUTED);
+  doc.text(pdfText(branding.footer), PAGE.margin, PAGE.height - PAGE.margin);
+}
+
+const TOC_LINE = 7;
+const TOC_FIRST_Y = PAGE.top + 16;
+const tocLinesPerPage = () => Math.floor((PAGE.height - PAGE.bottom - TOC_FIRST_Y) / TOC_LINE);
+
+function tableOfContents(layout: Layout, firstPage: number) {
+  const doc = layout.doc;
+  const entries = layout.headings.filter(h => h.level === 2);
+  entries.forEach((entry, i) => {
+    const page = firstPage + Math.floor(i / tocLinesPerPage());
+    doc.setPage(page);
+    if (i % tocLinesPerPage() === 0) {
+      setFont(layout, 18, 'bold');
+      doc.text('Contents', PAGE.margin, PAGE.top + 6);
+    }
+    const y = TOC_FIRST_Y + (i % tocLinesPerPage()) * TOC_LINE;
+    const number = String(entry.page);
+    setFont(layout, 11);
+    const title = wrap(layout, entry.text, CONTENT_WIDTH - 20)[0];
+    doc.text(title, PAGE.margin, y);
+    doc.text(number, PAGE.width - PAGE.margin, y, { align: 'right' });
+
+    // Dotted leader between title and page number
+    const from = PAGE.margin + doc.getTextWidth(title) + 2;
+    const to = PAGE.width - PAGE.margin - doc.getTextWidth(number) - 2;
+    doc.setDrawColor(...RULE);
+    doc.setLineDashPattern([0.4, 1.2], 0);
+    if (to > from) doc.line(from, y, to, y);
+    doc.setLineDashPattern([], 0);
+    doc.link(PAGE.margin, y - 5, CONTENT_WIDTH, TOC_LINE, { pageNumber: entry.page });
+  });
+}
+
+function bookmarks(layout: Layout) {
+  let parent: unknown = null;
+  for (const h of layout.headings) {
+    if (h.level === 2) parent = layout.doc.outline.add(null, pdfText(h.text), { pageNumber: h.page });
+    else layout.doc.outline.add(parent, pdfText(h.text), { pageNumber: h.page });
+  }
+}
+
+function pageFurniture(layout: Layout, title: string) {
+  const { doc, branding } = layout;
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...branding.accent);
+    doc.setLineWidth(0.6);
+    doc.line(PAGE.margin, 12, PAGE.width - PAGE.margin, 12);
+    setFont(layout, 8, 'normal', MUTED);
+    doc.text(pdfText(branding.organisation), PAGE.margin, 10);
+    doc.text(wrap(layout, title, CONTENT_WIDTH / 2)[0], PAGE.width - PAGE.margin, 10, { align: 'right' });
+    doc.text(pdfText(branding.footer), PAGE.margin, PAGE.height - 10);
+    doc.text(`Page ${page} of ${total}`, PAGE.width - PAGE.margin, PAGE.height - 10, { align: 'right' });
+  }
+}
+
+// --- Composer ---
+
+export function composePdf(spec: PdfDocumentSpec): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const branding = { ...DEFAULT_PDF_BRANDING, ...spec.branding };
+  const layout: Layout = { doc, branding, y: PAGE.top, headings: [] };
+  doc.setProperties({ title: spec.title, subject: spec.subtitle ?? '', author: branding.organisation, creator: branding.organisation });
+
+  coverPage(layout, spec);
+
+  // Contents pages are reserved up front so section page numbers are final
+  const sections = spec.blocks.filter(b => b.type === 'heading' && b.level === 2).length;
+  const tocPages = sections ? Math.ceil(sections / tocLinesPerPage()) : 0;
+  for (let i = 0; i < tocPages; i++) doc.addPage();
+  newPage(layout);
+
+  for (const block of spec.blocks) {
+    switch (block.type) {
+      case 'heading': heading(layout, block.level, block.text); break;
+      case 'paragraph': paragraph(layout, block.text); break;
+      case 'bullets': bullets(layout, block.items); break;
+      case 'table': table(layout, block.header, block.rows); break;
+      case 'chart': chart(layout, block); break;
+    }
+  }
+
+  if (tocPages) tableOfContents(layout, 2);
+  bookmarks(layout);
+  pageFurniture(layout, spec.title);
+  return doc;
+}
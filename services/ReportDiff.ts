@@ -0,0 +1,212 @@
+import type { GeopoliticalAnalysisResult, GovernanceAuditResult, ReportParameters, RROI_Index, SymbioticPartner } from '../types';
+import type { IVASResult } from './IVAS';
+import type { ReportVersion } from './ReportRepository';
+import { blocksToMarkdown, downloadContent, type ReportBlock } from './NSILRenderers';
+import { composePdf } from './PdfComposer';
+
+export type ParameterChange = { field: keyof ReportParameters; before: unknown; after: unknown };
+
+export type ScoreDelta = {
+  metric: string;
+  scale: number; // 10 for the URP Index, 100 for everything else
+  before?: number;
+  after?: number;
+  delta?: number; // only when both versions have the score
+};
+
+export type PartnerRescore = { entityName: string; before: number; after: number };
+
+export type ReportVersionDiff = {
+  reportId: string;
+  from: Pick<ReportVersion, 'version' | 'savedAt' | 'label'>;
+  to: Pick<ReportVersion, 'version' | 'savedAt' | 'label'>;
+  parameters: ParameterChange[];
+  scores: ScoreDelta[]; // every score present in either version, changed or not
+  partners: { added: SymbioticPartner[]; removed: SymbioticPartner[]; rescored: PartnerRescore[] };
+};
+
+// Identity and workflow state, not mission inputs; the upload labels mirror `documents`
+const IGNORED_PARAMETERS = new Set<string>(['reportId', 'createdAt', 'status', 'uploadedFileName', 'uploadedDocument']);
+
+// --- Scores ---
+
+type ScoreReader = (version: ReportVersion) => Record<string, number>;
+
+const at = (value: number | undefined, metric: string): Record<string, number> =>
+  typeof value === 'number' && Number.isFinite(value) ? { [metric]: value } : {};
+
+const SCORE_READERS: { scale: number; read: ScoreReader }[] = [
+  { scale: 10, read: v => at((v.modules.urp as { urpIndex?: number } | undefined)?.urpIndex, 'URP Index') },
+  {
+    scale: 100,
+    read: v => {
+      const rroi = v.modules.rroi as RROI_Index | undefined;
+      if (!rroi) return {};
+      return Object.values(rroi.components || {}).reduce(
+        (acc, c) => ({ ...acc, ...at(c.score, `RROI: ${c.name}`) }),
+        at(rroi.overallScore, 'RROI overall')
+      );
+    }
+  },
+  { scale: 100, read: v => at((v.modules.ivas as IVASResult | undefined)?.ivasScore, 'IVAS') },
+  {
+    scale: 100,
+    read: v => {
+      const audit = v.modules.governance_audit as GovernanceAuditResult | undefined;
+      return {
+        ...at(audit?.governanceScore, 'Governance score'),
+        ...at(audit?.transparencyIndex, 'Transparency index'),
+        ...at(audit?.regulatoryFriction, 'Regulatory friction')
+      };
+    }
+  },
+  {
+    scale: 100,
+    read: v => {
+      const geo = v.modules.geopolitics as GeopoliticalAnalysisResult | undefined;
+      return {
+        ...at(geo?.stabilityScore, 'Geopolitical stability'),
+        ...at(geo?.regionalConflictRisk, 'Regional conflict risk')
+      };
+    }
+  },
+  { scale: 100, read: v => at(v.report?.executive_summary?.overall_score, 'NSIL overall score') }
+];
+
+function diffScores(from: ReportVersion, to: ReportVersion): ScoreDelta[] {
+  return SCORE_READERS.flatMap(({ scale, read }) => {
+    const before = read(from);
+    const after = read(to);
+    const metrics = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return metrics.map(metric => {
+      const delta: ScoreDelta = { metric, scale, before: before[metric], after: after[metric] };
+      if (delta.before !== undefined && delta.after !== undefined) delta.delta = delta.after - delta.before;
+      return delta;
+    });
+  });
+}
+
+// --- Partners ---
+
+const partnerKey = (p: SymbioticPartner) => p.entityName.trim().toLowerCase();
+
+function diffPartners(from: ReportVersion, to: ReportVersion): ReportVersionDiff['partners'] {
+  const before = new Map(((from.modules.symbiotic_matchmaking as SymbioticPartner[] | undefined) || []).map(p => [partnerKey(p), p]));
+  const after = new Map(((to.modules.symbiotic_matchmaking as SymbioticPartner[] | undefined) || []).map(p => [partnerKey(p), p]));
+  return {
+    added: [...after].filter(([key]) => !before.has(key)).map(([, p]) => p),
+    removed: [...before].filter(([key]) => !after.has(key)).map(([, p]) => p),
+    rescored: [...after]
+      .filter(([key, p]) => before.has(key) && before.get(key)!.symbiosisScore !== p.symbiosisScore)
+      .map(([key, p]) => ({ entityName: p.entityName, before: before.get(key)!.symbiosisScore, after: p.symbiosisScore }))
+  };
+}
+
+// --- Diff ---
+
+/**
+ * Compare two saved versions of a report: mission parameters that changed,
+ * score movements across the analysis modules, and the partner shortlist.
+ */
+export function diffReportVersions(reportId: string, from: ReportVersion, to: ReportVersion): ReportVersionDiff {
+  const fields = [...new Set([...Object.keys(from.params), ...Object.keys(to.params)])]
+    .filter(field => !IGNORED_PARAMETERS.has(field)) as (keyof ReportParameters)[];
+
+  return {
+    reportId,
+    from: { version: from.version, savedAt: from.savedAt, label: from.label },
+    to: { version: to.version, savedAt: to.savedAt, label: to.label },
+    parameters: fields
+      .filter(field => JSON.stringify(from.params[field]) !== JSON.stringify(to.params[field]))
+      .map(field => ({ field, before: from.params[field], after: to.params[field] })),
+    scores: diffScores(from, to),
+    partners: diffPartners(from, to)
+  };
+}
+
+// --- Change Memo ---
+
+export const formatParameterValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.map(formatParameterValue).join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  // Named items, e.g. document refs, are listed by name
+  if (typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string') return (value as { name: string }).name;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 'riskTolerance' -> 'Risk tolerance'
+export const parameterLabel = (field: string): string => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const fmtScore = (n: number | undefined, scale: number) => n === undefined ? '—' : `${Math.round(n * 10) / 10}/${scale}`;
+const fmtDelta = (n: number | undefined) => n === undefined ? 'n/a' : n === 0 ? '0' : `${n > 0 ? '+' : ''}${Math.round(n * 10) / 10}`;
+const versionLine = (v: ReportVersionDiff['from']) => `v${v.version} (${v.label}, ${new Date(v.savedAt).toLocaleString('en-US')})`;
+
+export function buildChangeMemo(diff: ReportVersionDiff, reportName: string): ReportBlock[] {
+  const moved = diff.scores.filter(s => s.delta !== undefined && s.delta !== 0).length;
+  const oneSided = diff.scores.filter(s => s.delta === undefined).length;
+  const { added, removed, rescored } = diff.partners;
+
+  const blocks: ReportBlock[] = [
+    { type: 'heading', level: 1, text: `Change Memo: ${reportName || 'Untitled Analysis'}` },
+    { type: 'paragraph', text: `Compares ${versionLine(diff.from)} with ${versionLine(diff.to)}.` },
+    {
+      type: 'bullets',
+      items: [
+        `${diff.parameters.length} mission parameter${diff.parameters.length === 1 ? '' : 's'} changed`,
+        `${moved} score${moved === 1 ? '' : 's'} moved` + (oneSided ? `, ${oneSided} only in one version` : ''),
+        `${added.length} partner${added.length === 1 ? '' : 's'} added, ${removed.length} removed, ${rescored.length} rescored`
+      ]
+    },
+    { type: 'heading', level: 2, text: 'Mission Parameters' }
+  ];
+
+  blocks.push(diff.parameters.length
+    ? { type: 'table', header: ['Field', 'Before', 'After'], rows: diff.parameters.map(c => [parameterLabel(c.field), formatParameterValue(c.before), formatParameterValue(c.after)]) }
+    : { type: 'paragraph', text: 'No mission parameters changed.' });
+
+  blocks.push({ type: 'heading', level: 2, text: 'Score Movements' });
+  blocks.push(diff.scores.length
+    ? { type: 'table', header: ['Metric', 'Before', 'After', 'Change'], rows: diff.scores.map(s => [s.metric, fmtScore(s.before, s.scale), fmtScore(s.after, s.scale), fmtDelta(s.delta)]) }
+    : { type: 'paragraph', text: 'Neither version has generated module scores.' });
+
+  blocks.push({ type: 'heading', level: 2, text: 'Partner Shortlist' });
+  if (!added.length && !removed.length && !rescored.length) {
+    blocks.push({ type: 'paragraph', text: 'The partner shortlist is unchanged.' });
+  }
+  if (added.length) {
+    blocks.push({ type: 'heading', level: 3, text: 'Added' });
+    blocks.push({ type: 'table', header: ['Partner', 'Type', 'Location', 'Symbiosis'], rows: added.map(p => [p.entityName, p.entityType, p.location, `${p.symbiosisScore}/100`]) });
+  }
+  if (removed.length) {
+    blocks.push({ type: 'heading', level: 3, text: 'Removed' });
+    blocks.push({ type: 'table', header: ['Partner', 'Type', 'Location', 'Symbiosis'], rows: removed.map(p => [p.entityName, p.entityType, p.location, `${p.symbiosisScore}/100`]) });
+  }
+  if (rescored.length) {
+    blocks.push({ type: 'heading', level: 3, text: 'Rescored' });
+    blocks.push({ type: 'table', header: ['Partner', 'Before', 'After', 'Change'], rows: rescored.map(r => [r.entityName, `${r.before}/100`, `${r.after}/100`, fmtDelta(r.after - r.before)]) });
+  }
+  return blocks;
+}
+
+export type ChangeMemoFormat = 'markdown' | 'pdf';
+
+export function renderChangeMemo(diff: ReportVersionDiff, reportName: string, format: ChangeMemoFormat): string | Uint8Array {
+  const blocks = buildChangeMemo(diff, reportName);
+  if (format === 'markdown') return blocksToMarkdown(blocks);
+  // The cover page carries the title heading
+  const doc = composePdf({ title: (blocks[0] as { text: string }).text, subtitle: `Version ${diff.from.version} to version ${diff.to.version}`, blocks: blocks.slice(1) });
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+/** Browser helper: render and save the change memo. */
+export function downloadChangeMemo(diff: ReportVersionDiff, reportName: string, format: ChangeMemoFormat): void {
+  const basename = `${(reportName || 'report').replace(/\s+/g, '-')}-v${diff.from.version}-v${diff.to.version}-changes`;
+  const content = renderChangeMemo(diff, reportName, format);
+  if (format === 'markdown') downloadContent(content, 'text/markdown', `${basename}.md`);
+  else downloadContent(content, 'application/pdf', `${basename}.pdf`);
+}
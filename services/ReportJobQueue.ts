@@ -0,0 +1,301 @@
+import type { AnalysisMode, GeopoliticalAnalysisResult, GovernanceAuditResult, NSIL_Report, ReportParameters, RROI_Index } from '../types';
+import { calculateURPIndex, generateDeepReasoning, generateRROI, generateSEAM, generateSymbioticMatches, runGeopoliticalAnalysis, runGovernanceAudit } from './nexusService';
+import { NSILProcessor, describeFindings, type ModuleFindings } from './NSILProcessor';
+
+// --- Stages ---
+
+export type ReportStage = {
+  id: string;
+  label: string;
+  dependsOn: string[]; // only enforced between stages that are part of the job
+  run(params: ReportParameters, results: Record<string, unknown>, signal: AbortSignal): Promise<unknown>;
+};
+
+const G2G_INTENTS = ['forge_partnership', 'develop_policy'];
+const MATCHMAKING_INTENTS = ['forge_partnership', 'joint_venture'];
+
+export function analysisModeFor(params: ReportParameters): AnalysisMode {
+  const intents = params.selectedIntents || [];
+  if (/government/i.test(params.organizationType) && intents.some(i => G2G_INTENTS.includes(i))) return 'g2g_alignment';
+  if (params.partnerDiscoveryMode || intents.some(i => MATCHMAKING_INTENTS.includes(i))) return 'matchmaking';
+  return 'market_analysis';
+}
+
+// URP always runs first and the NSIL report always runs last
+const URP_STAGE = 'urp';
+const REPORT_STAGE = 'nsil_report';
+
+const findingsFrom = (results: Record<string, unknown>): ModuleFindings => ({
+  rroi: results.rroi as RROI_Index | undefined,
+  geopolitics: results.geopolitics as GeopoliticalAnalysisResult | undefined,
+  governanceAudit: results.governance_audit as GovernanceAuditResult | undefined
+});
+
+const STAGES: ReportStage[] = [
+  { id: URP_STAGE, label: 'URP Index', dependsOn: [], run: async params => calculateURPIndex(params) },
+  { id: 'rroi', label: 'RROI Diagnostic', dependsOn: [URP_STAGE], run: (params, _, signal) => generateRROI(params, signal) },
+  { id: 'geopolitics', label: 'Geopolitical & Economic Forecast', dependsOn: [URP_STAGE], run: (params, _, signal) => runGeopoliticalAnalysis(params, signal) },
+  { id: 'governance_audit', label: 'Governance Integrity Audit', dependsOn: [URP_STAGE], run: (params, _, signal) => runGovernanceAudit(params, signal) },
+  { id: 'seam', label: 'Ecosystem Mapping (SEAM)', dependsOn: [URP_STAGE], run: (params, _, signal) => generateSEAM(params, signal) },
+  { id: 'symbiotic_matchmaking', label: 'Symbiotic Discovery', dependsOn: ['seam'], run: (params, _, signal) => generateSymbioticMatches(params, signal) },
+  {
+    id: 'deep_reasoning',
+    label: 'Deep Reasoning Engine',
+    dependsOn: ['rroi', 'geopolitics', 'governance_audit'],
+    run: (params, results, signal) => {
+      // Earlier findings become part of the critic's context
+      const findings = describeFindings(findingsFrom(results)).join('\n');
+      return generateDeepReasoning(params.organizationType, params.idealPartnerProfile || params.region, `${params.problemStatement}\n${findings}`, params, signal);
+    }
+  },
+  {
+    id: REPORT_STAGE,
+    label: 'NSIL Report',
+    dependsOn: ['*'],
+    // Module outputs ground the report so its sections agree with the stages before it
+    run: (params, results, signal) => NSILProcessor.generateNSILReport(params, analysisModeFor(params), findingsFrom(results), signal)
+  }
+];
+
+const stageById = new Map(STAGES.map(s => [s.id, s]));
+
+export const listReportStages = (): ReportStage[] => [...STAGES];
+
+/**
+ * Dependency-ordered stage ids for the selected modules. Modules without a
+ * headless stage (interactive canvas tools) are returned separately.
+ */
+export function planReportStages(modules: string[]): { stages: string[]; unsupported: string[] } {
+  const selected = new Set([URP_STAGE, ...modules.filter(m => stageById.has(m)), REPORT_STAGE]);
+  const unsupported = [...new Set(modules.filter(m => !stageById.has(m)))];
+
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (id: string) => {
+    if (ordered.includes(id)) return;
+    if (visiting.has(id)) throw new Error(`Report stage dependency cycle at "${id}"`);
+    visiting.add(id);
+    const deps = stageById.get(id)!.dependsOn;
+    (deps.includes('*') ? [...selected].filter(d => d !== id) : deps.filter(d => selected.has(d))).forEach(visit);
+    visiting.delete(id);
+    ordered.push(id);
+  };
+  // Registry order breaks ties, so the plan is stable
+  STAGES.filter(s => selected.has(s.id)).forEach(s => visit(s.id));
+  return { stages: ordered, unsupported };
+}
+
+// --- Jobs ---
+
+export type ReportJobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+export type ReportStageStatus = 'pending' | 'running' | 'complete' | 'failed' | 'skipped';
+
+export type ReportJobStage = {
+  id: string;
+  label: string;
+  status: ReportStageStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+};
+
+export type ReportJob = {
+  id: string;
+  reportId: string;
+  params: ReportParameters;
+  status: ReportJobStatus;
+  stages: ReportJobStage[];
+  results: Record<string, unknown>; // completed stage outputs, so a resumed job skips them
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+};
+
+export type ReportArtifact = {
+  reportId: string;
+  jobId: string;
+  completedAt: string;
+  report: NSIL_Report;
+  modules: Record<string, unknown>;
+};
+
+export const jobProgress = (job: ReportJob): number =>
+  job.stages.filter(s => s.status === 'complete' || s.status === 'skipped').length / (job.stages.length || 1);
+
+const JOBS_KEY = 'bw-nexus-report-jobs';
+const ARTIFACTS_KEY = 'bw-nexus-report-artifacts';
+// Finished jobs are history only (the repository keeps their results); older ones are dropped
+const MAX_FINISHED_JOBS = 20;
+
+const now = () => new Date().toISOString();
+
+/**
+ * Runs report jobs one at a time, persisting every stage transition so jobs
+ * interrupted by a reload pick up from the first unfinished stage.
+ */
+export class ReportJobQueue {
+  private jobs: ReportJob[] = [];
+  private artifacts: Record<string, ReportArtifact> = {};
+  private controllers = new Map<string, AbortController>();
+  private activeJobId: string | null = null;
+  private listeners = new Set<(job: ReportJob) => void>();
+
+  constructor() {
+    this.load();
+    // Anything still marked running was cut off by a reload
+    this.jobs.filter(j => j.status === 'running').forEach(j => {
+      j.status = 'queued';
+      j.stages.filter(s => s.status === 'running').forEach(s => { s.status = 'pending'; delete s.startedAt; });
+    });
+    this.save();
+    this.pump();
+  }
+
+  enqueue(params: ReportParameters): ReportJob {
+    const { stages, unsupported } = planReportStages(params.analyticalModules || []);
+    const job: ReportJob = {
+      id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      reportId: params.reportId,
+      params,
+      status: 'queued',
+      stages: [
+        ...stages.map(id => ({ id, label: stageById.get(id)!.label, status: 'pending' as const })),
+        ...unsupported.map(id => ({ id, label: id, status: 'skipped' as const, error: 'Interactive module; run it from the Strategic Canvas' }))
+      ],
+      results: {},
+      createdAt: now(),
+      updatedAt: now()
+    };
+    this.jobs.push(job);
+    this.update(job);
+    this.pump();
+    return job;
+  }
+
+  cancel(jobId: string): void {
+    const job = this.get(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    this.controllers.get(jobId)?.abort();
+    job.status = 'cancelled';
+    job.stages.filter(s => s.status === 'running').forEach(s => { s.status = 'pending'; delete s.startedAt; });
+    this.update(job);
+  }
+
+  /** Re-queue a cancelled or failed job; finished stages are not run again. */
+  resume(jobId: string): void {
+    const job = this.get(jobId);
+    if (!job || (job.status !== 'cancelled' && job.status !== 'failed')) return;
+    job.status = 'queued';
+    delete job.error;
+    job.stages.filter(s => s.status === 'failed').forEach(s => { s.status = 'pending'; delete s.error; });
+    this.update(job);
+    this.pump();
+  }
+
+  get(jobId: string): ReportJob | undefined {
+    return this.jobs.find(j => j.id === jobId);
+  }
+
+  list(reportId?: string): ReportJob[] {
+    return reportId ? this.jobs.filter(j => j.reportId === reportId) : [...this.jobs];
+  }
+
+  getArtifact(reportId: string): ReportArtifact | undefined {
+    return this.artifacts[reportId];
+  }
+
+  subscribe(listener: (job: ReportJob) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async pump(): Promise<void> {
+    if (this.activeJobId) return;
+    const next = this.jobs.find(j => j.status === 'queued');
+    if (!next) return;
+    this.activeJobId = next.id;
+    try {
+      await this.execute(next);
+    } finally {
+      this.activeJobId = null;
+      this.controllers.delete(next.id);
+      this.pump();
+    }
+  }
+
+  private async execute(job: ReportJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.status = 'running';
+    this.update(job);
+
+    for (const stage of job.stages) {
+      if (stage.status !== 'pending') continue;
+      if (controller.signal.aborted) return;
+      stage.status = 'running';
+      stage.startedAt = now();
+      this.update(job);
+
+      try {
+        const result = await stageById.get(stage.id)!.run(job.params, job.results, controller.signal);
+        // Cancelled mid-stage: drop the late result, cancel() already reset the stage
+        if (controller.signal.aborted) return;
+        job.results[stage.id] = result;
+        stage.status = 'complete';
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error(`Report stage ${stage.id} failed`, e);
+        stage.status = 'failed';
+        stage.error = e instanceof Error ? e.message : String(e);
+        job.status = 'failed';
+        job.error = `${stage.label}: ${stage.error}`;
+      }
+      stage.finishedAt = now();
+      this.update(job);
+      if (job.status === 'failed') return;
+    }
+
+    const { [REPORT_STAGE]: report, ...modules } = job.results;
+    this.artifacts[job.reportId] = { reportId: job.reportId, jobId: job.id, completedAt: now(), report: report as NSIL_Report, modules };
+    job.status = 'complete';
+    this.update(job);
+  }
+
+  private update(job: ReportJob): void {
+    job.updatedAt = now();
+    this.save();
+    this.listeners.forEach(listener => listener(job));
+  }
+
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      this.jobs = JSON.parse(localStorage.getItem(JOBS_KEY) || '[]');
+      this.artifacts = JSON.parse(localStorage.getItem(ARTIFACTS_KEY) || '{}');
+    } catch (e) {
+      console.error("Report job state unreadable, starting fresh", e);
+    }
+  }
+
+  private prune(): void {
+    const finished = this.jobs.filter(j => j.status !== 'queued' && j.status !== 'running');
+    if (finished.length <= MAX_FINISHED_JOBS) return;
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(j => j.id));
+    this.jobs = this.jobs.filter(j => !dropped.has(j.id));
+    const kept = new Set(this.jobs.map(j => j.reportId));
+    Object.keys(this.artifacts).filter(id => !kept.has(id)).forEach(id => { delete this.artifacts[id]; });
+  }
+
+  private save(): void {
+    this.prune();
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(JOBS_KEY, JSON.stringify(this.jobs));
+      localStorage.setItem(ARTIFACTS_KEY, JSON.stringify(this.artifacts));
+    } catch (e) {
+      console.warn("Report job persistence skipped", e);
+    }
+  }
+}
+
+export const reportJobQueue = new ReportJobQueue();
@@ -0,0 +1,236 @@
+import type { NSIL_Report, ReportParameters } from '../types';
+import type { ReportArtifact } from './ReportJobQueue';
+import { openObjectStore, requestToPromise, type ObjectStoreOpener } from './IndexedDBStore';
+
+export type ReportVersion = {
+  version: number;
+  savedAt: string;
+  label: string;
+  params: ReportParameters;
+  modules: Record<string, unknown>; // module outputs at the time of the snapshot
+  report?: NSIL_Report;
+};
+
+export type StoredReport = {
+  reportId: string;
+  params: ReportParameters; // current draft
+  modules: Record<string, unknown>; // latest generated module outputs (RROI, SEAM, audits...)
+  report?: NSIL_Report;
+  versions: ReportVersion[]; // oldest first
+  updatedAt: string;
+};
+
+/**
+ * Storage backend for the report repository. IndexedDB in the browser, memory
+ * everywhere else.
+ */
+export interface ReportStoreAdapter {
+  put(record: StoredReport): Promise<void>;
+  get(reportId: string): Promise<StoredReport | undefined>;
+  list(): Promise<StoredReport[]>;
+  delete(reportId: string): Promise<void>;
+}
+
+// --- Adapters ---
+
+export class MemoryReportStoreAdapter implements ReportStoreAdapter {
+  private records = new Map<string, StoredReport>();
+
+  async put(record: StoredReport) { this.records.set(record.reportId, record); }
+  async get(reportId: string) { return this.records.get(reportId); }
+  async list() { return Array.from(this.records.values()); }
+  async delete(reportId: string) { this.records.delete(reportId); }
+}
+
+export class IndexedDBReportStoreAdapter implements ReportStoreAdapter {
+  private store: ObjectStoreOpener;
+
+  // Own database: 'bw-nexus' is already at version 1 with only the task history store
+  constructor(dbName = 'bw-nexus-reports', storeName = 'reports') {
+    this.store = openObjectStore(dbName, storeName, 'reportId');
+  }
+
+  async put(record: StoredReport) { await requestToPromise((await this.store('readwrite')).put(record)); }
+  async get(reportId: string) { return requestToPromise<StoredReport | undefined>((await this.store('readonly')).get(reportId)); }
+  async list() { return requestToPromise<StoredReport[]>((await this.store('readonly')).getAll()); }
+  async delete(reportId: string) { await requestToPromise((await this.store('readwrite')).delete(reportId)); }
+}
+
+// --- Repository ---
+
+const AUTOSAVE_DELAY_MS = 1500;
+const MAX_VERSIONS = 50;
+
+const now = () => new Date().toISOString();
+// Adapters may hand back the stored object itself, so snapshots are deep copies
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Reports keyed by reportId. Reads are served from an in-memory copy that is
+ * hydrated once from the adapter; every write waits for that and then goes
+ * through to the adapter, so an early write never replaces a stored history.
+ */
+export class ReportRepository {
+  private records = new Map<string, StoredReport>();
+  private listeners = new Set<(reports: StoredReport[]) => void>();
+  private autosaveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private deleted = new Set<string>(); // a late autosave must not bring these back
+  readonly ready: Promise<void>;
+
+  constructor(private adapter: ReportStoreAdapter) {
+    this.ready = adapter.list()
+      .then(records => records.forEach(r => this.records.set(r.reportId, r)))
+      .catch(e => console.error("Report repository unavailable, starting empty", e))
+      .then(() => this.notify());
+  }
+
+  /** Stored reports, most recently updated first. */
+  list(): StoredReport[] {
+    return Array.from(this.records.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(reportId: string): StoredReport | undefined {
+    return this.records.get(reportId);
+  }
+
+  /** Save the draft parameters now, replacing any pending autosave. */
+  async saveDraft(params: ReportParameters): Promise<StoredReport> {
+    await this.ready;
+    this.cancelAutosave(params.reportId);
+    const existing = this.records.get(params.reportId);
+    return this.put({
+      reportId: params.reportId,
+      modules: {},
+      versions: [],
+      ...existing,
+      params: clone(params),
+      updatedAt: now()
+    });
+  }
+
+  /** Debounced saveDraft for keystroke-level edits. Ignored for reports deleted this session. */
+  scheduleDraft(params: ReportParameters): void {
+    if (!params.reportId || this.deleted.has(params.reportId)) return;
+    this.cancelAutosave(params.reportId);
+    this.autosaveTimers.set(params.reportId, setTimeout(() => {
+      this.autosaveTimers.delete(params.reportId);
+      this.saveDraft(params).catch(e => console.error("Report autosave failed", e));
+    }, AUTOSAVE_DELAY_MS));
+  }
+
+  /** Snapshot the current draft and outputs as a new version. */
+  async saveVersion(params: ReportParameters, label = 'Manual save'): Promise<ReportVersion> {
+    const record = await this.saveDraft(params);
+    const version = this.snapshot(record, label);
+    await this.put(record);
+    return version;
+  }
+
+  /**
+   * Store the module outputs and NSIL report from a finished job, with the
+   * parameters it ran on, and record them as a version so every generation
+   * can be revisited.
+   */
+  async recordArtifact(artifact: ReportArtifact, params: ReportParameters): Promise<StoredReport> {
+    await this.ready;
+    this.cancelAutosave(artifact.reportId);
+    const existing = this.records.get(artifact.reportId);
+    const record: StoredReport = {
+      versions: [],
+      ...existing,
+      reportId: artifact.reportId,
+      params: clone({ ...params, status: 'complete' }),
+      // Interactive module outputs (e.g. IVAS) survive a regeneration
+      modules: clone({ ...existing?.modules, ...artifact.modules }),
+      report: clone(artifact.report),
+      updatedAt: now()
+    };
+    this.snapshot(record, 'Report generated', artifact.completedAt);
+    return this.put(record);
+  }
+
+  /** Keep the output of an interactive canvas module with the report. */
+  async recordModuleOutput(params: ReportParameters, moduleId: string, output: unknown): Promise<StoredReport> {
+    const record = await this.saveDraft(params);
+    record.modules = { ...record.modules, [moduleId]: clone(output) };
+    return this.put(record);
+  }
+
+  /**
+   * Make an earlier version the current draft. The draft being replaced is
+   * kept as a version first, so a restore can itself be undone.
+   */
+  async restoreVersion(reportId: string, versionNumber: number): Promise<StoredReport> {
+    await this.ready;
+    this.cancelAutosave(reportId);
+    const record = this.records.get(reportId);
+    const version = record?.versions.find(v => v.version === versionNumber);
+    if (!record || !version) throw new Error(`Report ${reportId} has no version ${versionNumber}`);
+
+    this.snapshot(record, `Before restoring v${versionNumber}`);
+    record.params = clone(version.params);
+    record.modules = clone(version.modules);
+    record.report = version.report && clone(version.report);
+    record.updatedAt = now();
+    return this.put(record);
+  }
+
+  /** Store a complete record, e.g. one read from a mission bundle, replacing any with the same id. */
+  async importReport(record: StoredReport): Promise<StoredReport> {
+    await this.ready;
+    this.cancelAutosave(record.reportId);
+    this.deleted.delete(record.reportId);
+    return this.put(clone(record));
+  }
+
+  async delete(reportId: string): Promise<void> {
+    this.cancelAutosave(reportId);
+    this.deleted.add(reportId);
+    await this.ready;
+    this.records.delete(reportId);
+    this.notify();
+    await this.adapter.delete(reportId);
+  }
+
+  subscribe(listener: (reports: StoredReport[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private snapshot(record: StoredReport, label: string, savedAt = now()): ReportVersion {
+    const version: ReportVersion = {
+      version: (record.versions[record.versions.length - 1]?.version ?? 0) + 1,
+      savedAt,
+      label,
+      params: clone(record.params),
+      modules: clone(record.modules),
+      report: record.report && clone(record.report)
+    };
+    record.versions = [...record.versions, version].slice(-MAX_VERSIONS);
+    return version;
+  }
+
+  private async put(record: StoredReport): Promise<StoredReport> {
+    this.records.set(record.reportId, record);
+    this.notify();
+    await this.adapter.put(record);
+    return record;
+  }
+
+  private cancelAutosave(reportId: string): void {
+    clearTimeout(this.autosaveTimers.get(reportId));
+    this.autosaveTimers.delete(reportId);
+  }
+
+  private notify(): void {
+    const reports = this.list();
+    this.listeners.forEach(listener => listener(reports));
+  }
+}
+
+export function createDefaultReportRepository(): ReportRepository {
+  const adapter = typeof indexedDB !== 'undefined' ? new IndexedDBReportStoreAdapter() : new MemoryReportStoreAdapter();
+  return new ReportRepository(adapter);
+}
+
+export const reportRepository = createDefaultReportRepository();
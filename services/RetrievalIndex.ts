@@ -0,0 +1,171 @@
+import type { RetrievalSourceType } from '../types';
+import { tokenize } from './ConsensusEngine';
+import { fingerprintPrompt } from './LLMProviders';
+import { createMeteredClient } from './UsageMeter';
+
+// Passages from client documents and earlier reports, ranked against a query
+// by cosine similarity of their embeddings. Vectors are cached per embedder
+// and text, so re-indexing unchanged content never calls the embedder again.
+
+// --- Embedders ---
+
+export type EmbeddingPurpose = 'query' | 'document';
+
+export interface Embedder {
+  readonly id: string; // vectors are only compared with vectors from the same embedder
+  embed(texts: string[], purpose: EmbeddingPurpose, reportId?: string): Promise<number[][]>;
+}
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIMENSIONS = 768;
+const EMBEDDING_BATCH = 100; // texts per request accepted by the API
+
+export class GeminiEmbedder implements Embedder {
+  readonly id = `${EMBEDDING_MODEL}@${EMBEDDING_DIMENSIONS}`;
+  private ai: ReturnType<typeof createMeteredClient>;
+
+  constructor(apiKey: string | undefined) {
+    this.ai = createMeteredClient(apiKey);
+  }
+
+  async embed(texts: string[], purpose: EmbeddingPurpose, reportId?: string): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH);
+      const response = await this.ai.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: batch,
+        config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', outputDimensionality: EMBEDDING_DIMENSIONS }
+      }, { module: 'retrieval-embeddings', reportId });
+      const values = (response.embeddings || []).map(e => e.values || []);
+      if (values.length !== batch.length || values.some(v => !v.length)) throw new Error(`Embedding response has ${values.length} of ${batch.length} vectors`);
+      vectors.push(...values);
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Offline embedder: hashed counts of words and word pairs. Deterministic, so
+ * tests and offline sessions rank identically every run; passages that share
+ * no vocabulary with the query score 0.
+ */
+export class MockEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private dimensions = 1024) {
+    this.id = `mock-hashing@${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const words = tokenize(text);
+      const terms = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+      const vector = new Array<number>(this.dimensions).fill(0);
+      terms.forEach(t => { vector[parseInt(fingerprintPrompt(t), 16) % this.dimensions] += 1; });
+      return vector;
+    });
+  }
+}
+
+export function createEmbedder(options: { apiKey?: string; offline?: boolean } = {}): Embedder {
+  return options.offline || !options.apiKey ? new MockEmbedder() : new GeminiEmbedder(options.apiKey);
+}
+
+// --- Index ---
+
+export type RetrievalPassage = {
+  id: string;
+  sourceId: string; // document id, or report id for earlier reports
+  sourceType: RetrievalSourceType;
+  sourceName: string;
+  location: string; // e.g. "p. 4", "§ Risks, ¶ 2", "Executive Summary"
+  text: string;
+};
+
+export type RetrievalHit = { passage: RetrievalPassage; score: number };
+
+export type SearchOptions = {
+  limit?: number;
+  sourceIds?: Iterable<string>; // search only these sources
+  reportId?: string; // attribution for embedding calls
+};
+
+const DEFAULT_LIMIT = 6;
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+export class RetrievalIndex {
+  private sources = new Map<string, RetrievalPassage[]>();
+  private vectors = new Map<string, number[]>();
+
+  /**
+   * When the embedder fails (offline, quota, budget) that search is scored with
+   * the fallback rather than fail the analysis; the next search tries the
+   * embedder again.
+   */
+  constructor(private readonly embedder: Embedder, private readonly fallback: Embedder | undefined = new MockEmbedder()) {}
+
+  get embedderId(): string {
+    return this.embedder.id;
+  }
+
+  /** Replace a source's passages. Embedding waits for the next search. */
+  index(sourceId: string, passages: RetrievalPassage[]): void {
+    this.sources.set(sourceId, passages);
+  }
+
+  remove(sourceId: string): void {
+    this.sources.delete(sourceId);
+  }
+
+  has(sourceId: string): boolean {
+    return this.sources.has(sourceId);
+  }
+
+  /** Best-matching passages, highest score first. Passages scoring 0 or less are dropped. */
+  async search(query: string, options: SearchOptions = {}): Promise<RetrievalHit[]> {
+    const wanted = options.sourceIds && new Set(options.sourceIds);
+    const passages = [...this.sources].filter(([id]) => !wanted || wanted.has(id)).flatMap(([, p]) => p);
+    if (!passages.length || !query.trim()) return [];
+
+    let hits: RetrievalHit[];
+    try {
+      hits = await this.score(this.embedder, query, passages, options.reportId);
+    } catch (e) {
+      if (!this.fallback) throw e;
+      console.error(`Embedding with ${this.embedder.id} failed, falling back to ${this.fallback.id} for this search`, e);
+      hits = await this.score(this.fallback, query, passages, options.reportId);
+    }
+    return hits
+      .filter(h => h.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  private async score(embedder: Embedder, query: string, passages: RetrievalPassage[], reportId?: string): Promise<RetrievalHit[]> {
+    const key = (text: string) => `${embedder.id}:${text.length}:${fingerprintPrompt(text)}`;
+    const missing = [...new Set(passages.map(p => p.text))].filter(text => !this.vectors.has(key(text)));
+    if (missing.length) {
+      const vectors = await embedder.embed(missing, 'document', reportId);
+      missing.forEach((text, i) => this.vectors.set(key(text), vectors[i]));
+    }
+    const [queryVector] = await embedder.embed([query], 'query', reportId);
+    return passages.map(passage => ({ passage, score: cosine(queryVector, this.vectors.get(key(passage.text))!) }));
+  }
+}
+
+export const retrievalIndex = new RetrievalIndex(createEmbedder({
+  apiKey: process.env.API_KEY,
+  offline: process.env.NEXUS_OFFLINE === 'true'
+}));
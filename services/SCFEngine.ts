@@ -1,27 +1,302 @@
+import { BUNDLED_IO_TABLES, DEFAULT_IO_TABLE_ID, ADVANCED_IO_TABLE_ID } from './SCFIOTables';
+import { SchemaValidationError, arrayOf, number, objectOf, string } from './SchemaValidation';
+import { getURPDataset } from './URPIndex';
+
+/**
+ * Symmetric input-output table for one economy. Monetary ratios are per $1 of
+ * sector output; employment is jobs per $1M of output.
+ */
+export type IOTable = {
+  id: string;
+  label: string;
+  regions: string[]; // countries or regions this table applies to; '*' marks the fallback
+  version: string;
+  source: string;
+  sectors: string[];
+  technicalCoefficients: number[][]; // A[i][j], n x n
+  employmentPerMillionUSD: number[];
+  valueAddedRatio: number[]; // GDP contribution per $ of output
+  laborIncomeRatio: number[]; // household compensation per $ of output
+  householdConsumptionShares: number[]; // split of household spending across sectors, sums to <= 1
+  householdLocalSpendingRate: number; // share of labour income re-spent locally (after tax, saving, imports)
+  taxRateOnValueAdded: number;
+};
 
 export type SCFInput = {
   capitalInvestmentUSD: number;
-  localLaborShare?: number; // % of spend that goes to local labor (0..1)
-  supplyChainLocalMultiplier?: number; // multiplier for local supply chain integration
   years?: number;
+  region?: string; // country or region used to pick the IO table
+  ioTable?: string | IOTable; // explicit table id or table, overrides region
+  sectorAllocation?: Record<string, number>; // share of spend per sector; normalised
+  localContentShare?: number; // share of spend procured locally (0..1); the rest leaks to imports
+  phasing?: number[]; // relative spend per year; defaults to even
+};
+
+export type SCFEffects = { direct: number; indirect: number; induced: number };
+
+export type SCFYear = {
+  year: number;
+  spendUSD: number;
+  outputUSD: SCFEffects;
+  jobs: SCFEffects;
+  gdpUSD: SCFEffects;
+  taxUSD: number;
 };
 
+export type SCFMultipliers = { output: number; employment: number; gdp: number };
+
 export type SCFOutput = {
-  directJobs: number;
+  directJobs: number; // average jobs sustained per year over the period
   indirectJobs: number;
   inducedJobs: number;
-  totalEconomicImpactUSD: number;
+  totalEconomicImpactUSD: number; // total (Type II) output over the period
   annualizedImpact: number;
+  gdpImpactUSD: number;
+  taxRevenueUSD: number;
+  multipliers: { typeI: SCFMultipliers; typeII: SCFMultipliers };
+  yearly: SCFYear[];
+  ioTable: { id: string; version: string; source: string };
 };
 
+// Capex typically lands mostly in construction and equipment
+const DEFAULT_ALLOCATION: Record<string, number> = {
+  'Construction': 0.55,
+  'Manufacturing': 0.25,
+  'Services': 0.12,
+  'Trade & Transport': 0.08
+};
+const DEFAULT_LOCAL_CONTENT = 0.6;
+// GDP per capita (PPP, thousand $) above which the advanced aggregate is used
+const ADVANCED_ECONOMY_THRESHOLD = 40;
+
+// --- Linear Algebra ---
+
+/**
+ * Gauss-Jordan inverse with partial pivoting.
+ */
+export function invertMatrix(m: number[][]): number[][] {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('Matrix is singular');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let c = 0; c < 2 * n; c++) a[col][c] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const f = a[r][col];
+      for (let c = 0; c < 2 * n; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+const multiply = (m: number[][], v: number[]) => m.map(row => row.reduce((s, x, j) => s + x * v[j], 0));
+const dot = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0);
+const sum = (v: number[]) => v.reduce((s, x) => s + x, 0);
+const subtract = (a: number[], b: number[]) => a.map((x, i) => x - b[i]);
+
+/**
+ * Type I inverse (I - A)^-1 and Type II inverse with households endogenised
+ * as an extra row (labour income) and column (local consumption).
+ */
+export function leontiefInverses(table: IOTable): { typeI: number[][]; typeII: number[][] } {
+  const n = table.sectors.length;
+  const identityMinus = (a: number[][]) => a.map((row, i) => row.map((x, j) => (i === j ? 1 : 0) - x));
+
+  const closed = table.technicalCoefficients.map((row, i) => [
+    ...row,
+    table.householdConsumptionShares[i] * table.householdLocalSpendingRate
+  ]);
+  closed.push([...table.laborIncomeRatio, 0]);
+
+  return {
+    typeI: invertMatrix(identityMinus(table.technicalCoefficients)),
+    typeII: invertMatrix(identityMinus(closed)).slice(0, n).map(row => row.slice(0, n))
+  };
+}
+
+// --- Table Registry ---
+
+const STORAGE_KEY = 'bw-nexus-io-tables';
+let importedTables: IOTable[] | undefined;
+
+const ratio = number({ min: 0, max: 1 });
+const IOTableSchema = objectOf<IOTable>({
+  id: string({ nonEmpty: true }),
+  label: string(),
+  regions: arrayOf(string()),
+  version: string({ nonEmpty: true }),
+  source: string({ nonEmpty: true }),
+  sectors: arrayOf(string({ nonEmpty: true }), { minItems: 1 }),
+  technicalCoefficients: arrayOf(arrayOf(ratio)),
+  employmentPerMillionUSD: arrayOf(number({ min: 0 })),
+  valueAddedRatio: arrayOf(ratio),
+  laborIncomeRatio: arrayOf(ratio),
+  householdConsumptionShares: arrayOf(ratio),
+  householdLocalSpendingRate: ratio,
+  taxRateOnValueAdded: ratio
+});
+
+/**
+ * Structural problems beyond field types: dimensions must agree and the
+ * economy must be productive (every column of A, and of the closed model,
+ * sums below 1) or the inverse is meaningless.
+ */
+export function validateIOTable(table: unknown): string[] {
+  const errors = IOTableSchema(table);
+  if (errors.length) return errors;
+  const t = table as IOTable;
+  const n = t.sectors.length;
+  if (t.technicalCoefficients.length !== n || t.technicalCoefficients.some(r => r.length !== n)) {
+    errors.push(`$.technicalCoefficients: expected ${n}x${n} matrix`);
+  }
+  (['employmentPerMillionUSD', 'valueAddedRatio', 'laborIncomeRatio', 'householdConsumptionShares'] as const).forEach(k => {
+    if (t[k].length !== n) errors.push(`$.${k}: expected ${n} values`);
+  });
+  if (errors.length) return errors;
+
+  t.sectors.forEach((sector, j) => {
+    const column = sum(t.technicalCoefficients.map(r => r[j]));
+    if (column >= 1) errors.push(`$.technicalCoefficients: column '${sector}' sums to ${column.toFixed(2)} (must be < 1)`);
+    if (column + t.laborIncomeRatio[j] >= 1) errors.push(`$.laborIncomeRatio: '${sector}' inputs plus labour income reach ${(column + t.laborIncomeRatio[j]).toFixed(2)} (must be < 1)`);
+  });
+  if (sum(t.householdConsumptionShares) > 1 + 1e-9) errors.push('$.householdConsumptionShares: must sum to at most 1');
+  return errors;
+}
+
+function loadImported(): IOTable[] {
+  if (importedTables) return importedTables;
+  importedTables = [];
+  if (typeof localStorage === 'undefined') return importedTables;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as IOTable[];
+    importedTables = stored.filter(t => validateIOTable(t).length === 0);
+  } catch (e) {
+    console.error("Stored IO tables unreadable, using bundled tables", e);
+  }
+  return importedTables;
+}
+
+export function listIOTables(): IOTable[] {
+  const imported = loadImported();
+  return [...imported, ...BUNDLED_IO_TABLES.filter(b => !imported.some(t => t.id === b.id))];
+}
+
+/**
+ * Register a country or regional table. Replaces any table with the same id.
+ */
+export function importIOTable(input: unknown): IOTable {
+  const table = typeof input === 'string' ? JSON.parse(input) : input;
+  const errors = validateIOTable(table);
+  if (errors.length) throw new SchemaValidationError('io-table', errors);
+
+  importedTables = [table, ...loadImported().filter(t => t.id !== table.id)];
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(importedTables));
+  return table;
+}
+
+export function removeIOTable(id: string): void {
+  importedTables = loadImported().filter(t => t.id !== id);
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(importedTables));
+}
+
+/**
+ * Most specific table for a place: an explicit country/region match, then the
+ * country's region, then an income-group aggregate from the URP indicators.
+ */
+export function resolveIOTable(place?: string): IOTable {
+  const tables = listIOTables();
+  const byId = (id: string) => tables.find(t => t.id === id)!;
+  const key = place?.trim().toLowerCase();
+  if (!key) return byId(DEFAULT_IO_TABLE_ID);
+
+  const matches = (name: string) => tables.find(t => t.regions.some(r => r.toLowerCase() === name.toLowerCase()));
+  const direct = matches(key);
+  if (direct) return direct;
+
+  const countries = getURPDataset().countries;
+  const country = Object.keys(countries).find(c => c.toLowerCase() === key);
+  if (country) {
+    const regional = matches(countries[country].region);
+    if (regional) return regional;
+    const perCapita = countries[country].gdpPerCapitaPPP;
+    if (perCapita !== undefined && perCapita >= ADVANCED_ECONOMY_THRESHOLD) return byId(ADVANCED_IO_TABLE_ID);
+  }
+  return byId(DEFAULT_IO_TABLE_ID);
+}
+
+// --- Engine ---
+
+function finalDemand(table: IOTable, allocation: Record<string, number>): number[] {
+  const weights = table.sectors.map(s => Math.max(0, allocation[s] ?? 0));
+  const total = sum(weights);
+  if (total === 0) throw new Error(`Sector allocation matches none of the table sectors (${table.sectors.join(', ')})`);
+  return weights.map(w => w / total);
+}
+
+const round = (v: number) => Math.round(v);
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
 export function runSCF(input: SCFInput): SCFOutput {
-  const years = input.years ?? 5;
-  // heuristics: $100k capital creates 1 direct job (example)
-  const directJobs = Math.round(input.capitalInvestmentUSD / 100000 * (0.7 + (input.localLaborShare ?? 0.5)));
-  const indirectJobs = Math.round(directJobs * (input.supplyChainLocalMultiplier ?? 1.8));
-  const inducedJobs = Math.round((directJobs + indirectJobs) * 0.6);
-  const totalEconomicImpactUSD = Math.round(input.capitalInvestmentUSD * (1 + (input.supplyChainLocalMultiplier ?? 1.8) * 0.6 + 0.5)); // rough approximation of multiplier effect
-  const annualizedImpact = Math.round(totalEconomicImpactUSD / years);
-
-  return { directJobs, indirectJobs, inducedJobs, totalEconomicImpactUSD, annualizedImpact };
+  const years = Math.max(1, input.years ?? 5);
+  const table = typeof input.ioTable === 'object'
+    ? input.ioTable
+    : input.ioTable ? listIOTables().find(t => t.id === input.ioTable) ?? resolveIOTable(input.region) : resolveIOTable(input.region);
+  const { typeI, typeII } = leontiefInverses(table);
+
+  const localShare = Math.min(1, Math.max(0, input.localContentShare ?? DEFAULT_LOCAL_CONTENT));
+  const shares = finalDemand(table, input.sectorAllocation ?? DEFAULT_ALLOCATION);
+  const phasing = input.phasing?.length ? Array.from({ length: years }, (_, i) => Math.max(0, input.phasing![i] ?? 0)) : Array(years).fill(1);
+  const phasingTotal = sum(phasing) || 1;
+
+  const jobsOf = (output: number[]) => dot(output, table.employmentPerMillionUSD) / 1_000_000;
+  const gdpOf = (output: number[]) => dot(output, table.valueAddedRatio);
+
+  const yearly: SCFYear[] = phasing.map((weight, i) => {
+    const spendUSD = input.capitalInvestmentUSD * weight / phasingTotal;
+    const direct = shares.map(s => s * spendUSD * localShare);
+    const typeIOutput = multiply(typeI, direct);
+    const typeIIOutput = multiply(typeII, direct);
+    const indirect = subtract(typeIOutput, direct);
+    const induced = subtract(typeIIOutput, typeIOutput);
+    const gdp = { direct: gdpOf(direct), indirect: gdpOf(indirect), induced: gdpOf(induced) };
+
+    return {
+      year: i + 1,
+      spendUSD: round(spendUSD),
+      outputUSD: { direct: round(sum(direct)), indirect: round(sum(indirect)), induced: round(sum(induced)) },
+      jobs: { direct: round(jobsOf(direct)), indirect: round(jobsOf(indirect)), induced: round(jobsOf(induced)) },
+      gdpUSD: { direct: round(gdp.direct), indirect: round(gdp.indirect), induced: round(gdp.induced) },
+      taxUSD: round((gdp.direct + gdp.indirect + gdp.induced) * table.taxRateOnValueAdded)
+    };
+  });
+
+  // Multipliers depend only on the spending mix, so read them off a unit vector
+  const unit = shares;
+  const unitI = multiply(typeI, unit);
+  const unitII = multiply(typeII, unit);
+  const multipliersFor = (output: number[]): SCFMultipliers => ({
+    output: round2(sum(output) / sum(unit)),
+    employment: round2(jobsOf(output) / jobsOf(unit)),
+    gdp: round2(gdpOf(output) / gdpOf(unit))
+  });
+
+  const total = (pick: (y: SCFYear) => number) => yearly.reduce((s, y) => s + pick(y), 0);
+  const totalEconomicImpactUSD = round(total(y => y.outputUSD.direct + y.outputUSD.indirect + y.outputUSD.induced));
+
+  return {
+    directJobs: round(total(y => y.jobs.direct) / years),
+    indirectJobs: round(total(y => y.jobs.indirect) / years),
+    inducedJobs: round(total(y => y.jobs.induced) / years),
+    totalEconomicImpactUSD,
+    annualizedImpact: round(totalEconomicImpactUSD / years),
+    gdpImpactUSD: round(total(y => y.gdpUSD.direct + y.gdpUSD.indirect + y.gdpUSD.induced)),
+    taxRevenueUSD: round(total(y => y.taxUSD)),
+    multipliers: { typeI: multipliersFor(unitI), typeII: multipliersFor(unitII) },
+    yearly,
+    ioTable: { id: table.id, version: table.version, source: table.source }
+  };
 }
@@ -0,0 +1,58 @@
+import type { IOTable } from './SCFEngine';
+
+// Six-sector aggregates bundled so the engine works out of the box. They are
+// stylised from typical OECD ICIO ratios for each income group, not national
+// tables; import the country's own table with importIOTable() before quoting
+// figures externally.
+const SECTORS = ['Agriculture', 'Mining & Energy', 'Manufacturing', 'Construction', 'Trade & Transport', 'Services'];
+
+export const BUNDLED_IO_TABLES: IOTable[] = [
+  {
+    id: 'aggregate-emerging',
+    label: 'Emerging economy aggregate (6 sectors)',
+    regions: ['*'],
+    version: '2024.1',
+    source: 'Stylised from OECD ICIO 2021 middle-income averages',
+    sectors: SECTORS,
+    // A[i][j]: input bought from sector i per $1 of sector j output
+    technicalCoefficients: [
+      [0.10, 0.01, 0.12, 0.01, 0.01, 0.01],
+      [0.03, 0.15, 0.08, 0.04, 0.06, 0.03],
+      [0.10, 0.08, 0.25, 0.30, 0.08, 0.05],
+      [0.01, 0.02, 0.01, 0.05, 0.02, 0.03],
+      [0.06, 0.05, 0.08, 0.08, 0.12, 0.06],
+      [0.04, 0.08, 0.07, 0.08, 0.10, 0.15]
+    ],
+    employmentPerMillionUSD: [60, 8, 15, 25, 30, 22],
+    valueAddedRatio: [0.60, 0.50, 0.25, 0.35, 0.55, 0.60],
+    laborIncomeRatio: [0.25, 0.15, 0.12, 0.25, 0.30, 0.35],
+    householdConsumptionShares: [0.15, 0.08, 0.25, 0.02, 0.20, 0.30],
+    householdLocalSpendingRate: 0.55,
+    taxRateOnValueAdded: 0.15
+  },
+  {
+    id: 'aggregate-advanced',
+    label: 'Advanced economy aggregate (6 sectors)',
+    regions: [],
+    version: '2024.1',
+    source: 'Stylised from OECD ICIO 2021 high-income averages',
+    sectors: SECTORS,
+    technicalCoefficients: [
+      [0.08, 0.00, 0.06, 0.00, 0.00, 0.01],
+      [0.04, 0.18, 0.06, 0.03, 0.04, 0.02],
+      [0.12, 0.07, 0.22, 0.25, 0.06, 0.04],
+      [0.01, 0.03, 0.01, 0.08, 0.02, 0.04],
+      [0.07, 0.04, 0.08, 0.07, 0.10, 0.05],
+      [0.08, 0.10, 0.12, 0.12, 0.16, 0.22]
+    ],
+    employmentPerMillionUSD: [12, 2, 5, 8, 9, 8],
+    valueAddedRatio: [0.45, 0.45, 0.30, 0.40, 0.55, 0.60],
+    laborIncomeRatio: [0.15, 0.12, 0.18, 0.30, 0.35, 0.40],
+    householdConsumptionShares: [0.05, 0.06, 0.20, 0.03, 0.21, 0.45],
+    householdLocalSpendingRate: 0.45,
+    taxRateOnValueAdded: 0.25
+  }
+];
+
+export const DEFAULT_IO_TABLE_ID = 'aggregate-emerging';
+export const ADVANCED_IO_TABLE_ID = 'aggregate-advanced';
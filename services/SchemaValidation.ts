@@ -0,0 +1,176 @@
+import type {
+  DashboardIntelligence, DashboardIntelligenceItem, DeepReasoningAnalysis, DocumentCitation, GeopoliticalAnalysisResult,
+  GovernanceAuditResult, RROI_Component, RROI_Index, ScopeSuggestions, SEAM_Blueprint, SEAM_Partner, SymbioticPartner
+} from '../types';
+
+/**
+ * Returns a list of problems ("path: message"); empty means valid.
+ */
+export type Validator<T> = ((value: unknown, path?: string) => string[]) & { readonly __type?: T };
+
+export class SchemaValidationError extends Error {
+  constructor(public module: string, public errors: string[]) {
+    super(`${module} failed validation: ${errors.slice(0, 5).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// --- Primitives ---
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+export const string = (opts: { nonEmpty?: boolean } = {}): Validator<string> =>
+  (value, path = '$') => {
+    if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+    if (opts.nonEmpty && !value.trim()) return [`${path}: must not be empty`];
+    return [];
+  };
+
+export const number = (opts: { min?: number; max?: number } = {}): Validator<number> =>
+  (value, path = '$') => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected number, got ${describe(value)}`];
+    if (opts.min !== undefined && value < opts.min) return [`${path}: ${value} is below ${opts.min}`];
+    if (opts.max !== undefined && value > opts.max) return [`${path}: ${value} is above ${opts.max}`];
+    return [];
+  };
+
+export const boolean = (): Validator<boolean> =>
+  (value, path = '$') => typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> =>
+  (value, path = '$') => values.includes(value as T) ? [] : [`${path}: expected one of ${values.join(' | ')}, got ${JSON.stringify(value)}`];
+
+export const arrayOf = <T>(item: Validator<T>, opts: { minItems?: number } = {}): Validator<T[]> =>
+  (value, path = '$') => {
+    if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+    if (opts.minItems !== undefined && value.length < opts.minItems) return [`${path}: expected at least ${opts.minItems} items`];
+    return value.flatMap((v, i) => item(v, `${path}[${i}]`));
+  };
+
+export const recordOf = <T>(item: Validator<T>, opts: { minKeys?: number } = {}): Validator<Record<string, T>> =>
+  (value, path = '$') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected object, got ${describe(value)}`];
+    const entries = Object.entries(value);
+    if (opts.minKeys !== undefined && entries.length < opts.minKeys) return [`${path}: expected at least ${opts.minKeys} entries`];
+    return entries.flatMap(([k, v]) => item(v, `${path}.${k}`));
+  };
+
+/**
+ * The shape must name every key of T, so a field added to a type in types.ts
+ * fails to compile here until its validator is written. Optional keys may be
+ * absent at runtime.
+ */
+export const objectOf = <T>(shape: { [K in keyof T]-?: Validator<T[K]> }, optional: (keyof T)[] = []): Validator<T> =>
+  (value, path = '$') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected object, got ${describe(value)}`];
+    const obj = value as Record<string, unknown>;
+    return (Object.keys(shape) as (keyof T & string)[]).flatMap(key => {
+      if (obj[key] === undefined) return optional.includes(key) ? [] : [`${path}.${key}: missing`];
+      return (shape[key] as Validator<unknown>)(obj[key], `${path}.${key}`);
+    });
+  };
+
+const optionalOf = <T>(validator: Validator<T>): Validator<T> =>
+  (value, path) => value === undefined ? [] : validator(value, path);
+
+// --- Schemas ---
+
+const score = number({ min: 0, max: 100 });
+const provenance = optionalOf(oneOf(['model', 'fallback'] as const));
+const citations = optionalOf(arrayOf(objectOf<DocumentCitation>({
+  documentId: string({ nonEmpty: true }),
+  documentName: string(),
+  chunkId: string({ nonEmpty: true }),
+  location: string(),
+  sourceType: optionalOf(oneOf(['document', 'report'] as const))
+}, ['sourceType'])));
+
+const RROIComponentSchema = objectOf<RROI_Component>({
+  name: string({ nonEmpty: true }),
+  score,
+  analysis: string()
+});
+
+export const RROIIndexSchema = objectOf<RROI_Index>({
+  overallScore: score,
+  summary: string({ nonEmpty: true }),
+  components: recordOf(RROIComponentSchema, { minKeys: 1 }),
+  citations,
+  provenance
+}, ['citations', 'provenance']);
+
+const SEAMPartnerSchema = objectOf<SEAM_Partner>({
+  entity: string({ nonEmpty: true }),
+  type: string(),
+  rationale: string()
+});
+
+export const SEAMBlueprintSchema = objectOf<SEAM_Blueprint>({
+  ecosystemSummary: string({ nonEmpty: true }),
+  partners: arrayOf(SEAMPartnerSchema, { minItems: 1 }),
+  citations,
+  provenance
+}, ['citations', 'provenance']);
+
+export const SymbioticPartnerSchema = objectOf<SymbioticPartner>({
+  entityName: string({ nonEmpty: true }),
+  entityType: string(),
+  location: string(),
+  symbiosisScore: score,
+  asymmetryAnalysis: string(),
+  mutualBenefit: string(),
+  riskFactors: arrayOf(string())
+});
+
+export const DeepReasoningSchema = objectOf<DeepReasoningAnalysis>({
+  verdict: oneOf(['Strong Buy', 'Cautious Proceed', 'Hard Pass'] as const),
+  dealKillers: arrayOf(string()),
+  hiddenGems: arrayOf(string()),
+  reasoningChain: arrayOf(string(), { minItems: 1 }),
+  counterIntuitiveInsight: string({ nonEmpty: true }),
+  citations,
+  provenance
+}, ['citations', 'provenance']);
+
+export const GeopoliticalAnalysisSchema = objectOf<GeopoliticalAnalysisResult>({
+  stabilityScore: score,
+  forecast: string({ nonEmpty: true }),
+  currencyRisk: oneOf(['Low', 'Medium', 'High', 'Volatile'] as const),
+  inflationTrend: oneOf(['Stable', 'Rising', 'Hyper'] as const),
+  regionalConflictRisk: score,
+  tradeBarriers: arrayOf(string()),
+  citations,
+  provenance
+}, ['citations', 'provenance']);
+
+export const GovernanceAuditSchema = objectOf<GovernanceAuditResult>({
+  governanceScore: score,
+  corruptionRisk: oneOf(['Low', 'Medium', 'High', 'Critical'] as const),
+  regulatoryFriction: score,
+  transparencyIndex: score,
+  redFlags: arrayOf(string()),
+  complianceRoadmap: arrayOf(string()),
+  citations,
+  provenance
+}, ['citations', 'provenance']);
+
+const DashboardIntelligenceItemSchema = objectOf<DashboardIntelligenceItem>({
+  company: string({ nonEmpty: true }),
+  details: string({ nonEmpty: true }),
+  implication: string(),
+  source: string(),
+  url: string()
+});
+
+// The category is set by the caller, so the model may leave it out
+export const DashboardIntelligenceSchema = objectOf<DashboardIntelligence>({
+  category: string(),
+  items: arrayOf(DashboardIntelligenceItemSchema),
+  provenance
+}, ['category', 'provenance']);
+
+export const ScopeSuggestionsSchema = objectOf<ScopeSuggestions>({
+  objectives: arrayOf(string({ nonEmpty: true })),
+  partners: arrayOf(string({ nonEmpty: true })),
+  provenance
+}, ['provenance']);
@@ -0,0 +1,202 @@
+import type { MultiAgentAnalysis } from '../types';
+import { flattenFields, parseStructured, valueSimilarity } from './ConsensusEngine';
+import { openObjectStore, requestToPromise, type ObjectStoreOpener } from './IndexedDBStore';
+
+export type TaskRecord = {
+  id: string; // task id
+  recordedAt: string;
+  durationMs: number;
+  analysis: MultiAgentAnalysis; // prompt, raw agent responses, timings and consensus
+  replayOf?: string; // id of the task this one re-ran
+};
+
+export type TaskHistoryFilter = {
+  status?: MultiAgentAnalysis['status'];
+  agentId?: string;
+  consensusMethod?: string;
+  promptIncludes?: string;
+  since?: string; // ISO date, inclusive
+  until?: string; // ISO date, inclusive
+  replayOf?: string;
+  limit?: number;
+};
+
+export type TaskDiff = {
+  originalId: string;
+  replayId: string;
+  consensusChanged: boolean;
+  changedFields: { path: string; before: any; after: any; similarity: number }[];
+  agreementDelta: number;
+  confidenceDelta: number;
+  agentsAdded: string[];
+  agentsRemoved: string[];
+  responseChanges: { agentId: string; similarity: number }[];
+};
+
+/**
+ * Storage backend for task records. IndexedDB in the browser; the file adapter
+ * lets scripts and tests keep history on disk.
+ */
+export interface TaskStoreAdapter {
+  put(record: TaskRecord): Promise<void>;
+  get(id: string): Promise<TaskRecord | undefined>;
+  list(): Promise<TaskRecord[]>;
+  delete(id: string): Promise<void>;
+}
+
+// --- Adapters ---
+
+export class MemoryTaskStoreAdapter implements TaskStoreAdapter {
+  private records = new Map<string, TaskRecord>();
+
+  async put(record: TaskRecord) { this.records.set(record.id, record); }
+  async get(id: string) { return this.records.get(id); }
+  async list() { return Array.from(this.records.values()); }
+  async delete(id: string) { this.records.delete(id); }
+}
+
+export class IndexedDBTaskStoreAdapter implements TaskStoreAdapter {
+  private store: ObjectStoreOpener;
+
+  constructor(dbName = 'bw-nexus', storeName = 'taskHistory') {
+    this.store = openObjectStore(dbName, storeName, 'id');
+  }
+
+  async put(record: TaskRecord) { await requestToPromise((await this.store('readwrite')).put(record)); }
+  async get(id: string) { return requestToPromise<TaskRecord | undefined>((await this.store('readonly')).get(id)); }
+  async list() { return requestToPromise<TaskRecord[]>((await this.store('readonly')).getAll()); }
+  async delete(id: string) { await requestToPromise((await this.store('readwrite')).delete(id)); }
+}
+
+/**
+ * Keeps the whole history in one JSON file. Node only; fs is imported lazily
+ * so the browser bundle never loads it.
+ */
+export class FileTaskStoreAdapter implements TaskStoreAdapter {
+  constructor(private filePath: string) {}
+
+  private async read(): Promise<Record<string, TaskRecord>> {
+    const fs = await import('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return {};
+      throw e;
+    }
+  }
+
+  private async write(records: Record<string, TaskRecord>) {
+    const fs = await import('node:fs/promises');
+    await fs.writeFile(this.filePath, JSON.stringify(records, null, 2), 'utf8');
+  }
+
+  async put(record: TaskRecord) {
+    const records = await this.read();
+    records[record.id] = record;
+    await this.write(records);
+  }
+
+  async get(id: string) { return (await this.read())[id]; }
+  async list() { return Object.values(await this.read()); }
+
+  async delete(id: string) {
+    const records = await this.read();
+    delete records[id];
+    await this.write(records);
+  }
+}
+
+// --- Store ---
+
+export class TaskHistoryStore {
+  constructor(private adapter: TaskStoreAdapter) {}
+
+  async record(analysis: MultiAgentAnalysis, replayOf?: string): Promise<TaskRecord> {
+    const start = Date.parse(analysis.startTime);
+    const end = analysis.endTime ? Date.parse(analysis.endTime) : Date.now();
+    const record: TaskRecord = {
+      id: analysis.task.id,
+      recordedAt: new Date().toISOString(),
+      durationMs: end - start,
+      analysis,
+      replayOf
+    };
+    await this.adapter.put(record);
+    return record;
+  }
+
+  get(id: string): Promise<TaskRecord | undefined> {
+    return this.adapter.get(id);
+  }
+
+  delete(id: string): Promise<void> {
+    return this.adapter.delete(id);
+  }
+
+  /**
+   * List recorded tasks, newest first.
+   */
+  async list(filter: TaskHistoryFilter = {}): Promise<TaskRecord[]> {
+    const prompt = filter.promptIncludes?.toLowerCase();
+    const records = (await this.adapter.list()).filter(r => {
+      const a = r.analysis;
+      if (filter.status && a.status !== filter.status) return false;
+      if (filter.consensusMethod && a.task.consensusMethod !== filter.consensusMethod) return false;
+      if (filter.agentId && !a.responses.some(resp => resp.agentId === filter.agentId)) return false;
+      if (prompt && !a.task.prompt.toLowerCase().includes(prompt)) return false;
+      if (filter.since && a.startTime < filter.since) return false;
+      if (filter.until && a.startTime > filter.until) return false;
+      if (filter.replayOf && r.replayOf !== filter.replayOf) return false;
+      return true;
+    });
+    records.sort((x, y) => y.analysis.startTime.localeCompare(x.analysis.startTime));
+    return filter.limit ? records.slice(0, filter.limit) : records;
+  }
+}
+
+export function createDefaultTaskStore(): TaskHistoryStore {
+  const adapter = typeof indexedDB !== 'undefined' ? new IndexedDBTaskStoreAdapter() : new MemoryTaskStoreAdapter();
+  return new TaskHistoryStore(adapter);
+}
+
+// --- Diffing ---
+
+const consensusFields = (analysis: MultiAgentAnalysis): Record<string, any> => {
+  const content = analysis.consensus?.consensusContent ?? '';
+  const parsed = parseStructured(content);
+  return parsed !== undefined ? flattenFields(parsed) : { '$': content };
+};
+
+/**
+ * Compare a replayed analysis with the stored original. Fields whose values
+ * are less than 80% similar are reported as changed.
+ */
+export function diffTaskAnalyses(original: MultiAgentAnalysis, replay: MultiAgentAnalysis): TaskDiff {
+  const before = consensusFields(original);
+  const after = consensusFields(replay);
+  const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  const changedFields = paths
+    .map(path => ({ path, before: before[path], after: after[path], similarity: valueSimilarity(before[path], after[path]) }))
+    .filter(f => f.similarity < 0.8);
+
+  const originalAgents = original.responses.map(r => r.agentId);
+  const replayAgents = replay.responses.map(r => r.agentId);
+
+  return {
+    originalId: original.task.id,
+    replayId: replay.task.id,
+    consensusChanged: changedFields.length > 0,
+    changedFields,
+    agreementDelta: (replay.consensus?.agreementScore ?? 0) - (original.consensus?.agreementScore ?? 0),
+    confidenceDelta: (replay.consensus?.confidence ?? 0) - (original.consensus?.confidence ?? 0),
+    agentsAdded: replayAgents.filter(id => !originalAgents.includes(id)),
+    agentsRemoved: originalAgents.filter(id => !replayAgents.includes(id)),
+    responseChanges: replay.responses
+      .filter(r => originalAgents.includes(r.agentId))
+      .map(r => ({
+        agentId: r.agentId,
+        similarity: valueSimilarity(original.responses.find(o => o.agentId === r.agentId)!.content, r.content)
+      }))
+  };
+}
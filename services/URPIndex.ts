@@ -0,0 +1,245 @@
+import type { ReportParameters, URPIndicatorCitation, URPMetricBreakdown, URPMetrics } from '../types';
+import { BUNDLED_URP_DATASET } from './URPIndicatorData';
+import { SchemaValidationError, number, objectOf, recordOf, string } from './SchemaValidation';
+
+export type URPIndicatorKey =
+  | 'gdpGrowth' | 'gdpPerCapitaPPP' | 'gdpUSDbn'
+  | 'tradeOpenness' | 'tariffRate' | 'lpiScore'
+  | 'internetUsers' | 'electricityAccess' | 'lpiInfrastructure'
+  | 'regulatoryQuality' | 'ruleOfLaw' | 'controlOfCorruption'
+  | 'tertiaryEnrollment' | 'humanCapitalIndex' | 'laborForceM';
+
+// Missing indicators are allowed; metrics average whatever is present
+export type CountryIndicators = { region: string } & Partial<Record<URPIndicatorKey, number>>;
+
+export type URPIndicatorDataset = {
+  id: string;
+  version: string; // dotted, compared numerically: '2024.1' < '2024.10'
+  publishedAt: string;
+  sources: Partial<Record<URPIndicatorKey, string>>;
+  countries: Record<string, CountryIndicators>;
+};
+
+type IndicatorDef = {
+  key: URPIndicatorKey;
+  label: string;
+  unit: string;
+  metric: keyof URPMetrics;
+  min: number; // value mapped to 0
+  max: number; // value mapped to 10
+  invert?: boolean; // lower raw value is better
+  log?: boolean; // normalise on a log scale (market and workforce size)
+};
+
+export const URP_INDICATORS: IndicatorDef[] = [
+  { key: 'gdpGrowth', label: 'Real GDP growth', unit: '%', metric: 'economicPotential', min: -2, max: 8 },
+  { key: 'gdpPerCapitaPPP', label: 'GDP per capita (PPP)', unit: 'k intl$', metric: 'economicPotential', min: 2, max: 90, log: true },
+  { key: 'gdpUSDbn', label: 'Economy size', unit: 'US$ bn', metric: 'economicPotential', min: 10, max: 25000, log: true },
+  { key: 'tradeOpenness', label: 'Trade openness', unit: '% of GDP', metric: 'marketAccessibility', min: 20, max: 200 },
+  { key: 'tariffRate', label: 'Applied tariff rate', unit: '%', metric: 'marketAccessibility', min: 0, max: 12, invert: true },
+  { key: 'lpiScore', label: 'Logistics performance', unit: '1-5', metric: 'marketAccessibility', min: 2, max: 4.3 },
+  { key: 'internetUsers', label: 'Internet users', unit: '% of pop.', metric: 'infrastructureReadiness', min: 20, max: 100 },
+  { key: 'electricityAccess', label: 'Electricity access', unit: '% of pop.', metric: 'infrastructureReadiness', min: 40, max: 100 },
+  { key: 'lpiInfrastructure', label: 'Trade & transport infrastructure', unit: '1-5', metric: 'infrastructureReadiness', min: 1.8, max: 4.6 },
+  { key: 'regulatoryQuality', label: 'Regulatory quality', unit: 'WGI', metric: 'regulatoryEnvironment', min: -1.5, max: 2 },
+  { key: 'ruleOfLaw', label: 'Rule of law', unit: 'WGI', metric: 'regulatoryEnvironment', min: -1.5, max: 2 },
+  { key: 'controlOfCorruption', label: 'Control of corruption', unit: 'WGI', metric: 'regulatoryEnvironment', min: -1.5, max: 2.2 },
+  { key: 'tertiaryEnrollment', label: 'Tertiary enrolment', unit: '%', metric: 'humanCapitalAvailability', min: 5, max: 100 },
+  { key: 'humanCapitalIndex', label: 'Human Capital Index', unit: '0-1', metric: 'humanCapitalAvailability', min: 0.35, max: 0.9 },
+  { key: 'laborForceM', label: 'Labour force', unit: 'm', metric: 'humanCapitalAvailability', min: 1, max: 800, log: true },
+];
+
+export const URP_BASE_WEIGHTS: URPMetrics = {
+  economicPotential: 0.25,
+  marketAccessibility: 0.2,
+  infrastructureReadiness: 0.2,
+  regulatoryEnvironment: 0.2,
+  humanCapitalAvailability: 0.15,
+};
+
+// The problem statement only shifts emphasis between metrics; it never moves a score
+const EMPHASIS_KEYWORDS: Record<keyof URPMetrics, string[]> = {
+  economicPotential: ['growth', 'expansion', 'investment', 'capital', 'market size'],
+  marketAccessibility: ['access', 'entry', 'export', 'barrier', 'restriction', 'tariff'],
+  infrastructureReadiness: ['infrastructure', 'logistics', 'digital', 'energy', 'port'],
+  regulatoryEnvironment: ['policy', 'government', 'reform', 'regulat', 'compliance', 'license'],
+  humanCapitalAvailability: ['talent', 'skilled', 'workforce', 'labor', 'labour', 'hiring'],
+};
+const EMPHASIS_FACTOR = 1.5;
+
+const METRIC_LABELS: Record<keyof URPMetrics, string> = {
+  economicPotential: 'Economic Potential',
+  marketAccessibility: 'Market Access',
+  infrastructureReadiness: 'Infrastructure',
+  regulatoryEnvironment: 'Regulatory',
+  humanCapitalAvailability: 'Human Capital',
+};
+
+// --- Dataset Store ---
+
+const STORAGE_KEY = 'bw-nexus-urp-dataset';
+let activeDataset: URPIndicatorDataset | undefined;
+
+const indicatorShape = Object.fromEntries(URP_INDICATORS.map(d => [d.key, number()])) as Record<URPIndicatorKey, ReturnType<typeof number>>;
+
+const DatasetSchema = objectOf<URPIndicatorDataset>({
+  id: string({ nonEmpty: true }),
+  version: string({ nonEmpty: true }),
+  publishedAt: string(),
+  sources: recordOf(string()),
+  countries: recordOf(
+    objectOf<CountryIndicators>({ region: string({ nonEmpty: true }), ...indicatorShape }, URP_INDICATORS.map(d => d.key)),
+    { minKeys: 1 }
+  )
+});
+
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function getURPDataset(): URPIndicatorDataset {
+  if (activeDataset) return activeDataset;
+  activeDataset = BUNDLED_URP_DATASET;
+  if (typeof localStorage === 'undefined') return activeDataset;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as URPIndicatorDataset;
+      // A newer bundle shipped with the app wins over an older import
+      if (DatasetSchema(parsed).length === 0 && compareVersions(parsed.version, BUNDLED_URP_DATASET.version) >= 0) {
+        activeDataset = parsed;
+      }
+    }
+  } catch (e) {
+    console.error("Stored URP dataset unreadable, using bundled data", e);
+  }
+  return activeDataset;
+}
+
+/**
+ * Replace the active indicator dataset. Accepts the parsed object or raw JSON.
+ * Throws SchemaValidationError on malformed input and refuses downgrades
+ * unless asked.
+ */
+export function importURPDataset(input: unknown, options: { allowDowngrade?: boolean } = {}): URPIndicatorDataset {
+  const dataset = typeof input === 'string' ? JSON.parse(input) : input;
+  const errors = DatasetSchema(dataset);
+  if (errors.length) throw new SchemaValidationError('urp-dataset', errors);
+
+  const current = getURPDataset();
+  if (!options.allowDowngrade && compareVersions(dataset.version, current.version) < 0) {
+    throw new Error(`URP dataset ${dataset.version} is older than active version ${current.version}`);
+  }
+
+  activeDataset = dataset;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(dataset));
+  return dataset;
+}
+
+export function resetURPDataset(): URPIndicatorDataset {
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+  activeDataset = BUNDLED_URP_DATASET;
+  return activeDataset;
+}
+
+// --- Scoring ---
+
+export type URPBasis = { level: 'country' | 'region' | 'global'; name: string; countries: string[] };
+
+export type URPResult = {
+  urpIndex: number;
+  metrics: URPMetrics;
+  weights: URPMetrics;
+  details: URPMetricBreakdown[];
+  basis: URPBasis;
+  datasetVersion: string;
+  breakdown: string;
+};
+
+const clamp10 = (v: number) => Math.min(10, Math.max(0, v));
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+function normalise(def: IndicatorDef, value: number): number {
+  const scale = def.log ? Math.log : (v: number) => v;
+  const lo = scale(def.min);
+  const hi = scale(def.max);
+  const v = def.log ? Math.max(value, def.min) : value;
+  const score = clamp10(((scale(v) - lo) / (hi - lo)) * 10);
+  return def.invert ? 10 - score : score;
+}
+
+/**
+ * Pick the rows the index is computed from: the named country, else the
+ * countries of the selected region, else the whole dataset.
+ */
+export function resolveURPBasis(params: Pick<ReportParameters, 'region' | 'country'>, dataset = getURPDataset()): URPBasis {
+  const names = Object.keys(dataset.countries);
+  const wanted = params.country?.trim().toLowerCase();
+  const country = wanted && names.find(n => n.toLowerCase() === wanted);
+  if (country) return { level: 'country', name: country, countries: [country] };
+
+  const region = params.region?.trim().toLowerCase();
+  const inRegion = region ? names.filter(n => dataset.countries[n].region.toLowerCase() === region) : [];
+  if (inRegion.length) return { level: 'region', name: dataset.countries[inRegion[0]].region, countries: inRegion };
+
+  return { level: 'global', name: 'Global average', countries: names };
+}
+
+export function emphasisWeights(problemText: string): URPMetrics {
+  const text = problemText.toLowerCase();
+  const raw = { ...URP_BASE_WEIGHTS };
+  (Object.keys(raw) as (keyof URPMetrics)[]).forEach(metric => {
+    if (EMPHASIS_KEYWORDS[metric].some(k => text.includes(k))) raw[metric] *= EMPHASIS_FACTOR;
+  });
+  const total = Object.values(raw).reduce((a, b) => a + b, 0);
+  (Object.keys(raw) as (keyof URPMetrics)[]).forEach(metric => { raw[metric] = Math.round((raw[metric] / total) * 1000) / 1000; });
+  return raw;
+}
+
+export function computeURPIndex(params: ReportParameters, dataset = getURPDataset()): URPResult {
+  const basis = resolveURPBasis(params, dataset);
+  const weights = emphasisWeights(`${params.problemStatement || ''} ${params.refinedProblemStatement || ''}`);
+  const basisLabel = basis.level === 'country' ? basis.name : `${basis.name} (mean of ${basis.countries.length})`;
+
+  const metrics = {} as URPMetrics;
+  const details: URPMetricBreakdown[] = (Object.keys(URP_BASE_WEIGHTS) as (keyof URPMetrics)[]).map(metric => {
+    const drivers: URPIndicatorCitation[] = [];
+    for (const def of URP_INDICATORS.filter(d => d.metric === metric)) {
+      const values = basis.countries
+        .map(c => dataset.countries[c][def.key])
+        .filter((v): v is number => typeof v === 'number');
+      if (!values.length) continue;
+      const value = values.reduce((a, b) => a + b, 0) / values.length;
+      drivers.push({
+        indicator: def.key,
+        label: def.label,
+        value: Math.round(value * 100) / 100,
+        unit: def.unit,
+        normalized: round1(normalise(def, value)),
+        source: dataset.sources[def.key] || dataset.id
+      });
+    }
+
+    // No data for this metric: neutral score rather than a guess
+    const score = drivers.length ? round1(drivers.reduce((a, d) => a + d.normalized, 0) / drivers.length) : 5;
+    metrics[metric] = score;
+    // Strongest signals first, in either direction
+    drivers.sort((a, b) => Math.abs(b.normalized - 5) - Math.abs(a.normalized - 5));
+    return { metric, score, weight: weights[metric], basis: basisLabel, drivers };
+  });
+
+  const urpIndex = round1(details.reduce((sum, d) => sum + d.score * d.weight, 0));
+
+  const breakdown = `URP Index Breakdown (${basisLabel}, dataset v${dataset.version}): ` + details.map(d => {
+    const cited = d.drivers.slice(0, 2).map(c => `${c.label} ${c.value}${c.unit.startsWith('%') ? '%' : ` (${c.unit})`}`).join(', ');
+    return `${METRIC_LABELS[d.metric]} (${d.score.toFixed(1)}/10, weight ${Math.round(d.weight * 100)}%${cited ? `; ${cited}` : '; no data'})`;
+  }).join(', ');
+
+  return { urpIndex, metrics, weights, details, basis, datasetVersion: dataset.version, breakdown };
+}
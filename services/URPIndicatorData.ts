@@ -0,0 +1,73 @@
+import type { URPIndicatorDataset } from './URPIndex';
+
+// Bundled country indicator snapshot used when no newer dataset has been imported.
+// Values are rounded from the latest public releases available at build time;
+// publish updates as a new version through importURPDataset().
+export const BUNDLED_URP_DATASET: URPIndicatorDataset = {
+  id: 'bw-urp-indicators',
+  version: '2024.1',
+  publishedAt: '2024-06-30',
+  sources: {
+    gdpGrowth: 'World Bank WDI, real GDP growth 2023 (%)',
+    gdpPerCapitaPPP: 'World Bank WDI, GDP per capita PPP 2023 (thousand intl $)',
+    gdpUSDbn: 'World Bank WDI, GDP current US$ 2023 (bn)',
+    tradeOpenness: 'World Bank WDI, trade (% of GDP) 2022',
+    tariffRate: 'World Bank WDI, weighted mean applied tariff, all products (%)',
+    lpiScore: 'World Bank Logistics Performance Index 2023 (1-5)',
+    internetUsers: 'ITU, individuals using the internet (% of population)',
+    electricityAccess: 'World Bank WDI, access to electricity (% of population)',
+    lpiInfrastructure: 'World Bank LPI 2023, infrastructure sub-score (1-5)',
+    regulatoryQuality: 'Worldwide Governance Indicators 2022, regulatory quality (-2.5..2.5)',
+    ruleOfLaw: 'Worldwide Governance Indicators 2022, rule of law (-2.5..2.5)',
+    controlOfCorruption: 'Worldwide Governance Indicators 2022, control of corruption (-2.5..2.5)',
+    tertiaryEnrollment: 'UNESCO UIS, gross tertiary enrolment ratio (%)',
+    humanCapitalIndex: 'World Bank Human Capital Index 2020 (0-1)',
+    laborForceM: 'ILO modelled estimates, labour force (millions)'
+  },
+  countries: {
+    'USA': { region: 'North America', gdpGrowth: 2.5, gdpPerCapitaPPP: 80, gdpUSDbn: 27360, tradeOpenness: 25, tariffRate: 1.5, lpiScore: 3.8, internetUsers: 92, electricityAccess: 100, lpiInfrastructure: 3.9, regulatoryQuality: 1.3, ruleOfLaw: 1.3, controlOfCorruption: 1.2, tertiaryEnrollment: 79, humanCapitalIndex: 0.70, laborForceM: 170 },
+    'Canada': { region: 'North America', gdpGrowth: 1.2, gdpPerCapitaPPP: 58, gdpUSDbn: 2140, tradeOpenness: 67, tariffRate: 0.8, lpiScore: 3.9, internetUsers: 94, electricityAccess: 100, lpiInfrastructure: 4.3, regulatoryQuality: 1.6, ruleOfLaw: 1.6, controlOfCorruption: 1.7, tertiaryEnrollment: 75, humanCapitalIndex: 0.80, laborForceM: 21 },
+    'Mexico': { region: 'North America', gdpGrowth: 3.2, gdpPerCapitaPPP: 24, gdpUSDbn: 1790, tradeOpenness: 85, tariffRate: 1.9, lpiScore: 3.0, internetUsers: 81, electricityAccess: 99, lpiInfrastructure: 2.8, regulatoryQuality: -0.2, ruleOfLaw: -0.9, controlOfCorruption: -0.9, tertiaryEnrollment: 45, humanCapitalIndex: 0.61, laborForceM: 60 },
+    'UK': { region: 'Europe (Western)', gdpGrowth: 0.1, gdpPerCapitaPPP: 54, gdpUSDbn: 3340, tradeOpenness: 65, tariffRate: 1.0, lpiScore: 3.7, internetUsers: 96, electricityAccess: 100, lpiInfrastructure: 3.7, regulatoryQuality: 1.4, ruleOfLaw: 1.4, controlOfCorruption: 1.6, tertiaryEnrollment: 70, humanCapitalIndex: 0.78, laborForceM: 34 },
+    'Germany': { region: 'Europe (Western)', gdpGrowth: -0.3, gdpPerCapitaPPP: 66, gdpUSDbn: 4460, tradeOpenness: 100, tariffRate: 1.4, lpiScore: 4.1, internetUsers: 92, electricityAccess: 100, lpiInfrastructure: 4.3, regulatoryQuality: 1.5, ruleOfLaw: 1.5, controlOfCorruption: 1.8, tertiaryEnrollment: 76, humanCapitalIndex: 0.75, laborForceM: 44 },
+    'France': { region: 'Europe (Western)', gdpGrowth: 0.9, gdpPerCapitaPPP: 58, gdpUSDbn: 3030, tradeOpenness: 72, tariffRate: 1.4, lpiScore: 3.9, internetUsers: 86, electricityAccess: 100, lpiInfrastructure: 3.8, regulatoryQuality: 1.1, ruleOfLaw: 1.3, controlOfCorruption: 1.3, tertiaryEnrollment: 71, humanCapitalIndex: 0.76, laborForceM: 31 },
+    'Italy': { region: 'Europe (Western)', gdpGrowth: 0.9, gdpPerCapitaPPP: 55, gdpUSDbn: 2250, tradeOpenness: 65, tariffRate: 1.4, lpiScore: 3.7, internetUsers: 86, electricityAccess: 100, lpiInfrastructure: 3.8, regulatoryQuality: 0.6, ruleOfLaw: 0.3, controlOfCorruption: 0.4, tertiaryEnrollment: 67, humanCapitalIndex: 0.75, laborForceM: 25 },
+    'Spain': { region: 'Europe (Western)', gdpGrowth: 2.5, gdpPerCapitaPPP: 50, gdpUSDbn: 1580, tradeOpenness: 73, tariffRate: 1.4, lpiScore: 3.9, internetUsers: 95, electricityAccess: 100, lpiInfrastructure: 3.8, regulatoryQuality: 0.8, ruleOfLaw: 0.8, controlOfCorruption: 0.7, tertiaryEnrollment: 99, humanCapitalIndex: 0.74, laborForceM: 24 },
+    'Netherlands': { region: 'Europe (Western)', gdpGrowth: 0.1, gdpPerCapitaPPP: 73, gdpUSDbn: 1120, tradeOpenness: 160, tariffRate: 1.4, lpiScore: 4.1, internetUsers: 97, electricityAccess: 100, lpiInfrastructure: 4.2, regulatoryQuality: 1.8, ruleOfLaw: 1.7, controlOfCorruption: 1.9, tertiaryEnrollment: 89, humanCapitalIndex: 0.80, laborForceM: 10 },
+    'Switzerland': { region: 'Europe (Western)', gdpGrowth: 0.7, gdpPerCapitaPPP: 89, gdpUSDbn: 885, tradeOpenness: 130, tariffRate: 1.5, lpiScore: 4.1, internetUsers: 96, electricityAccess: 100, lpiInfrastructure: 4.4, regulatoryQuality: 1.7, ruleOfLaw: 1.8, controlOfCorruption: 2.0, tertiaryEnrollment: 63, humanCapitalIndex: 0.76, laborForceM: 5 },
+    'Poland': { region: 'Europe (Eastern)', gdpGrowth: 0.2, gdpPerCapitaPPP: 46, gdpUSDbn: 810, tradeOpenness: 110, tariffRate: 1.4, lpiScore: 3.6, internetUsers: 87, electricityAccess: 100, lpiInfrastructure: 3.5, regulatoryQuality: 0.9, ruleOfLaw: 0.5, controlOfCorruption: 0.6, tertiaryEnrollment: 71, humanCapitalIndex: 0.75, laborForceM: 18 },
+    'Romania': { region: 'Europe (Eastern)', gdpGrowth: 2.1, gdpPerCapitaPPP: 43, gdpUSDbn: 350, tradeOpenness: 90, tariffRate: 1.4, lpiScore: 3.2, internetUsers: 89, electricityAccess: 100, lpiInfrastructure: 3.0, regulatoryQuality: 0.5, ruleOfLaw: 0.4, controlOfCorruption: 0.0, tertiaryEnrollment: 52, humanCapitalIndex: 0.58, laborForceM: 8 },
+    'Czech Republic': { region: 'Europe (Eastern)', gdpGrowth: -0.1, gdpPerCapitaPPP: 50, gdpUSDbn: 330, tradeOpenness: 145, tariffRate: 1.4, lpiScore: 3.7, internetUsers: 85, electricityAccess: 100, lpiInfrastructure: 3.6, regulatoryQuality: 1.2, ruleOfLaw: 1.1, controlOfCorruption: 0.6, tertiaryEnrollment: 64, humanCapitalIndex: 0.75, laborForceM: 5.4 },
+    'Hungary': { region: 'Europe (Eastern)', gdpGrowth: -0.9, gdpPerCapitaPPP: 42, gdpUSDbn: 210, tradeOpenness: 160, tariffRate: 1.4, lpiScore: 3.4, internetUsers: 91, electricityAccess: 100, lpiInfrastructure: 3.3, regulatoryQuality: 0.5, ruleOfLaw: 0.5, controlOfCorruption: -0.1, tertiaryEnrollment: 50, humanCapitalIndex: 0.68, laborForceM: 4.9 },
+    'Ukraine': { region: 'Europe (Eastern)', gdpGrowth: 5.3, gdpPerCapitaPPP: 15, gdpUSDbn: 180, tradeOpenness: 75, tariffRate: 2.5, lpiScore: 2.6, internetUsers: 79, electricityAccess: 100, lpiInfrastructure: 2.6, regulatoryQuality: -0.4, ruleOfLaw: -0.7, controlOfCorruption: -0.7, tertiaryEnrollment: 83, humanCapitalIndex: 0.63, laborForceM: 17 },
+    'Japan': { region: 'Asia-Pacific (Developed)', gdpGrowth: 1.9, gdpPerCapitaPPP: 51, gdpUSDbn: 4210, tradeOpenness: 45, tariffRate: 1.9, lpiScore: 3.9, internetUsers: 84, electricityAccess: 100, lpiInfrastructure: 4.2, regulatoryQuality: 1.4, ruleOfLaw: 1.5, controlOfCorruption: 1.6, tertiaryEnrollment: 65, humanCapitalIndex: 0.80, laborForceM: 69 },
+    'Australia': { region: 'Asia-Pacific (Developed)', gdpGrowth: 2.0, gdpPerCapitaPPP: 65, gdpUSDbn: 1720, tradeOpenness: 50, tariffRate: 0.8, lpiScore: 3.7, internetUsers: 96, electricityAccess: 100, lpiInfrastructure: 3.7, regulatoryQuality: 1.8, ruleOfLaw: 1.6, controlOfCorruption: 1.7, tertiaryEnrollment: 100, humanCapitalIndex: 0.77, laborForceM: 14.5 },
+    'South Korea': { region: 'Asia-Pacific (Developed)', gdpGrowth: 1.4, gdpPerCapitaPPP: 52, gdpUSDbn: 1710, tradeOpenness: 96, tariffRate: 5.0, lpiScore: 3.8, internetUsers: 97, electricityAccess: 100, lpiInfrastructure: 4.1, regulatoryQuality: 1.1, ruleOfLaw: 1.2, controlOfCorruption: 1.0, tertiaryEnrollment: 100, humanCapitalIndex: 0.80, laborForceM: 29 },
+    'Singapore': { region: 'Asia-Pacific (Developed)', gdpGrowth: 1.1, gdpPerCapitaPPP: 127, gdpUSDbn: 500, tradeOpenness: 330, tariffRate: 0.0, lpiScore: 4.3, internetUsers: 96, electricityAccess: 100, lpiInfrastructure: 4.6, regulatoryQuality: 2.3, ruleOfLaw: 1.8, controlOfCorruption: 2.2, tertiaryEnrollment: 97, humanCapitalIndex: 0.88, laborForceM: 3.7 },
+    'New Zealand': { region: 'Asia-Pacific (Developed)', gdpGrowth: 0.6, gdpPerCapitaPPP: 50, gdpUSDbn: 250, tradeOpenness: 55, tariffRate: 1.2, lpiScore: 3.6, internetUsers: 95, electricityAccess: 100, lpiInfrastructure: 3.6, regulatoryQuality: 1.8, ruleOfLaw: 1.8, controlOfCorruption: 1.9, tertiaryEnrollment: 80, humanCapitalIndex: 0.77, laborForceM: 3.0 },
+    'China': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 5.2, gdpPerCapitaPPP: 23, gdpUSDbn: 17790, tradeOpenness: 38, tariffRate: 3.0, lpiScore: 3.7, internetUsers: 77, electricityAccess: 100, lpiInfrastructure: 4.0, regulatoryQuality: -0.3, ruleOfLaw: 0.0, controlOfCorruption: 0.0, tertiaryEnrollment: 72, humanCapitalIndex: 0.65, laborForceM: 780 },
+    'India': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 7.8, gdpPerCapitaPPP: 9.2, gdpUSDbn: 3550, tradeOpenness: 46, tariffRate: 6.2, lpiScore: 3.4, internetUsers: 46, electricityAccess: 99, lpiInfrastructure: 3.2, regulatoryQuality: -0.2, ruleOfLaw: 0.0, controlOfCorruption: -0.3, tertiaryEnrollment: 32, humanCapitalIndex: 0.49, laborForceM: 520 },
+    'Vietnam': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 5.1, gdpPerCapitaPPP: 13.7, gdpUSDbn: 430, tradeOpenness: 185, tariffRate: 1.0, lpiScore: 3.3, internetUsers: 79, electricityAccess: 100, lpiInfrastructure: 3.2, regulatoryQuality: -0.3, ruleOfLaw: -0.1, controlOfCorruption: -0.3, tertiaryEnrollment: 42, humanCapitalIndex: 0.69, laborForceM: 52 },
+    'Indonesia': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 5.0, gdpPerCapitaPPP: 15, gdpUSDbn: 1370, tradeOpenness: 41, tariffRate: 2.0, lpiScore: 3.0, internetUsers: 69, electricityAccess: 99, lpiInfrastructure: 2.9, regulatoryQuality: 0.2, ruleOfLaw: -0.3, controlOfCorruption: -0.5, tertiaryEnrollment: 40, humanCapitalIndex: 0.54, laborForceM: 140 },
+    'Thailand': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 1.9, gdpPerCapitaPPP: 21, gdpUSDbn: 515, tradeOpenness: 130, tariffRate: 3.5, lpiScore: 3.5, internetUsers: 88, electricityAccess: 100, lpiInfrastructure: 3.7, regulatoryQuality: 0.1, ruleOfLaw: 0.1, controlOfCorruption: -0.4, tertiaryEnrollment: 49, humanCapitalIndex: 0.61, laborForceM: 40 },
+    'Philippines': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 5.6, gdpPerCapitaPPP: 10, gdpUSDbn: 437, tradeOpenness: 70, tariffRate: 1.5, lpiScore: 3.3, internetUsers: 73, electricityAccess: 97, lpiInfrastructure: 3.2, regulatoryQuality: 0.0, ruleOfLaw: -0.5, controlOfCorruption: -0.5, tertiaryEnrollment: 35, humanCapitalIndex: 0.52, laborForceM: 50 },
+    'Malaysia': { region: 'Asia-Pacific (Emerging)', gdpGrowth: 3.6, gdpPerCapitaPPP: 33, gdpUSDbn: 400, tradeOpenness: 130, tariffRate: 3.6, lpiScore: 3.6, internetUsers: 97, electricityAccess: 100, lpiInfrastructure: 3.6, regulatoryQuality: 0.7, ruleOfLaw: 0.6, controlOfCorruption: 0.3, tertiaryEnrollment: 43, humanCapitalIndex: 0.61, laborForceM: 17 },
+    'UAE': { region: 'Middle East', gdpGrowth: 3.6, gdpPerCapitaPPP: 78, gdpUSDbn: 500, tradeOpenness: 190, tariffRate: 3.0, lpiScore: 4.0, internetUsers: 100, electricityAccess: 100, lpiInfrastructure: 4.1, regulatoryQuality: 1.0, ruleOfLaw: 0.8, controlOfCorruption: 1.2, tertiaryEnrollment: 57, humanCapitalIndex: 0.67, laborForceM: 7 },
+    'Saudi Arabia': { region: 'Middle East', gdpGrowth: -0.8, gdpPerCapitaPPP: 60, gdpUSDbn: 1070, tradeOpenness: 65, tariffRate: 4.2, lpiScore: 3.4, internetUsers: 100, electricityAccess: 100, lpiInfrastructure: 3.6, regulatoryQuality: 0.2, ruleOfLaw: 0.2, controlOfCorruption: 0.4, tertiaryEnrollment: 71, humanCapitalIndex: 0.58, laborForceM: 16 },
+    'Qatar': { region: 'Middle East', gdpGrowth: 1.2, gdpPerCapitaPPP: 115, gdpUSDbn: 235, tradeOpenness: 95, tariffRate: 3.0, lpiScore: 3.5, internetUsers: 100, electricityAccess: 100, lpiInfrastructure: 3.5, regulatoryQuality: 0.8, ruleOfLaw: 0.8, controlOfCorruption: 0.8, tertiaryEnrollment: 35, humanCapitalIndex: 0.64, laborForceM: 2.1 },
+    'Israel': { region: 'Middle East', gdpGrowth: 2.0, gdpPerCapitaPPP: 52, gdpUSDbn: 510, tradeOpenness: 55, tariffRate: 1.8, lpiScore: 3.6, internetUsers: 90, electricityAccess: 100, lpiInfrastructure: 3.7, regulatoryQuality: 1.2, ruleOfLaw: 1.0, controlOfCorruption: 0.8, tertiaryEnrollment: 62, humanCapitalIndex: 0.73, laborForceM: 4.6 },
+    'Turkey': { region: 'Middle East', gdpGrowth: 4.5, gdpPerCapitaPPP: 41, gdpUSDbn: 1110, tradeOpenness: 70, tariffRate: 3.6, lpiScore: 3.4, internetUsers: 83, electricityAccess: 100, lpiInfrastructure: 3.4, regulatoryQuality: -0.2, ruleOfLaw: -0.6, controlOfCorruption: -0.5, tertiaryEnrollment: 99, humanCapitalIndex: 0.65, laborForceM: 35 },
+    'Egypt': { region: 'Middle East', gdpGrowth: 3.8, gdpPerCapitaPPP: 17, gdpUSDbn: 395, tradeOpenness: 40, tariffRate: 6.0, lpiScore: 3.1, internetUsers: 72, electricityAccess: 100, lpiInfrastructure: 3.1, regulatoryQuality: -0.8, ruleOfLaw: -0.5, controlOfCorruption: -0.8, tertiaryEnrollment: 38, humanCapitalIndex: 0.49, laborForceM: 31 },
+    'Brazil': { region: 'Latin America', gdpGrowth: 2.9, gdpPerCapitaPPP: 20, gdpUSDbn: 2170, tradeOpenness: 35, tariffRate: 8.0, lpiScore: 3.2, internetUsers: 84, electricityAccess: 100, lpiInfrastructure: 3.2, regulatoryQuality: -0.1, ruleOfLaw: -0.3, controlOfCorruption: -0.4, tertiaryEnrollment: 57, humanCapitalIndex: 0.55, laborForceM: 108 },
+    'Argentina': { region: 'Latin America', gdpGrowth: -1.6, gdpPerCapitaPPP: 27, gdpUSDbn: 640, tradeOpenness: 28, tariffRate: 7.6, lpiScore: 2.8, internetUsers: 89, electricityAccess: 100, lpiInfrastructure: 2.8, regulatoryQuality: -0.8, ruleOfLaw: -0.4, controlOfCorruption: -0.4, tertiaryEnrollment: 95, humanCapitalIndex: 0.60, laborForceM: 22 },
+    'Chile': { region: 'Latin America', gdpGrowth: 0.2, gdpPerCapitaPPP: 32, gdpUSDbn: 335, tradeOpenness: 65, tariffRate: 0.8, lpiScore: 3.2, internetUsers: 90, electricityAccess: 100, lpiInfrastructure: 3.0, regulatoryQuality: 1.1, ruleOfLaw: 0.7, controlOfCorruption: 1.0, tertiaryEnrollment: 94, humanCapitalIndex: 0.65, laborForceM: 10 },
+    'Colombia': { region: 'Latin America', gdpGrowth: 0.6, gdpPerCapitaPPP: 21, gdpUSDbn: 365, tradeOpenness: 40, tariffRate: 5.3, lpiScore: 2.9, internetUsers: 75, electricityAccess: 100, lpiInfrastructure: 2.8, regulatoryQuality: 0.2, ruleOfLaw: -0.5, controlOfCorruption: -0.3, tertiaryEnrollment: 57, humanCapitalIndex: 0.60, laborForceM: 26 },
+    'Peru': { region: 'Latin America', gdpGrowth: -0.6, gdpPerCapitaPPP: 16, gdpUSDbn: 268, tradeOpenness: 55, tariffRate: 1.1, lpiScore: 2.9, internetUsers: 74, electricityAccess: 96, lpiInfrastructure: 2.6, regulatoryQuality: 0.3, ruleOfLaw: -0.6, controlOfCorruption: -0.6, tertiaryEnrollment: 71, humanCapitalIndex: 0.61, laborForceM: 19 },
+    'South Africa': { region: 'Africa', gdpGrowth: 0.7, gdpPerCapitaPPP: 15, gdpUSDbn: 377, tradeOpenness: 65, tariffRate: 4.5, lpiScore: 3.7, internetUsers: 75, electricityAccess: 87, lpiInfrastructure: 3.6, regulatoryQuality: -0.1, ruleOfLaw: -0.2, controlOfCorruption: -0.4, tertiaryEnrollment: 25, humanCapitalIndex: 0.43, laborForceM: 25 },
+    'Nigeria': { region: 'Africa', gdpGrowth: 2.9, gdpPerCapitaPPP: 6, gdpUSDbn: 363, tradeOpenness: 35, tariffRate: 10.5, lpiScore: 2.6, internetUsers: 55, electricityAccess: 60, lpiInfrastructure: 2.4, regulatoryQuality: -0.9, ruleOfLaw: -0.9, controlOfCorruption: -1.1, tertiaryEnrollment: 12, humanCapitalIndex: 0.36, laborForceM: 75 },
+    'Kenya': { region: 'Africa', gdpGrowth: 5.6, gdpPerCapitaPPP: 6, gdpUSDbn: 108, tradeOpenness: 35, tariffRate: 8.5, lpiScore: 2.7, internetUsers: 40, electricityAccess: 76, lpiInfrastructure: 2.6, regulatoryQuality: -0.3, ruleOfLaw: -0.4, controlOfCorruption: -0.8, tertiaryEnrollment: 12, humanCapitalIndex: 0.55, laborForceM: 24 },
+    'Ghana': { region: 'Africa', gdpGrowth: 2.9, gdpPerCapitaPPP: 7, gdpUSDbn: 76, tradeOpenness: 60, tariffRate: 8.0, lpiScore: 2.7, internetUsers: 70, electricityAccess: 86, lpiInfrastructure: 2.6, regulatoryQuality: -0.1, ruleOfLaw: 0.1, controlOfCorruption: -0.1, tertiaryEnrollment: 20, humanCapitalIndex: 0.45, laborForceM: 13 },
+    'Rwanda': { region: 'Africa', gdpGrowth: 8.2, gdpPerCapitaPPP: 3, gdpUSDbn: 14, tradeOpenness: 55, tariffRate: 8.5, lpiScore: 2.7, internetUsers: 34, electricityAccess: 50, lpiInfrastructure: 2.6, regulatoryQuality: 0.1, ruleOfLaw: 0.1, controlOfCorruption: 0.6, tertiaryEnrollment: 8, humanCapitalIndex: 0.38, laborForceM: 6 },
+    'Ethiopia': { region: 'Africa', gdpGrowth: 7.2, gdpPerCapitaPPP: 3, gdpUSDbn: 160, tradeOpenness: 25, tariffRate: 9.5, lpiScore: 2.4, internetUsers: 20, electricityAccess: 55, lpiInfrastructure: 2.2, regulatoryQuality: -1.0, ruleOfLaw: -0.5, controlOfCorruption: -0.4, tertiaryEnrollment: 10, humanCapitalIndex: 0.38, laborForceM: 55 }
+  }
+};
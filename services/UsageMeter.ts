@@ -0,0 +1,229 @@
+import { GoogleGenAI } from "@google/genai";
+import type { EmbedContentParameters, EmbedContentResponse, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+// USD per 1M tokens. Thinking tokens are billed as output.
+export type ModelPricing = { inputPerMTok: number; outputPerMTok: number };
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { inputPerMTok: 0.30, outputPerMTok: 2.50 },
+  'gemini-2.5-flash-lite-latest': { inputPerMTok: 0.10, outputPerMTok: 0.40 },
+  'gemini-2.5-flash-preview-tts': { inputPerMTok: 0.50, outputPerMTok: 10.00 },
+  'gemini-3-pro-preview': { inputPerMTok: 2.00, outputPerMTok: 12.00 },
+  'gemini-embedding-001': { inputPerMTok: 0.15, outputPerMTok: 0 },
+  'gpt-4o': { inputPerMTok: 2.50, outputPerMTok: 10.00 },
+  'claude-sonnet-4-20250514': { inputPerMTok: 3.00, outputPerMTok: 15.00 },
+};
+
+// Used for models missing from the table so unknown spend is never counted as free
+const DEFAULT_PRICING: ModelPricing = { inputPerMTok: 2.00, outputPerMTok: 12.00 };
+
+export type UsageAttribution = {
+  module: string; // e.g. 'rroi', 'governance-audit', 'orchestrator:gpt-4'
+  reportId?: string; // defaults to the active report
+};
+
+export type UsageRecord = {
+  id: string;
+  timestamp: string;
+  model: string;
+  module: string;
+  reportId: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+};
+
+export type ReportUsage = {
+  reportId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  byModule: Record<string, { calls: number; tokens: number; costUSD: number }>;
+  budgetUSD?: number;
+  budgetRemainingUSD?: number;
+  overBudget: boolean;
+};
+
+export class BudgetExceededError extends Error {
+  constructor(public reportId: string, public spentUSD: number, public budgetUSD: number) {
+    super(`AI budget exhausted for report ${reportId}: $${spentUSD.toFixed(4)} of $${budgetUSD.toFixed(2)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const UNATTRIBUTED = 'unattributed';
+const STORAGE_KEY = 'bw-nexus-usage';
+const MAX_STORED_RECORDS = 5000;
+
+export function estimateCostUSD(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[model] ?? DEFAULT_PRICING;
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
+
+/**
+ * Ledger of every model call, attributed to a report and the module that
+ * triggered it. Persists to localStorage when available.
+ */
+export class UsageMeter {
+  private records: UsageRecord[] = [];
+  private budgets: Record<string, number> = {};
+  private activeReportId: string | undefined;
+  private listeners = new Set<(record: UsageRecord) => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  setActiveReport(reportId: string | undefined): void {
+    this.activeReportId = reportId || undefined;
+  }
+
+  setBudget(reportId: string, budgetUSD: number | undefined): void {
+    if (budgetUSD === undefined) delete this.budgets[reportId];
+    else this.budgets[reportId] = budgetUSD;
+    this.save();
+  }
+
+  resolveReportId(attribution?: Partial<UsageAttribution>): string {
+    return attribution?.reportId || this.activeReportId || UNATTRIBUTED;
+  }
+
+  /**
+   * Throws BudgetExceededError when the report has already spent its budget.
+   */
+  assertWithinBudget(reportId: string): void {
+    const budget = this.budgets[reportId];
+    if (budget === undefined) return;
+    const spent = this.getReportUsage(reportId).costUSD;
+    if (spent >= budget) throw new BudgetExceededError(reportId, spent, budget);
+  }
+
+  record(entry: { model: string; inputTokens: number; outputTokens: number } & Partial<UsageAttribution>): UsageRecord {
+    const record: UsageRecord = {
+      id: `${Date.now().toString(36)}-${this.records.length}`,
+      timestamp: new Date().toISOString(),
+      model: entry.model,
+      module: entry.module || 'unknown',
+      reportId: this.resolveReportId(entry),
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      costUSD: estimateCostUSD(entry.model, entry.inputTokens, entry.outputTokens)
+    };
+    this.records.push(record);
+    this.save();
+    this.listeners.forEach(listener => listener(record));
+    return record;
+  }
+
+  getRecords(reportId?: string): UsageRecord[] {
+    return reportId ? this.records.filter(r => r.reportId === reportId) : [...this.records];
+  }
+
+  getReportUsage(reportId: string): ReportUsage {
+    const usage: ReportUsage = { reportId, calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, byModule: {}, overBudget: false };
+    for (const r of this.records) {
+      if (r.reportId !== reportId) continue;
+      usage.calls++;
+      usage.inputTokens += r.inputTokens;
+      usage.outputTokens += r.outputTokens;
+      usage.costUSD += r.costUSD;
+      const mod = usage.byModule[r.module] ??= { calls: 0, tokens: 0, costUSD: 0 };
+      mod.calls++;
+      mod.tokens += r.inputTokens + r.outputTokens;
+      mod.costUSD += r.costUSD;
+    }
+    const budget = this.budgets[reportId];
+    if (budget !== undefined) {
+      usage.budgetUSD = budget;
+      usage.budgetRemainingUSD = Math.max(0, budget - usage.costUSD);
+      usage.overBudget = usage.costUSD >= budget;
+    }
+    return usage;
+  }
+
+  subscribe(listener: (record: UsageRecord) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      this.records = stored.records || [];
+      this.budgets = stored.budgets || {};
+    } catch (e) {
+      console.error("Usage ledger unreadable, starting fresh", e);
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+    this.records = this.records.slice(-MAX_STORED_RECORDS);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ records: this.records, budgets: this.budgets }));
+    } catch (e) {
+      console.warn("Usage ledger persistence skipped", e);
+    }
+  }
+}
+
+export const usageMeter = new UsageMeter();
+
+const tokensFrom = (response: GenerateContentResponse | undefined) => {
+  const usage = response?.usageMetadata;
+  return {
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0)
+  };
+};
+
+/**
+ * Drop-in replacement for `new GoogleGenAI(...)` whose `models.generateContent`,
+ * `models.generateContentStream` and `models.embedContent` take an extra
+ * attribution argument and record usage on the shared meter.
+ */
+export function createMeteredClient(apiKey: string | undefined, meter: UsageMeter = usageMeter) {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    models: {
+      async generateContent(params: GenerateContentParameters, attribution: UsageAttribution): Promise<GenerateContentResponse> {
+        const reportId = meter.resolveReportId(attribution);
+        meter.assertWithinBudget(reportId);
+        const response = await ai.models.generateContent(params);
+        meter.record({ model: params.model, module: attribution.module, reportId, ...tokensFrom(response) });
+        return response;
+      },
+
+      async generateContentStream(params: GenerateContentParameters, attribution: UsageAttribution): Promise<AsyncGenerator<GenerateContentResponse>> {
+        const reportId = meter.resolveReportId(attribution);
+        meter.assertWithinBudget(reportId);
+        const stream = await ai.models.generateContentStream(params);
+        return (async function* () {
+          // Usage totals arrive on the final chunk
+          let last: GenerateContentResponse | undefined;
+          try {
+            for await (const chunk of stream) {
+              if (chunk.usageMetadata) last = chunk;
+              yield chunk;
+            }
+          } finally {
+            meter.record({ model: params.model, module: attribution.module, reportId, ...tokensFrom(last) });
+          }
+        })();
+      },
+
+      async embedContent(params: EmbedContentParameters, attribution: UsageAttribution): Promise<EmbedContentResponse> {
+        const reportId = meter.resolveReportId(attribution);
+        meter.assertWithinBudget(reportId);
+        const response = await ai.models.embedContent(params);
+        // The Gemini API reports no token counts for embeddings; estimate at 4 characters per token
+        const chars = JSON.stringify(params.contents).length;
+        meter.record({ model: params.model, module: attribution.module, reportId, inputTokens: Math.ceil(chars / 4), outputTokens: 0 });
+        return response;
+      }
+    }
+  };
+}
@@ -0,0 +1,152 @@
+// Minimal ZIP writer and reader. Writes stored entries only; reads stored and
+// deflated entries. Enough for OOXML packages such as .docx and for .bwnexus
+// bundles without pulling in an archive dependency.
+
+export type ZipEntry = { name: string; data: string | Uint8Array };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Fixed 1980-01-01 timestamp so the same input always produces the same bytes
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1; // year offset 0, month 1, day 1
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map(e => {
+    const name = encoder.encode(e.name);
+    const data = typeof e.data === 'string' ? encoder.encode(e.data) : e.data;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((s, f) => s + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((s, f) => s + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true);
+    view.setUint16(pos + 4, 20, true); // version needed
+    view.setUint16(pos + 6, 0x0800, true); // UTF-8 names
+    view.setUint16(pos + 8, 0, true); // stored
+    view.setUint16(pos + 10, DOS_TIME, true);
+    view.setUint16(pos + 12, DOS_DATE, true);
+    view.setUint32(pos + 14, f.crc, true);
+    view.setUint32(pos + 18, f.data.length, true);
+    view.setUint32(pos + 22, f.data.length, true);
+    view.setUint16(pos + 26, f.name.length, true);
+    view.setUint16(pos + 28, 0, true);
+    out.set(f.name, pos + 30);
+    out.set(f.data, pos + 30 + f.name.length);
+    pos += 30 + f.name.length + f.data.length;
+  }
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    view.setUint32(pos, 0x02014b50, true);
+    view.setUint16(pos + 4, 20, true); // version made by
+    view.setUint16(pos + 6, 20, true);
+    view.setUint16(pos + 8, 0x0800, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, DOS_TIME, true);
+    view.setUint16(pos + 14, DOS_DATE, true);
+    view.setUint32(pos + 16, f.crc, true);
+    view.setUint32(pos + 20, f.data.length, true);
+    view.setUint32(pos + 24, f.data.length, true);
+    view.setUint16(pos + 28, f.name.length, true);
+    // extra, comment, disk, internal and external attributes stay zero
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(f.name, pos + 46);
+    pos += 46 + f.name.length;
+  });
+
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, files.length, true);
+  view.setUint16(pos + 10, files.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+}
+
+type ZipRecord = { name: string; method: number; crc: number; size: number; body: Uint8Array };
+
+// Walk the central directory; bodies are returned as stored in the archive
+function zipRecords(data: Uint8Array): ZipRecord[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // End of central directory: last signature match, allowing for an archive comment
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Not a ZIP archive: end of central directory not found');
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const records: ZipRecord[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error(`Corrupt ZIP central directory at entry ${i}`);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const body = data.slice(start, start + compressedSize);
+    if (body.length !== compressedSize) throw new Error(`ZIP entry "${name}" is truncated`);
+    records.push({ name, method: view.getUint16(pos + 10, true), crc: view.getUint32(pos + 16, true), size: view.getUint32(pos + 24, true), body });
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return records;
+}
+
+function checked(record: ZipRecord, data: Uint8Array): ZipEntry {
+  if (data.length !== record.size || crc32(data) !== record.crc) throw new Error(`ZIP entry "${record.name}" is truncated or corrupt`);
+  return { name: record.name, data };
+}
+
+/**
+ * Read an archive written by createZip (or any ZIP with stored entries) via
+ * its central directory. Entry CRCs are checked.
+ */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  return zipRecords(data).map(r => {
+    if (r.method !== 0) throw new Error(`ZIP entry "${r.name}" is compressed; only stored entries are supported`);
+    return checked(r, r.body);
+  });
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * readZip for archives from other tools (Word, Excel), which deflate their
+ * entries. Uses the platform DecompressionStream.
+ */
+export async function unzip(data: Uint8Array): Promise<ZipEntry[]> {
+  return Promise.all(zipRecords(data).map(async r => {
+    if (r.method === 0) return checked(r, r.body);
+    if (r.method === 8) return checked(r, await inflateRaw(r.body));
+    throw new Error(`ZIP entry "${r.name}" uses unsupported compression method ${r.method}`);
+  }));
+}
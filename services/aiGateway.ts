@@ -0,0 +1,449 @@
+import { Modality, Type } from "@google/genai";
+import type { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { AgentType, MultiAgentResponse, MultiAgentTask, ReportParameters, ScopeSuggestions } from '../types';
+import { getMultiAgentOrchestrator } from './MultiAgentOrchestrator';
+import { createMeteredClient, type UsageAttribution } from './UsageMeter';
+import { fingerprintPrompt } from './LLMProviders';
+import { parseStructured } from './ConsensusEngine';
+import { SchemaValidationError, ScopeSuggestionsSchema, type Validator } from './SchemaValidation';
+
+const ai = createMeteredClient(process.env.API_KEY);
+
+// --- Gateway Types ---
+
+/**
+ * What a call is for. Decides how long an identical answer may be reused.
+ */
+export type AICapability = 'structured' | 'narrative' | 'fast' | 'search' | 'speech' | 'chat';
+
+export const CACHE_TTL_MS: Record<AICapability, number> = {
+  structured: 24 * 60 * 60 * 1000, // indices, audits, blueprints
+  narrative: 60 * 60 * 1000,
+  fast: 10 * 60 * 1000,
+  search: 15 * 60 * 1000, // grounded answers go stale quickly
+  speech: 7 * 24 * 60 * 60 * 1000,
+  chat: 0, // conversational turns are never reused
+};
+
+export type GroundingSource = { title: string; uri: string };
+
+export type AIResult = {
+  text: string;
+  sources: GroundingSource[];
+  groundingChunks: any[];
+  audioData?: string;
+  cached: boolean;
+};
+
+export type GatewayOptions = UsageAttribution & {
+  capability: AICapability;
+  bypassCache?: boolean;
+  // Only results passing this check are cached, e.g. JSON that validates
+  cacheable?: (result: Omit<AIResult, 'cached'>) => boolean;
+};
+
+type CacheEntry = { expiresAt: number; value: Omit<AIResult, 'cached'> };
+
+// --- Response Cache ---
+
+const STORAGE_PREFIX = 'bw-nexus-ai-cache:';
+
+/**
+ * Content-addressed cache of normalized model results. Entries live in memory
+ * and, except for audio, in localStorage so they survive a reload.
+ */
+class ResponseCache {
+  private memory = new Map<string, CacheEntry>();
+
+  get(key: string): CacheEntry | undefined {
+    let entry = this.memory.get(key);
+    if (!entry && typeof localStorage !== 'undefined') {
+      const stored = localStorage.getItem(STORAGE_PREFIX + key);
+      if (stored) {
+        try {
+          const parsed = JSON.parse(stored) as CacheEntry;
+          if (typeof parsed?.expiresAt !== 'number' || typeof parsed.value?.text !== 'string') throw new Error('unrecognised cache entry');
+          entry = parsed;
+          this.memory.set(key, entry);
+        } catch (e) {
+          // Truncated writes and old formats are misses, not failed calls
+          console.warn("AI cache entry unreadable, dropped", e);
+          this.delete(key);
+          return undefined;
+        }
+      }
+    }
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry, persist: boolean): void {
+    this.memory.set(key, entry);
+    if (!persist || typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (e) {
+      // Quota exceeded: keep the in-memory copy only
+      console.warn("AI cache persistence skipped", e);
+    }
+  }
+
+  delete(key: string): void {
+    this.memory.delete(key);
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_PREFIX + key);
+  }
+
+  clear(): void {
+    this.memory.clear();
+    if (typeof localStorage === 'undefined') return;
+    Object.keys(localStorage).filter(k => k.startsWith(STORAGE_PREFIX)).forEach(k => localStorage.removeItem(k));
+  }
+}
+
+const cache = new ResponseCache();
+const inFlight = new Map<string, Promise<Omit<AIResult, 'cached'>>>();
+
+export const clearAICache = () => cache.clear();
+
+/**
+ * Key on model, prompt and full config (schema, tools, thinking budget).
+ * SHA-256 where WebCrypto is available, FNV-1a otherwise.
+ */
+async function cacheKey(params: GenerateContentParameters): Promise<string> {
+  const { abortSignal, ...config } = params.config || {};
+  const material = JSON.stringify({ model: params.model, contents: params.contents, config });
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  return fingerprintPrompt(material);
+}
+
+function normalize(response: GenerateContentResponse): Omit<AIResult, 'cached'> {
+  const candidate = response.candidates?.[0];
+  const groundingChunks = candidate?.groundingMetadata?.groundingChunks || [];
+  return {
+    text: response.text || '',
+    groundingChunks,
+    sources: groundingChunks
+      .map((c: any) => ({ title: c.web?.title || 'Source', uri: c.web?.uri || '' }))
+      .filter((s: GroundingSource) => s.uri),
+    audioData: candidate?.content?.parts?.[0]?.inlineData?.data
+  };
+}
+
+// --- Core Calls ---
+
+/**
+ * Single entry point for model calls: metered, attributed, and cached by
+ * capability. Identical concurrent calls share one request.
+ */
+export async function generate(params: GenerateContentParameters, options: GatewayOptions): Promise<AIResult> {
+  const ttl = CACHE_TTL_MS[options.capability];
+  const attribution = { module: options.module, reportId: options.reportId };
+
+  if (ttl <= 0 || options.bypassCache) {
+    return { ...normalize(await ai.models.generateContent(params, attribution)), cached: false };
+  }
+
+  const key = await cacheKey(params);
+  const hit = cache.get(key);
+  if (hit && (!options.cacheable || options.cacheable(hit.value))) return { ...hit.value, cached: true };
+  // Entries cached before they were checked are dropped rather than replayed
+  if (hit) cache.delete(key);
+
+  // A request that can be aborted is not shared, so one caller's cancel never fails another's call
+  const abortable = !!params.config?.abortSignal;
+  let pending = abortable ? undefined : inFlight.get(key);
+  if (!pending) {
+    pending = ai.models.generateContent(params, attribution).then(normalize);
+    if (!abortable) inFlight.set(key, pending);
+  }
+
+  try {
+    const value = await pending;
+    // Empty answers are failures in disguise; don't pin them for the whole TTL
+    if ((value.text || value.audioData) && (!options.cacheable || options.cacheable(value))) {
+      cache.set(key, { expiresAt: Date.now() + ttl, value }, options.capability !== 'speech');
+    }
+    return { ...value, cached: false };
+  } finally {
+    if (!abortable) inFlight.delete(key);
+  }
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Generate JSON and validate it. Invalid output is sent back to the model with
+ * the validation errors, at most MAX_REPAIR_ATTEMPTS times, before giving up
+ * with a SchemaValidationError.
+ */
+export async function generateStructured<T>(
+  params: Omit<GenerateContentParameters, 'contents'> & { contents: string },
+  options: GatewayOptions & { validate: Validator<T> }
+): Promise<T> {
+  const { validate, ...gatewayOptions } = options;
+  const check = (text: string) => {
+    const parsed = parseStructured(text);
+    return { parsed, errors: parsed === undefined ? ['$: response is not valid JSON'] : validate(parsed) };
+  };
+  // Invalid answers must not be cached, or a re-run would replay them without asking the model
+  const cacheable = (result: Omit<AIResult, 'cached'>) => check(result.text).errors.length === 0;
+  let contents = params.contents;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await generate({ ...params, contents }, { ...gatewayOptions, cacheable });
+    const { parsed, errors: found } = check(response.text);
+    errors = found;
+    if (errors.length === 0) return parsed as T;
+
+    console.warn(`${options.module}: invalid response (attempt ${attempt + 1})`, errors);
+    contents = `${params.contents}
+
+Your previous response was rejected by validation:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Previous response:
+${response.text.slice(0, 4000)}
+
+Return ONLY the corrected JSON.`;
+  }
+
+  throw new SchemaValidationError(options.module, errors);
+}
+
+export function generateStream(params: GenerateContentParameters, attribution: UsageAttribution) {
+  return ai.models.generateContentStream(params, attribution);
+}
+
+// --- Agent Personas ---
+
+export const scoutAgent = async (query: string): Promise<MultiAgentResponse> => {
+    try {
+        const response = await generate({
+            model: 'gemini-2.5-flash',
+            contents: query,
+            config: { tools: [{googleSearch: {}}] },
+        }, { module: 'scout-agent', capability: 'search' });
+        return { agent: 'scout', content: response.text || "No data found.", sources: response.sources };
+    } catch (error) {
+        console.error("Scout Error:", error);
+        return { agent: 'scout', content: "I couldn't access the external network." };
+    }
+};
+
+export const strategistAgent = async (query: string): Promise<MultiAgentResponse> => {
+    try {
+        const response = await generate({
+            model: 'gemini-3-pro-preview',
+            contents: query,
+            config: { thinkingConfig: { thinkingBudget: 16384 } },
+        }, { module: 'strategist-agent', capability: 'chat' });
+        return { agent: 'strategist', content: response.text || "Analysis incomplete." };
+    } catch (error) {
+        console.error("Strategist Error:", error);
+        return { agent: 'strategist', content: "My strategic module is overloaded." };
+    }
+};
+
+export const diplomatAgent = async (query: string): Promise<MultiAgentResponse> => {
+    try {
+        const response = await generate({
+            model: 'gemini-3-pro-preview',
+            contents: `You are a master diplomat and negotiator. ${query}`,
+        }, { module: 'diplomat-agent', capability: 'chat' });
+        return { agent: 'diplomat', content: response.text || "I cannot advise on this matter." };
+    } catch (error) {
+        console.error("Diplomat Error:", error);
+        return { agent: 'diplomat', content: "Communication link failed." };
+    }
+};
+
+export const orchestrateAgentResponse = async (userMessage: string, context: string, signal?: AbortSignal): Promise<MultiAgentResponse> => {
+    // Leverage the Multi-Agent Orchestrator for complex tasks
+    const orchestrator = getMultiAgentOrchestrator();
+
+    // Determine intent
+    const lowerMsg = userMessage.toLowerCase();
+    let agentType: AgentType = 'strategist';
+
+    if (lowerMsg.includes('news') || lowerMsg.includes('search') || lowerMsg.includes('competitor')) {
+        agentType = 'scout';
+    } else if (lowerMsg.includes('culture') || lowerMsg.includes('negotiate') || lowerMsg.includes('email')) {
+        agentType = 'diplomat';
+    }
+
+    try {
+        const task: MultiAgentTask = {
+            id: `task-${Date.now()}`,
+            prompt: `Context: ${context}. User Request: ${userMessage}. Act as a ${agentType} and provide a detailed response.`,
+            requiredAgents: agentType === 'strategist' ? 2 : 1, // Require consensus for strategy
+            consensusMethod: 'confidence-weighted',
+            timeout: 20000
+        };
+
+        const analysis = await orchestrator.executeTask(task, { signal });
+
+        if (analysis.status === 'completed') {
+            return {
+                agent: agentType,
+                content: analysis.consensus.consensusContent,
+                // Extract sources if available in metadata
+                sources: analysis.responses.find(r => r.metadata?.sources)?.metadata.sources || []
+            };
+        } else {
+            throw new Error(analysis.error || 'Agent orchestration failed');
+        }
+    } catch (error) {
+        console.warn("Orchestrator fallback initiated:", error);
+        if (signal?.aborted) throw error;
+        // Fallback to single agent direct call if orchestrator fails or is too slow
+        if (agentType === 'scout') return await scoutAgent(userMessage);
+        if (agentType === 'diplomat') return await diplomatAgent(userMessage);
+        return await strategistAgent(userMessage);
+    }
+};
+
+// --- Shared Capabilities ---
+
+export const generateThinkingContent = async (prompt: string): Promise<string> => {
+  try {
+    const response = await generate({
+      model: 'gemini-3-pro-preview',
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: 16384 }
+      },
+    }, { module: 'generate-thinking-content', capability: 'narrative' });
+    return response.text;
+  } catch (error) {
+    console.error("Thinking Mode Error:", error);
+    return "Complex analysis failed to generate.";
+  }
+};
+
+export const generateFastSuggestion = async (input: string, context: string): Promise<string> => {
+  try {
+    const response = await generate({
+      model: 'gemini-2.5-flash-lite-latest',
+      contents: `Context: ${context}. User Input: ${input}. Provide a concise, professional refinement or strategic suggestion.`,
+    }, { module: 'generate-fast-suggestion', capability: 'fast' });
+    return response.text;
+  } catch (error) {
+    console.error("Fast Suggestion Error:", error);
+    return "";
+  }
+};
+
+export const generateSearchGroundedContent = async (query: string): Promise<{text: string, sources: any[]}> => {
+  try {
+    const response = await generate({
+      model: 'gemini-2.5-flash',
+      contents: query,
+      config: {
+        tools: [{googleSearch: {}}],
+      },
+    }, { module: 'generate-search-grounded-content', capability: 'search' });
+    return { text: response.text, sources: response.groundingChunks };
+  } catch (error) {
+    console.error("Search Grounding Error:", error);
+    return { text: "Analysis unavailable.", sources: [] };
+  }
+};
+
+export const generateSpeech = async (text: string): Promise<string | undefined> => {
+    try {
+        const response = await generate({
+            model: "gemini-2.5-flash-preview-tts",
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                    },
+                },
+            },
+        }, { module: 'generate-speech', capability: 'speech' });
+        return response.audioData;
+    } catch (error) {
+        console.error("TTS Error:", error);
+        return undefined;
+    }
+};
+
+export const decodeAudioData = async (
+  base64String: string,
+  audioContext: AudioContext
+): Promise<AudioBuffer> => {
+  const binaryString = atob(base64String);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return await audioContext.decodeAudioData(bytes.buffer);
+};
+
+export const getDynamicScopeSuggestions = async (
+    region: string,
+    country: string,
+    industry: string,
+    orgType: string
+): Promise<ScopeSuggestions> => {
+    if (!region || !industry) return { objectives: [], partners: [] };
+
+    const prompt = `
+        Based on:
+        Region: ${region} (${country || 'General'})
+        Industry: ${industry}
+        Org Type: ${orgType}
+
+        Provide:
+        1. 3 brief, high-impact Strategic Objectives (e.g., "Expand market share in ASEAN").
+        2. 3 brief Ideal Partner profiles (e.g., "Local Logistics Distributor").
+
+        Return ONLY JSON format: { "objectives": [], "partners": [] }
+    `;
+
+    try {
+        const result = await generateStructured<ScopeSuggestions>({
+            model: 'gemini-2.5-flash-lite-latest',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        partners: { type: Type.ARRAY, items: { type: Type.STRING } }
+                    }
+                }
+            }
+        }, { module: 'get-dynamic-scope-suggestions', capability: 'structured', validate: ScopeSuggestionsSchema });
+        return { ...result, provenance: 'model' };
+    } catch (e) {
+        console.error("Dynamic Suggestion Error", e);
+        return { objectives: [], partners: [], provenance: 'fallback' };
+    }
+};
+
+export const composeReport = async (modules: string[], params: ReportParameters): Promise<any> => {
+    // Mock report composition
+    return new Promise((resolve) => {
+        setTimeout(() => {
+            resolve({
+                reportId: 'instant-report-' + Math.random().toString(36).substr(2, 9),
+                status: 'complete',
+                modules: modules,
+                timestamp: new Date().toISOString(),
+                summary: `Report generated for ${params.organizationType} targeting ${params.region}.`
+            });
+        }, 1500);
+    });
+};
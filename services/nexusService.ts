@@ -1,65 +1,32 @@
 
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { ReportParameters, IVASAnalysis, SCFAnalysis, LAIAnalysis, MultiAgentTask, MultiAgentResponse, AgentType, NSILAnalysis, URPMetrics, SmartTradeOfficerResponse, RROI_Index, SEAM_Blueprint, SymbioticPartner, DeepReasoningAnalysis, GeopoliticalAnalysisResult, GovernanceAuditResult } from '../types';
-import { getMultiAgentOrchestrator } from './MultiAgentOrchestrator';
+import { Type } from "@google/genai";
+import { ReportParameters, NSILAnalysis, URPMetrics, URPMetricBreakdown, SmartTradeOfficerResponse, RROI_Index, SEAM_Blueprint, SymbioticPartner, DeepReasoningAnalysis, GeopoliticalAnalysisResult, GovernanceAuditResult } from '../types';
+import { generateStructured } from './aiGateway';
+import { DeepReasoningSchema, GeopoliticalAnalysisSchema, GovernanceAuditSchema, RROIIndexSchema, SEAMBlueprintSchema, SymbioticPartnerSchema, arrayOf } from './SchemaValidation';
+import { usageMeter } from './UsageMeter';
+import { computeURPIndex } from './URPIndex';
+import { documentContext, retrieveSources, withCitations, type RetrievalScope } from './DocumentCorpus';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 // --- Core Analytical Functions ---
 
+/**
+ * URP Index from the country/region indicator dataset. The problem statement
+ * only re-weights the five metrics.
+ */
 export const calculateURPIndex = (params: ReportParameters): {
   urpIndex: number;
   metrics: URPMetrics;
   breakdown: string;
+  details: URPMetricBreakdown[];
+  datasetVersion: string;
 } => {
-  const problemText = (
-    params.problemStatement +
-    ' ' +
-    (params.refinedProblemStatement || '')
-  ).toLowerCase();
-
-  let economicPotential = 5.0;
-  if (problemText.includes('growth') || problemText.includes('expansion')) economicPotential += 1.5;
-  if (problemText.includes('investment') || problemText.includes('capital')) economicPotential += 1.0;
-  if (problemText.includes('market') || problemText.includes('opportunity')) economicPotential += 0.8;
-
-  let marketAccessibility = 5.5;
-  if (problemText.includes('access') || problemText.includes('entry')) marketAccessibility += 1.2;
-  if (problemText.includes('barrier') || problemText.includes('restriction')) marketAccessibility -= 1.5;
-
-  let infrastructureReadiness = 6.0;
-  if (problemText.includes('infrastructure') || problemText.includes('development')) infrastructureReadiness += 1.3;
-  if (problemText.includes('digital')) infrastructureReadiness += 1.0;
-
-  let regulatoryEnvironment = 5.8;
-  if (problemText.includes('policy') || problemText.includes('government')) regulatoryEnvironment += 0.8;
-  if (problemText.includes('reform')) regulatoryEnvironment += 1.2;
-
-  let humanCapitalAvailability = 6.2;
-  if (problemText.includes('talent') || problemText.includes('skilled')) humanCapitalAvailability += 1.2;
-
-  const metrics: URPMetrics = {
-    economicPotential: Math.min(10, Math.max(0, economicPotential)),
-    marketAccessibility: Math.min(10, Math.max(0, marketAccessibility)),
-    infrastructureReadiness: Math.min(10, Math.max(0, infrastructureReadiness)),
-    regulatoryEnvironment: Math.min(10, Math.max(0, regulatoryEnvironment)),
-    humanCapitalAvailability: Math.min(10, Math.max(0, humanCapitalAvailability)),
-  };
-
-  const urpIndex =
-    metrics.economicPotential * 0.25 +
-    metrics.marketAccessibility * 0.2 +
-    metrics.infrastructureReadiness * 0.2 +
-    metrics.regulatoryEnvironment * 0.2 +
-    metrics.humanCapitalAvailability * 0.15;
-
-  const breakdown = `URP Index Breakdown: Economic Potential (${metrics.economicPotential.toFixed(1)}/10), Market Access (${metrics.marketAccessibility.toFixed(1)}/10), Infrastructure (${metrics.infrastructureReadiness.toFixed(1)}/10), Regulatory (${metrics.regulatoryEnvironment.toFixed(1)}/10), Human Capital (${metrics.humanCapitalAvailability.toFixed(1)}/10)`;
-
-  return { urpIndex: Math.round(urpIndex * 10) / 10, metrics, breakdown };
+  const { urpIndex, metrics, breakdown, details, datasetVersion } = computeURPIndex(params);
+  return { urpIndex, metrics, breakdown, details, datasetVersion };
 };
 
 export const runEnhancedNSILAnalysis = (params: ReportParameters): NSILAnalysis => {
-  const { urpIndex, metrics } = calculateURPIndex(params);
+  const { urpIndex, metrics, details, datasetVersion } = calculateURPIndex(params);
   const agerRiskScore = 10 - (metrics.regulatoryEnvironment + metrics.marketAccessibility) / 2; 
   const gsmPartnerMatches = Math.round(urpIndex * 1.5);
   
@@ -80,6 +47,9 @@ export const runEnhancedNSILAnalysis = (params: ReportParameters): NSILAnalysis
     gsmPartnerMatches,
     recommendedTier,
     calculatedPrice,
+    aiCostUSD: Math.round(usageMeter.getReportUsage(params.reportId).costUSD * 100) / 100,
+    urpBreakdown: details,
+    urpDatasetVersion: datasetVersion,
     keyOpportunities: ['Market Expansion', 'FDI Attraction', 'Supply Chain Optimization'],
     keyRisks: ['Regulatory Compliance', 'Operational Costs'],
     summary: `Analysis indicates a URP of ${urpIndex} with ${agerRiskScore < 5 ? 'manageable' : 'elevated'} risk.`,
@@ -88,7 +58,8 @@ export const runEnhancedNSILAnalysis = (params: ReportParameters): NSILAnalysis
   };
 };
 
-export const generateRROI = async (params: ReportParameters): Promise<RROI_Index> => {
+export const generateRROI = async (params: ReportParameters, signal?: AbortSignal): Promise<RROI_Index> => {
+    const sources = await retrieveSources(params, `${params.region} ${params.country || ''} ${params.industry.join(' ')} infrastructure regulation talent workforce market demand`);
     const prompt = `
         Generate a 'Regional Readiness & Opportunity Index' (RROI) for:
         Target: ${params.region} (${params.country || 'General'})
@@ -100,15 +71,16 @@ export const generateRROI = async (params: ReportParameters): Promise<RROI_Index
         2. Regulatory Environment
         3. Talent Availability
         4. Market Potential
-
+        ${documentContext(sources)}
         Provide a strict JSON response.
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<RROI_Index>({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.OBJECT,
@@ -139,14 +111,14 @@ export const generateRROI = async (params: ReportParameters): Promise<RROI_Index
                     }
                 }
             }
-        });
+        }, { module: 'rroi', reportId: params.reportId, capability: 'structured', validate: RROIIndexSchema });
 
-        const text = response.text;
-        if (!text) throw new Error("No RROI generated");
-        return JSON.parse(text) as RROI_Index;
+        return { ...withCitations(result, sources), provenance: 'model' };
     } catch (e) {
+        // Cancelled jobs stop here instead of reporting a fallback
+        if (signal?.aborted) throw e;
         console.error("RROI Error", e);
-        // Fallback mock
+        // Fallback mock, flagged so it is never shown as live intelligence
         return {
             overallScore: 75,
             summary: "Estimated score based on regional averages due to connection issue.",
@@ -155,12 +127,14 @@ export const generateRROI = async (params: ReportParameters): Promise<RROI_Index
                 regulatory: { name: "Regulatory", score: 65, analysis: "Standard compliance requirements." },
                 talent: { name: "Talent", score: 80, analysis: "Good availability of skilled labor." },
                 market: { name: "Market", score: 85, analysis: "Strong demand signals." }
-            }
+            },
+            provenance: 'fallback'
         };
     }
 };
 
-export const generateSEAM = async (params: ReportParameters): Promise<SEAM_Blueprint> => {
+export const generateSEAM = async (params: ReportParameters, signal?: AbortSignal): Promise<SEAM_Blueprint> => {
+    const sources = await retrieveSources(params, `${params.region} ${params.industry.join(' ')} ${params.organizationType} partners ecosystem agencies companies universities`);
     const prompt = `
         Generate a Strategic Ecosystem Alignment Map (SEAM) for:
         Region: ${params.region}
@@ -168,7 +142,7 @@ export const generateSEAM = async (params: ReportParameters): Promise<SEAM_Bluep
         Org Type: ${params.organizationType}
 
         Identify 4-5 specific, real-world entities (companies, agencies, NGOs, or universities) that would form a high-impact ecosystem for this organization.
-        
+        ${documentContext(sources)}
         Return valid JSON matching this schema:
         {
             "ecosystemSummary": "A brief strategic overview of the ecosystem landscape.",
@@ -179,10 +153,11 @@ export const generateSEAM = async (params: ReportParameters): Promise<SEAM_Bluep
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<SEAM_Blueprint>({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.OBJECT,
@@ -202,21 +177,21 @@ export const generateSEAM = async (params: ReportParameters): Promise<SEAM_Bluep
                     }
                 }
             }
-        });
+        }, { module: 'seam', reportId: params.reportId, capability: 'structured', validate: SEAMBlueprintSchema });
 
-        const text = response.text;
-        if (!text) throw new Error("No SEAM generated");
-        return JSON.parse(text) as SEAM_Blueprint;
+        return { ...withCitations(result, sources), provenance: 'model' };
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("SEAM Generation Error", e);
         return {
             ecosystemSummary: "Ecosystem mapping unavailable at this time.",
-            partners: []
+            partners: [],
+            provenance: 'fallback'
         };
     }
 };
 
-export const generateSymbioticMatches = async (params: ReportParameters): Promise<SymbioticPartner[]> => {
+export const generateSymbioticMatches = async (params: ReportParameters, signal?: AbortSignal): Promise<SymbioticPartner[]> => {
     const prompt = `
         ACT AS THE GLOBAL MATCHMAKER.
         
@@ -237,10 +212,11 @@ export const generateSymbioticMatches = async (params: ReportParameters): Promis
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<SymbioticPartner[]>({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.ARRAY,
@@ -258,16 +234,18 @@ export const generateSymbioticMatches = async (params: ReportParameters): Promis
                     }
                 }
             }
-        });
-        
-        return JSON.parse(response.text || '[]');
+        }, { module: 'generate-symbiotic-matches', reportId: params.reportId, capability: 'structured', validate: arrayOf(SymbioticPartnerSchema) });
+
+        return result;
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("Symbiosis Error", e);
         return [];
     }
 };
 
-export const generateDeepReasoning = async (userOrg: string, targetEntity: string, context: string): Promise<DeepReasoningAnalysis> => {
+export const generateDeepReasoning = async (userOrg: string, targetEntity: string, context: string, scope?: RetrievalScope, signal?: AbortSignal): Promise<DeepReasoningAnalysis> => {
+    const sources = await retrieveSources(scope, `${targetEntity} ${context}`);
     const prompt = `
         ACT AS A RUTHLESS STRATEGIC CRITIC.
         
@@ -281,15 +259,16 @@ export const generateDeepReasoning = async (userOrg: string, targetEntity: strin
         1. "Deal Killers": What will break this deal? (Cultural mismatch, regulatory wall, speed mismatch).
         2. "Hidden Gems": What is the 10x value multiplier no one sees?
         3. "Counter-Intuitive Insight": Why is the common wisdom wrong here?
-
+        ${documentContext(sources)}
         Use a Chain of Thought process.
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<DeepReasoningAnalysis>({
             model: 'gemini-3-pro-preview',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 thinkingConfig: { thinkingBudget: 16384 },
                 responseMimeType: 'application/json',
                 responseSchema: {
@@ -303,37 +282,41 @@ export const generateDeepReasoning = async (userOrg: string, targetEntity: strin
                     }
                 }
             }
-        });
-        
-        return JSON.parse(response.text || '{}');
+        }, { module: 'generate-deep-reasoning', reportId: scope?.reportId, capability: 'structured', validate: DeepReasoningSchema });
+
+        return { ...withCitations(result, sources), provenance: 'model' };
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("Deep Reasoning Error", e);
         return {
             verdict: 'Cautious Proceed',
             dealKillers: ['Analysis failed'],
             hiddenGems: [],
             reasoningChain: [],
-            counterIntuitiveInsight: 'Manual review required.'
+            counterIntuitiveInsight: 'Manual review required.',
+            provenance: 'fallback'
         };
     }
 };
 
-export const runGeopoliticalAnalysis = async (params: ReportParameters): Promise<GeopoliticalAnalysisResult> => {
+export const runGeopoliticalAnalysis = async (params: ReportParameters, signal?: AbortSignal): Promise<GeopoliticalAnalysisResult> => {
+    const sources = await retrieveSources(params, `${params.region} ${params.industry.join(' ')} political stability currency inflation conflict trade barriers`);
     const prompt = `
         Act as a Top-Tier Geopolitical Analyst (like Stratfor or Oxford Analytica).
         Analyze the geopolitical stability and economic outlook for: ${params.region}.
         Focus on the impact for: ${params.industry.join(', ')}.
         
         Assess: Political Stability, Currency Risk, Inflation, Regional Conflict, and Trade Barriers.
-        
+        ${documentContext(sources)}
         Return valid JSON.
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<GeopoliticalAnalysisResult>({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.OBJECT,
@@ -347,9 +330,10 @@ export const runGeopoliticalAnalysis = async (params: ReportParameters): Promise
                     }
                 }
             }
-        });
-        return JSON.parse(response.text || '{}');
+        }, { module: 'run-geopolitical-analysis', reportId: params.reportId, capability: 'structured', validate: GeopoliticalAnalysisSchema });
+        return { ...withCitations(result, sources), provenance: 'model' };
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("Geopolitical Analysis Error", e);
         return {
             stabilityScore: 50,
@@ -357,12 +341,14 @@ export const runGeopoliticalAnalysis = async (params: ReportParameters): Promise
             currencyRisk: "Medium",
             inflationTrend: "Stable",
             regionalConflictRisk: 50,
-            tradeBarriers: []
+            tradeBarriers: [],
+            provenance: 'fallback'
         };
     }
 };
 
-export const runGovernanceAudit = async (params: ReportParameters): Promise<GovernanceAuditResult> => {
+export const runGovernanceAudit = async (params: ReportParameters, signal?: AbortSignal): Promise<GovernanceAuditResult> => {
+    const sources = await retrieveSources(params, `${params.region} ${params.organizationType} governance corruption regulatory compliance transparency licensing permits`);
     const prompt = `
         Act as a Governance & Compliance Auditor (like Transparency International or a Big 4 Risk Partner).
         Perform a Governance Integrity Audit for operating in: ${params.region}.
@@ -370,15 +356,16 @@ export const runGovernanceAudit = async (params: ReportParameters): Promise<Gove
         
         Evaluate: Corruption Risk, Regulatory Friction, Transparency.
         Identify "Red Flags" and a "Compliance Roadmap".
-        
+        ${documentContext(sources)}
         Return valid JSON.
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await generateStructured<GovernanceAuditResult>({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.OBJECT,
@@ -392,9 +379,10 @@ export const runGovernanceAudit = async (params: ReportParameters): Promise<Gove
                     }
                 }
             }
-        });
-        return JSON.parse(response.text || '{}');
+        }, { module: 'run-governance-audit', reportId: params.reportId, capability: 'structured', validate: GovernanceAuditSchema });
+        return { ...withCitations(result, sources), provenance: 'model' };
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.error("Governance Audit Error", e);
         return {
             governanceScore: 50,
@@ -402,7 +390,8 @@ export const runGovernanceAudit = async (params: ReportParameters): Promise<Gove
             regulatoryFriction: 50,
             transparencyIndex: 50,
             redFlags: ["Data unavailable"],
-            complianceRoadmap: ["Standard due diligence required"]
+            complianceRoadmap: ["Standard due diligence required"],
+            provenance: 'fallback'
         };
     }
 };
@@ -416,174 +405,3 @@ export const getSmartTradeOfficerGuidance = (params: ReportParameters, nsilAnaly
         recommendedContacts: ['Investment Promotion Agency', 'Local Chamber of Commerce']
     };
 };
-
-// --- AI Integrations ---
-
-export const orchestrateAgentResponse = async (userMessage: string, context: string): Promise<MultiAgentResponse> => {
-    const orchestrator = getMultiAgentOrchestrator();
-    const lowerMsg = userMessage.toLowerCase();
-    let agentType: AgentType = 'strategist';
-    
-    if (lowerMsg.includes('news') || lowerMsg.includes('search')) agentType = 'scout';
-    else if (lowerMsg.includes('negotiate') || lowerMsg.includes('culture')) agentType = 'diplomat';
-
-    try {
-        const task: MultiAgentTask = {
-            id: `task-${Date.now()}`,
-            prompt: `Context: ${context}. User Request: ${userMessage}. Act as a ${agentType}.`,
-            requiredAgents: 1,
-            consensusMethod: 'simple-majority',
-            timeout: 20000
-        };
-
-        const analysis = await orchestrator.executeTask(task);
-        
-        if (analysis.status === 'completed') {
-            return {
-                agent: agentType,
-                content: analysis.consensus.consensusContent,
-                sources: analysis.responses[0]?.metadata?.sources || []
-            };
-        } else {
-            throw new Error(analysis.error || 'Orchestration failed');
-        }
-    } catch (error) {
-        console.error("Orchestrator error, falling back to direct call", error);
-        // Fallback logic
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Act as a ${agentType}. Context: ${context}. User: ${userMessage}`
-        });
-        return { agent: agentType, content: response.text || "I am unable to process your request at this time." };
-    }
-};
-
-export const generateThinkingContent = async (prompt: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 16384 }
-      },
-    });
-    return response.text || '';
-  } catch (error) {
-    console.error("Thinking Mode Error:", error);
-    return "Complex analysis failed to generate.";
-  }
-};
-
-export const generateFastSuggestion = async (input: string, context: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite-latest',
-      contents: `Context: ${context}. User Input: ${input}. Provide a concise, professional refinement or strategic suggestion.`,
-    });
-    return response.text || '';
-  } catch (error) {
-    console.error("Fast Suggestion Error:", error);
-    return "";
-  }
-};
-
-export const generateSearchGroundedContent = async (query: string): Promise<{text: string, sources: any[]}> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: query,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
-    });
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    return { text: response.text || '', sources };
-  } catch (error) {
-    console.error("Search Grounding Error:", error);
-    return { text: "Analysis unavailable.", sources: [] };
-  }
-};
-
-export const generateSpeech = async (text: string): Promise<string | undefined> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    } catch (error) {
-        console.error("TTS Error:", error);
-        return undefined;
-    }
-};
-
-export const decodeAudioData = async (
-  base64String: string,
-  audioContext: AudioContext
-): Promise<AudioBuffer> => {
-  const binaryString = atob(base64String);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return await audioContext.decodeAudioData(bytes.buffer);
-};
-
-export const getDynamicScopeSuggestions = async (
-    region: string, 
-    country: string, 
-    industry: string, 
-    orgType: string
-): Promise<{ objectives: string[], partners: string[] }> => {
-    if (!region || !industry) return { objectives: [], partners: [] };
-
-    const prompt = `
-        Based on:
-        Region: ${region} (${country || 'General'})
-        Industry: ${industry}
-        Org Type: ${orgType}
-        
-        Provide:
-        1. 3 brief, high-impact Strategic Objectives (e.g., "Expand market share in ASEAN").
-        2. 3 brief Ideal Partner profiles (e.g., "Local Logistics Distributor").
-        
-        Return ONLY JSON format: { "objectives": [], "partners": [] }
-    `;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-lite-latest',
-            contents: prompt,
-            config: { responseMimeType: 'application/json' }
-        });
-        const text = response.text || "{}";
-        return JSON.parse(text);
-    } catch (e) {
-        console.error("Dynamic Suggestion Error", e);
-        return { objectives: [], partners: [] };
-    }
-};
-
-export const composeReport = async (modules: string[], params: ReportParameters): Promise<any> => {
-    // Mock report composition
-    return new Promise((resolve) => {
-        setTimeout(() => {
-            resolve({
-                reportId: 'instant-report-' + Math.random().toString(36).substr(2, 9),
-                status: 'complete',
-                modules: modules,
-                timestamp: new Date().toISOString(),
-                summary: `Report generated for ${params.organizationType} targeting ${params.region}.`
-            });
-        }, 1500);
-    });
-};
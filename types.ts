@@ -55,6 +55,8 @@ export interface ReportParameters {
   targetPartner?: string;
   uploadedFileName?: string;
   uploadedDocument?: boolean;
+  documents?: MissionDocumentRef[]; // uploads analysis prompts can cite; text lives in the document store
+  priorReports?: PriorReportRef[]; // earlier reports analysis prompts can cite; no others are retrieved
   nicheAreas?: string[];
   comparisonHub?: string;
   strategicObjectives?: string[];
@@ -67,6 +69,46 @@ export interface ReportParameters {
   initialThought?: string;
   selectedIntent?: string; // Legacy single select support
   selectedIntents?: string[]; // New multi-select support
+  ivasProfile?: string; // IVAS weighting profile id (services/IVAS.ts)
+}
+
+// --- Document Corpus ---
+
+export type MissionDocumentKind = 'pdf' | 'docx' | 'csv' | 'text';
+
+export interface DocumentChunk {
+  id: string; // `${documentId}#${index}`
+  documentId: string;
+  text: string;
+  location: string; // human-readable, e.g. "p. 4" or "§ Market Overview"
+  page?: number;
+  section?: string;
+}
+
+export interface MissionDocument {
+  id: string;
+  name: string;
+  kind: MissionDocumentKind;
+  bytes: number;
+  ingestedAt: string;
+  pageCount?: number; // PDFs only
+  chunks: DocumentChunk[];
+}
+
+export type MissionDocumentRef = Pick<MissionDocument, 'id' | 'name' | 'kind'>;
+
+// Earlier reports may belong to other clients, so a mission opts in to each one
+export type PriorReportRef = { reportId: string; name: string };
+
+// Where a retrieved passage came from: an uploaded document or an earlier NSIL report
+export type RetrievalSourceType = 'document' | 'report';
+
+export interface DocumentCitation {
+  documentId: string; // the report id for earlier reports
+  documentName: string;
+  chunkId: string;
+  location: string;
+  sourceType?: RetrievalSourceType; // absent means 'document'
 }
 
 export interface StrategicIntent {
@@ -183,15 +225,24 @@ export interface LiveOpportunityItem {
   ai_risk_assessment?: string;
 }
 
+export interface DashboardIntelligenceItem {
+    company: string;
+    details: string;
+    implication: string;
+    source: string;
+    url: string;
+}
+
 export interface DashboardIntelligence {
     category: string;
-    items: {
-        company: string;
-        details: string;
-        implication: string;
-        source: string;
-        url: string;
-    }[];
+    items: DashboardIntelligenceItem[];
+    provenance?: Provenance;
+}
+
+export interface ScopeSuggestions {
+    objectives: string[];
+    partners: string[];
+    provenance?: Provenance;
 }
 
 export interface SymbiosisContext {
@@ -209,18 +260,21 @@ export interface AgentHealthStatus {
   averageResponseTime: number;
 }
 
+export type ConsensusMethod = 'confidence-weighted' | 'simple-majority' | 'unanimous' | 'judge-arbitration';
+
 export interface MultiAgentOrchestratorConfig {
   enabledAgents: string[];
-  defaultConsensusMethod: 'confidence-weighted' | 'simple-majority' | 'unanimous';
+  defaultConsensusMethod: ConsensusMethod;
   minConsensusThreshold: number;
   maxParallelTasks: number;
   taskTimeout: number;
   retryAttempts: number;
   fallbackToSingleAgent: boolean;
+  offlineMode?: boolean; // replay recorded fixtures instead of calling provider APIs
 }
 
 export interface AIAgentConfig {
-  provider: string;
+  provider: string; // 'google-gemini' | 'openai-gpt' | 'anthropic-claude' | 'mock'
   model: string;
   apiKey: string;
   temperature: number;
@@ -235,7 +289,7 @@ export interface MultiAgentTask {
   id: string;
   prompt: string;
   requiredAgents: number;
-  consensusMethod: 'confidence-weighted' | 'simple-majority' | 'unanimous';
+  consensusMethod: ConsensusMethod;
   timeout: number;
   context?: any;
 }
@@ -257,6 +311,12 @@ export interface ConsensusResult {
   consensusContent: string;
   confidence: number;
   agreementLevel: 'unanimous' | 'majority' | 'split';
+  agreementScore: number; // 0..1, mean pairwise agreement (minimum for 'unanimous')
+  fieldAgreement: Record<string, number>; // per JSON path, '$' for free-text answers
+  thresholdMet: boolean;
+  escalated: boolean; // agreement below minConsensusThreshold, needs human review
+  resolvedBy: 'merge' | 'judge';
+  judgeRationale?: string;
   participatingAgents: string[];
   dissentingOpinions: { agentId: string; alternativeContent: string; reasoning: string }[];
   metadata: {
@@ -270,7 +330,7 @@ export interface MultiAgentAnalysis {
   task: MultiAgentTask;
   responses: AgentResponse[];
   consensus: ConsensusResult;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   startTime: string;
   endTime?: string;
   error?: string;
@@ -325,29 +385,6 @@ export interface MultiAgentResponse {
     sources?: { title: string; uri: string }[];
 }
 
-export interface IVASAnalysis {
-    score: number;
-    activationVelocity: string;
-    regulatoryFriction: 'Low' | 'Medium' | 'High';
-    politicalWill: number;
-    catalystEvent: string;
-}
-
-export interface LAIAnalysis {
-    latentAssets: {
-        asset: string;
-        potential: string;
-        symbiosis: string;
-    }[];
-}
-
-export interface SCFAnalysis {
-    directJobs: number;
-    indirectJobs: number;
-    fiscalImpact: string;
-    ecosystemRipple: string[];
-}
-
 export interface URPMetrics {
     economicPotential: number;
     marketAccessibility: number;
@@ -356,12 +393,32 @@ export interface URPMetrics {
     humanCapitalAvailability: number;
 }
 
+export interface URPIndicatorCitation {
+    indicator: string;
+    label: string;
+    value: number;
+    unit: string;
+    normalized: number; // 0-10
+    source: string;
+}
+
+export interface URPMetricBreakdown {
+    metric: keyof URPMetrics;
+    score: number; // 0-10
+    weight: number; // share of the index, set by the problem statement emphasis
+    basis: string; // country or regional average the score was read from
+    drivers: URPIndicatorCitation[];
+}
+
 export interface NSILAnalysis {
     urpIndex: number;
     agerRiskScore: number;
     gsmPartnerMatches: number;
     recommendedTier: string;
     calculatedPrice: number;
+    aiCostUSD?: number; // metered model spend attributed to this report so far
+    urpBreakdown?: URPMetricBreakdown[];
+    urpDatasetVersion?: string;
     keyOpportunities: string[];
     keyRisks: string[];
     summary: string;
@@ -446,6 +503,46 @@ export interface NSIL_ClusterAnalysis {
   regional_advantages: string[];
 }
 
+export interface NSIL_TreatyOverlap {
+  name: string;
+  type: 'FTA' | 'BIT' | 'DTA' | 'Multilateral' | 'MoU';
+  status: 'in_force' | 'signed' | 'negotiating' | 'proposed';
+  relevance: string;
+}
+
+export interface NSIL_PolicyAlignment {
+  priority: string;
+  home_position: string;
+  partner_position: string;
+  alignment: number; // 0-100
+}
+
+export interface NSIL_DiplomaticSignal {
+  signal: string;
+  direction: 'positive' | 'negative' | 'neutral';
+  strength: 'High' | 'Medium' | 'Low';
+  observed: string; // date or period
+}
+
+export interface NSIL_JointProgram {
+  program: string;
+  lead_agencies: string[];
+  funding_sources: string[];
+  timeline: string;
+  feasibility: number; // 0-100
+  expected_outcomes: string[];
+}
+
+export interface NSIL_G2GAlignment {
+  home_government: string;
+  partner_government: string;
+  alignment_score: number; // 0-100
+  treaty_overlap: NSIL_TreatyOverlap[];
+  policy_alignment: NSIL_PolicyAlignment[];
+  diplomatic_signals: NSIL_DiplomaticSignal[];
+  joint_programs: NSIL_JointProgram[];
+}
+
 export interface NSIL_RegionalImpact {
   effect: 'positive' | 'negative' | 'mixed';
   description: string;
@@ -549,6 +646,7 @@ export interface NSIL_Report {
   match?: NSIL_Match;
   lq_analysis?: NSIL_LQ_Analysis[];
   cluster_analysis?: NSIL_ClusterAnalysis[];
+  g2g_alignment?: NSIL_G2GAlignment;
   future_cast?: NSIL_FutureCast;
   financial_feasibility?: FinancialFeasibility;
   development_bank_alignment?: DevelopmentBankAlignment[];
@@ -556,6 +654,8 @@ export interface NSIL_Report {
   geopolitical_forecast?: GeopoliticalInstabilityForecast;
   policy_recommendations?: PolicyRecommendation[];
   esg_framework?: ESG_Framework;
+  // Sections holding placeholder content because model generation failed
+  fallback_sections?: string[];
 }
 
 export interface ReportSuggestions {
@@ -563,6 +663,9 @@ export interface ReportSuggestions {
     partners: string[];
 }
 
+// Whether a structured result came from the model or is a canned fallback
+export type Provenance = 'model' | 'fallback';
+
 export interface RROI_Component {
     name: string;
     score: number;
@@ -573,6 +676,8 @@ export interface RROI_Index {
     overallScore: number;
     summary: string;
     components: Record<string, RROI_Component>;
+    citations?: DocumentCitation[]; // retrieved passages the analysis relied on
+    provenance?: Provenance;
 }
 
 export interface SEAM_Partner {
@@ -584,6 +689,8 @@ export interface SEAM_Partner {
 export interface SEAM_Blueprint {
     ecosystemSummary: string;
     partners: SEAM_Partner[];
+    citations?: DocumentCitation[];
+    provenance?: Provenance;
 }
 
 // New Types for Symbiotic Matching & Deep Reasoning
@@ -603,6 +710,8 @@ export interface DeepReasoningAnalysis {
     hiddenGems: string[];
     reasoningChain: string[]; // Step-by-step logic
     counterIntuitiveInsight: string; // "Why everyone else is wrong about this"
+    citations?: DocumentCitation[];
+    provenance?: Provenance;
 }
 
 // --- Geopolitical & Governance Types ---
@@ -614,6 +723,8 @@ export interface GeopoliticalAnalysisResult {
     inflationTrend: 'Stable' | 'Rising' | 'Hyper';
     regionalConflictRisk: number; // 0-100
     tradeBarriers: string[];
+    citations?: DocumentCitation[];
+    provenance?: Provenance;
 }
 
 export interface GovernanceAuditResult {
@@ -623,11 +734,16 @@ export interface GovernanceAuditResult {
     transparencyIndex: number; // 0-100
     redFlags: string[];
     complianceRoadmap: string[];
+    citations?: DocumentCitation[];
+    provenance?: Provenance;
 }
 
 // --- Latent Asset Types ---
+export type FeatureCategory = 'infrastructure' | 'talent' | 'resource' | 'policy' | 'market';
+
 export interface RawFeature {
   name: string;
+  category?: FeatureCategory; // inferred from the name when omitted
   rarityScore?: number; // 0..10
   relevanceScore?: number; // 0..10
   marketProxy?: number; // heuristic numeric
@@ -650,4 +766,12 @@ export interface LatentAsset {
   synergyScore: number;
   marketEstimateUSD: number;
   recommendedNextSteps: string[];
+  synergyRules?: SynergyRuleMatch[]; // compatibility rules behind synergyScore, one per component pair
+}
+
+export interface SynergyRuleMatch {
+  components: [string, string];
+  categories: [FeatureCategory | null, FeatureCategory | null]; // null when the feature could not be categorised
+  multiplier: number;
+  rationale: string;
 }